@@ -4,10 +4,20 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AppProvider } from "@/hooks/useApp";
+import UpdatePrompt from "@/components/UpdatePrompt";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    // Try the network even when the browser reports offline: the service
+    // worker may answer from its cache.
+    queries: { networkMode: "offlineFirst" },
+    // Transaction mutations queue themselves in the outbox when offline, so
+    // they must always run rather than wait for connectivity.
+    mutations: { networkMode: "always" },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -15,9 +25,22 @@ const App = () => (
       <AppProvider>
         <Toaster />
         <Sonner />
+        <UpdatePrompt />
         <BrowserRouter>
           <Routes>
-            <Route path="/" element={<Index />} />
+            {/* Index picks the screen for each path; they are listed here so
+                anything else is a 404. */}
+            <Route element={<Index />}>
+              <Route index />
+              <Route path="wallets" />
+              <Route path="wallets/:walletId/transactions" />
+              <Route path="wallets/:walletId/reports" />
+              <Route path="wallets/:walletId/categories" />
+              <Route path="transactions/:transactionId" />
+              <Route path="settings" />
+              <Route path="settings/people" />
+              <Route path="settings/users" />
+            </Route>
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useApp } from "@/hooks/useApp";
+import { createBackup } from "@/lib/backup";
+import { downloadBlob, exportFileName } from "@/lib/export";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import RestoreWizard from "./RestoreWizard";
+import { useToast } from "@/hooks/use-toast";
+import { Archive, Download, Loader2, Upload } from "lucide-react";
+
+export default function BackupPanel() {
+  const { currentUser, activeServer } = useApp();
+  const { toast } = useToast();
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isRestoreOpen, setIsRestoreOpen] = useState(false);
+
+  const handleBackup = async () => {
+    if (!currentUser) return;
+    setIsBackingUp(true);
+    setProgress(null);
+
+    try {
+      const archive = await createBackup(
+        { server: activeServer.name, username: currentUser.username },
+        (done, total) => setProgress({ done, total })
+      );
+      downloadBlob(
+        new Blob([JSON.stringify(archive, null, 2)], { type: "application/json" }),
+        `${exportFileName("moneylover backup", activeServer.name, format(new Date(), "yyyy-MM-dd"))}.json`
+      );
+      toast({
+        title: "Backup downloaded",
+        description: `${archive.counts.wallets} wallets, ${archive.counts.transactions} transactions`,
+      });
+    } catch (error) {
+      toast({
+        title: "Backup failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Archive className="h-4 w-4 text-primary" />
+          Backup
+        </CardTitle>
+        <CardDescription>
+          Save users, wallets, categories, people, transactions and reconciliations to a file, or
+          restore them on a new server. Each user's preferences, such as the default period, are
+          not included
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-2 gap-2">
+        <Button variant="outline" onClick={handleBackup} disabled={isBackingUp}>
+          {isBackingUp ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              {progress
+                ? `Wallet ${Math.min(progress.done + 1, progress.total)} of ${progress.total}`
+                : "Reading"}
+            </>
+          ) : (
+            <>
+              <Download className="h-4 w-4 mr-1" />
+              Back Up
+            </>
+          )}
+        </Button>
+        <Button variant="outline" onClick={() => setIsRestoreOpen(true)} disabled={isBackingUp}>
+          <Upload className="h-4 w-4 mr-1" />
+          Restore
+        </Button>
+      </CardContent>
+
+      <RestoreWizard open={isRestoreOpen} onClose={() => setIsRestoreOpen(false)} />
+    </Card>
+  );
+}
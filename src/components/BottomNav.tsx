@@ -1,29 +1,34 @@
+import { Link, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
-import { LayoutList, FolderTree, Wallet, Settings, Plus } from "lucide-react";
-
-type Tab = "transactions" | "categories" | "wallets" | "settings";
+import { Tab, tabFromPath, tabPath } from "@/lib/routes";
+import { LayoutList, PieChart, FolderTree, Wallet, Settings, Plus } from "lucide-react";
 
 interface BottomNavProps {
-  activeTab: Tab;
-  onTabChange: (tab: Tab) => void;
+  walletId?: number;
+  // Carried over between the tabs that show a period.
+  periodSearch: string;
   onAddClick: () => void;
 }
 
 const navItems: { id: Tab; icon: React.ComponentType<any>; label: string }[] = [
   { id: "transactions", icon: LayoutList, label: "Transactions" },
+  { id: "reports", icon: PieChart, label: "Reports" },
   { id: "categories", icon: FolderTree, label: "Categories" },
   { id: "wallets", icon: Wallet, label: "Wallets" },
   { id: "settings", icon: Settings, label: "Settings" },
 ];
 
-export default function BottomNav({ activeTab, onTabChange, onAddClick }: BottomNavProps) {
+export default function BottomNav({ walletId, periodSearch, onAddClick }: BottomNavProps) {
+  const { pathname } = useLocation();
+  const activeTab = tabFromPath(pathname);
+
   return (
     <div className="fixed bottom-0 left-0 right-0 bg-card/95 backdrop-blur-md border-t border-border safe-area-inset-bottom z-50">
       <nav className="flex items-center justify-around max-w-lg mx-auto h-16 relative">
         {navItems.slice(0, 2).map((item) => (
-          <button
+          <Link
             key={item.id}
-            onClick={() => onTabChange(item.id)}
+            to={tabPath(item.id, walletId, periodSearch)}
             className={cn(
               "flex flex-col items-center justify-center gap-1 flex-1 h-full transition-colors",
               activeTab === item.id
@@ -33,7 +38,7 @@ export default function BottomNav({ activeTab, onTabChange, onAddClick }: Bottom
           >
             <item.icon className="h-5 w-5" />
             <span className="text-xs font-medium">{item.label}</span>
-          </button>
+          </Link>
         ))}
 
         {/* FAB */}
@@ -47,9 +52,9 @@ export default function BottomNav({ activeTab, onTabChange, onAddClick }: Bottom
         </div>
 
         {navItems.slice(2).map((item) => (
-          <button
+          <Link
             key={item.id}
-            onClick={() => onTabChange(item.id)}
+            to={tabPath(item.id, walletId, periodSearch)}
             className={cn(
               "flex flex-col items-center justify-center gap-1 flex-1 h-full transition-colors",
               activeTab === item.id
@@ -59,7 +64,7 @@ export default function BottomNav({ activeTab, onTabChange, onAddClick }: Bottom
           >
             <item.icon className="h-5 w-5" />
             <span className="text-xs font-medium">{item.label}</span>
-          </button>
+          </Link>
         ))}
       </nav>
     </div>
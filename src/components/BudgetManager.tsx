@@ -0,0 +1,412 @@
+import { useState, useMemo } from "react";
+import { format, parseISO } from "date-fns";
+import { Budget, BudgetPeriodType, CategoryTreeNode } from "@/lib/api";
+import { useApp } from "@/hooks/useApp";
+import { formatMoney, walletCurrency } from "@/lib/currency";
+import { useCreateBudget, useUpdateBudget, useDeleteBudget } from "@/hooks/queries";
+import { getCategoryKind } from "@/lib/classification";
+import { useBudgetProgress } from "@/hooks/useBudgetProgress";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Pencil, Trash2, Loader2, Target } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const PERIOD_LABELS: Record<BudgetPeriodType, string> = {
+  monthly: "Monthly",
+  weekly: "Weekly",
+  custom: "Custom range",
+};
+
+// Expense categories flattened depth-first, for the category selector.
+function flattenExpenseCategories(roots: CategoryTreeNode[]) {
+  const result: { node: CategoryTreeNode; level: number }[] = [];
+  const walk = (nodes: CategoryTreeNode[], level: number) =>
+    nodes.forEach((node) => {
+      result.push({ node, level });
+      walk(node.children || [], level + 1);
+    });
+  walk(
+    roots.filter((node) => getCategoryKind(node.category) === "expense"),
+    0
+  );
+  return result;
+}
+
+const EMPTY_FORM = {
+  category_id: "",
+  amount: "",
+  include_subcategories: true,
+  period_type: "monthly" as BudgetPeriodType,
+  start_date: "",
+  end_date: "",
+};
+
+export default function BudgetManager() {
+  const { selectedWallet } = useApp();
+  const currency = walletCurrency(selectedWallet);
+  const { toast } = useToast();
+  const walletId = selectedWallet?.wallet_id;
+  const [now] = useState(() => new Date());
+  const { roots, progress, isLoading } = useBudgetProgress(walletId, now);
+  const createBudgetMutation = useCreateBudget(walletId);
+  const updateBudgetMutation = useUpdateBudget(walletId);
+  const deleteBudgetMutation = useDeleteBudget(walletId);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+  const [deleteId, setDeleteId] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const categoryOptions = useMemo(() => flattenExpenseCategories(roots), [roots]);
+  const categoryById = useMemo(
+    () => new Map(categoryOptions.map(({ node }) => [node.category.category_id, node.category])),
+    [categoryOptions]
+  );
+
+  const openNewBudget = () => {
+    setEditingBudget(null);
+    setFormData(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const openEditBudget = (budget: Budget) => {
+    setEditingBudget(budget);
+    setFormData({
+      category_id: budget.category_id.toString(),
+      amount: budget.amount.toString(),
+      include_subcategories: budget.include_subcategories,
+      period_type: budget.period_type,
+      start_date: budget.start_date ? format(parseISO(budget.start_date), "yyyy-MM-dd") : "",
+      end_date: budget.end_date ? format(parseISO(budget.end_date), "yyyy-MM-dd") : "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!walletId) return;
+
+    if (!formData.category_id) {
+      toast({
+        title: "Missing information",
+        description: "Please select a category",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const amount = parseFloat(formData.amount);
+      if (isNaN(amount) || amount <= 0) {
+        throw new Error("Invalid amount");
+      }
+      const isCustom = formData.period_type === "custom";
+      if (isCustom && (!formData.start_date || !formData.end_date)) {
+        throw new Error("Choose a start and end date");
+      }
+
+      const params = {
+        category_id: parseInt(formData.category_id),
+        amount,
+        include_subcategories: formData.include_subcategories,
+        period_type: formData.period_type,
+        start_date: isCustom ? formData.start_date : null,
+        end_date: isCustom ? formData.end_date : null,
+      };
+
+      if (editingBudget) {
+        await updateBudgetMutation.mutateAsync({ budgetId: editingBudget.budget_id, params });
+        toast({ title: "Budget updated" });
+      } else {
+        await createBudgetMutation.mutateAsync(params);
+        toast({ title: "Budget created" });
+      }
+
+      setIsDialogOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    setIsSubmitting(true);
+
+    try {
+      await deleteBudgetMutation.mutateAsync(deleteId);
+      toast({ title: "Budget deleted" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to delete",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+      setDeleteId(null);
+    }
+  };
+
+  if (!selectedWallet) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Select a wallet first
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Budgets</h2>
+        <Button size="sm" onClick={openNewBudget}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Budget
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : progress.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <Target className="h-12 w-12 text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">No budgets yet</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {progress.map(({ budget, period, spent, remaining, ratio, active }) => {
+            const category = categoryById.get(budget.category_id);
+            const isOver = remaining < 0;
+            return (
+              <div key={budget.budget_id} className="p-4 bg-card rounded-xl shadow-card space-y-3 group">
+                <div className="flex items-center gap-3">
+                  <span className="text-2xl">{category?.icon || "📊"}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{category?.name || "Unknown"}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {PERIOD_LABELS[budget.period_type]} · {period.label}
+                      {budget.include_subcategories && " · incl. subcategories"}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button variant="ghost" size="icon" onClick={() => openEditBudget(budget)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => setDeleteId(budget.budget_id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+
+                {active ? (
+                  <>
+                    <Progress
+                      value={Math.min(ratio, 1) * 100}
+                      className="h-2"
+                      indicatorClassName={cn(
+                        isOver ? "bg-expense" : ratio >= 0.8 ? "bg-amber-500" : "bg-income"
+                      )}
+                    />
+
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground tabular-nums">
+                        {formatMoney(spent, currency)} of {formatMoney(budget.amount, currency)}
+                      </span>
+                      <span className={cn("font-medium tabular-nums", isOver ? "text-expense" : "text-income")}>
+                        {isOver
+                          ? `${formatMoney(-remaining, currency)} over`
+                          : `${formatMoney(remaining, currency)} left`}
+                      </span>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {formatMoney(budget.amount, currency)} ·{" "}
+                    {period.end < now ? "Ended" : `Starts ${format(period.start, "MMM d")}`}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Budget Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingBudget ? "Edit Budget" : "New Budget"}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select
+                value={formData.category_id}
+                onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categoryOptions.map(({ node, level }) => (
+                    <SelectItem
+                      key={node.category.category_id}
+                      value={node.category.category_id.toString()}
+                      className={cn(level > 0 && "pl-8")}
+                    >
+                      {node.category.icon} {node.category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Include Subcategories</Label>
+                <p className="text-xs text-muted-foreground">
+                  Count spending in every category below this one
+                </p>
+              </div>
+              <Switch
+                checked={formData.include_subcategories}
+                onCheckedChange={(checked) =>
+                  setFormData({ ...formData, include_subcategories: checked })
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Limit</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                placeholder="0.00"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select
+                value={formData.period_type}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, period_type: value as BudgetPeriodType })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PERIOD_LABELS) as BudgetPeriodType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {PERIOD_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formData.period_type === "custom" && (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label>From</Label>
+                  <Input
+                    type="date"
+                    value={formData.start_date}
+                    onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>To</Label>
+                  <Input
+                    type="date"
+                    value={formData.end_date}
+                    min={formData.start_date}
+                    onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : editingBudget ? (
+                  "Save Changes"
+                ) : (
+                  "Create Budget"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Budget?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Transactions are not affected. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,6 +1,14 @@
-import { useState, useEffect, useMemo } from "react";
-import { Category, CategoryTreeNode, getCategoryTree, createCategory, updateCategory, deleteCategory } from "@/lib/api";
+import { useState, useMemo } from "react";
+import { Category, CategoryTreeNode, TransactionKind } from "@/lib/api";
+import { TRANSACTION_KINDS, getCategoryKind, kindLabel } from "@/lib/classification";
 import { useApp } from "@/hooks/useApp";
+import { canEdit } from "@/lib/members";
+import {
+  useCategoryTree,
+  useCreateCategory,
+  useUpdateCategory,
+  useDeleteCategory,
+} from "@/hooks/queries";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -41,9 +49,10 @@ interface CategoryItemProps {
   onEdit: (category: Category) => void;
   onDelete: (categoryId: number) => void;
   onAddChild: (parent: Category) => void;
+  readOnly: boolean;
 }
 
-function CategoryItem({ node, level, onEdit, onDelete, onAddChild }: CategoryItemProps) {
+function CategoryItem({ node, level, onEdit, onDelete, onAddChild, readOnly }: CategoryItemProps) {
   const [expanded, setExpanded] = useState(true);
   const hasChildren = node.children && node.children.length > 0;
 
@@ -70,37 +79,40 @@ function CategoryItem({ node, level, onEdit, onDelete, onAddChild }: CategoryIte
         <div className="flex-1">
           <p className="font-medium">{node.category.name}</p>
           <div className="flex gap-2 text-xs text-muted-foreground">
+            {level === 0 && <span>{kindLabel(getCategoryKind(node.category))}</span>}
             {node.category.is_global && <span>Global</span>}
             {node.category.parent_id && <span>Subcategory</span>}
           </div>
         </div>
 
-        <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-          {level === 0 && (
+        {!readOnly && (
+          <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            {level === 0 && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onAddChild(node.category)}
+                title="Add subcategory"
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="icon"
-              onClick={() => onAddChild(node.category)}
-              title="Add subcategory"
+              onClick={() => onEdit(node.category)}
             >
-              <Plus className="h-4 w-4" />
+              <Pencil className="h-4 w-4" />
             </Button>
-          )}
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => onEdit(node.category)}
-          >
-            <Pencil className="h-4 w-4" />
-          </Button>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => onDelete(node.category.category_id)}
-          >
-            <Trash2 className="h-4 w-4 text-destructive" />
-          </Button>
-        </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onDelete(node.category.category_id)}
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        )}
       </div>
 
       {hasChildren && expanded && (
@@ -113,6 +125,7 @@ function CategoryItem({ node, level, onEdit, onDelete, onAddChild }: CategoryIte
               onEdit={onEdit}
               onDelete={onDelete}
               onAddChild={onAddChild}
+              readOnly={readOnly}
             />
           ))}
         </div>
@@ -123,9 +136,12 @@ function CategoryItem({ node, level, onEdit, onDelete, onAddChild }: CategoryIte
 
 export default function CategoryManager() {
   const { selectedWallet } = useApp();
+  const readOnly = !canEdit(selectedWallet);
   const { toast } = useToast();
-  const [tree, setTree] = useState<CategoryTreeNode[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const { data: tree = [], isLoading } = useCategoryTree(selectedWallet?.wallet_id);
+  const createCategoryMutation = useCreateCategory(selectedWallet?.wallet_id);
+  const updateCategoryMutation = useUpdateCategory(selectedWallet?.wallet_id);
+  const deleteCategoryMutation = useDeleteCategory(selectedWallet?.wallet_id);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [deleteId, setDeleteId] = useState<number | null>(null);
@@ -136,27 +152,9 @@ export default function CategoryManager() {
     icon: "📊",
     is_global: false,
     parent_id: null as number | null,
+    kind: "expense" as TransactionKind,
   });
 
-  const fetchTree = async () => {
-    if (!selectedWallet) return;
-    setIsLoading(true);
-    try {
-      const response = await getCategoryTree(selectedWallet.wallet_id);
-      if (response.success) {
-        setTree(response.data?.roots || []);
-      }
-    } catch (error) {
-      console.error("Failed to fetch categories:", error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchTree();
-  }, [selectedWallet]);
-
   // Get flat list of root categories for parent selector (exclude current category when editing)
   const rootCategories = useMemo(() => {
     return tree
@@ -171,6 +169,7 @@ export default function CategoryManager() {
       icon: "📊",
       is_global: false,
       parent_id: parent?.category_id || null,
+      kind: parent ? getCategoryKind(parent) : "expense",
     });
     setIsDialogOpen(true);
   };
@@ -182,6 +181,7 @@ export default function CategoryManager() {
       icon: category.icon,
       is_global: category.is_global,
       parent_id: category.parent_id,
+      kind: getCategoryKind(category),
     });
     setIsDialogOpen(true);
   };
@@ -193,24 +193,28 @@ export default function CategoryManager() {
     setIsSubmitting(true);
     try {
       if (editingCategory) {
-        await updateCategory(selectedWallet.wallet_id, editingCategory.category_id, {
-          name: formData.name,
-          icon: formData.icon,
-          is_global: formData.is_global,
-          parent_id: formData.parent_id,
+        await updateCategoryMutation.mutateAsync({
+          categoryId: editingCategory.category_id,
+          params: {
+            name: formData.name,
+            icon: formData.icon,
+            is_global: formData.is_global,
+            parent_id: formData.parent_id,
+            kind: formData.kind,
+          },
         });
         toast({ title: "Category updated" });
       } else {
-        await createCategory(selectedWallet.wallet_id, {
+        await createCategoryMutation.mutateAsync({
           name: formData.name,
           icon: formData.icon,
           parent_id: formData.parent_id,
           is_global: formData.is_global,
+          kind: formData.kind,
         });
         toast({ title: "Category created" });
       }
 
-      await fetchTree();
       setIsDialogOpen(false);
     } catch (error: any) {
       toast({
@@ -228,9 +232,8 @@ export default function CategoryManager() {
     setIsSubmitting(true);
 
     try {
-      await deleteCategory(selectedWallet.wallet_id, deleteId);
+      await deleteCategoryMutation.mutateAsync(deleteId);
       toast({ title: "Category deleted" });
-      await fetchTree();
     } catch (error: any) {
       toast({
         title: "Error",
@@ -262,10 +265,14 @@ export default function CategoryManager() {
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h2 className="text-lg font-semibold">Categories</h2>
-        <Button size="sm" onClick={() => openNewCategory()}>
-          <Plus className="h-4 w-4 mr-1" />
-          Add Category
-        </Button>
+        {readOnly ? (
+          <span className="text-sm text-muted-foreground">View only</span>
+        ) : (
+          <Button size="sm" onClick={() => openNewCategory()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Category
+          </Button>
+        )}
       </div>
 
       {isLoading ? (
@@ -287,6 +294,7 @@ export default function CategoryManager() {
               onEdit={openEditCategory}
               onDelete={setDeleteId}
               onAddChild={openNewCategory}
+              readOnly={readOnly}
             />
           ))}
         </div>
@@ -339,9 +347,12 @@ export default function CategoryManager() {
               <Select
                 value={formData.parent_id?.toString() || "none"}
                 onValueChange={(value) => {
+                  const parent = rootCategories.find((c) => c.category_id.toString() === value);
                   setFormData({
                     ...formData,
-                    parent_id: value === "none" ? null : parseInt(value),
+                    parent_id: parent ? parent.category_id : null,
+                    // Subcategories always share their parent's kind.
+                    kind: parent ? getCategoryKind(parent) : formData.kind,
                   });
                 }}
               >
@@ -366,6 +377,31 @@ export default function CategoryManager() {
               </p>
             </div>
 
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={formData.kind}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, kind: value as TransactionKind })
+                }
+                disabled={!!formData.parent_id}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRANSACTION_KINDS.map(({ kind, label }) => (
+                    <SelectItem key={kind} value={kind}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {formData.parent_id && (
+                <p className="text-xs text-muted-foreground">Inherited from the parent category</p>
+              )}
+            </div>
+
             <div className="flex items-center justify-between">
               <div>
                 <Label>Global Category</Label>
@@ -1,6 +1,8 @@
-import { useState, useEffect } from "react";
-import { getCategoryTree, CategoryTreeNode, Category } from "@/lib/api";
+import { useState } from "react";
+import { CategoryTreeNode, Category, TransactionKind } from "@/lib/api";
+import { getCategoryKind } from "@/lib/classification";
 import { useApp } from "@/hooks/useApp";
+import { useCategoryTree } from "@/hooks/queries";
 import { cn } from "@/lib/utils";
 import { ChevronRight, Loader2 } from "lucide-react";
 import {
@@ -15,6 +17,8 @@ interface CategoryPickerProps {
   onClose: () => void;
   onSelect: (category: Category) => void;
   selectedCategoryId?: number;
+  // Only offer categories of this kind when the wallet defines any.
+  kind?: TransactionKind;
 }
 
 function CategoryNode({
@@ -86,30 +90,12 @@ export default function CategoryPicker({
   onClose,
   onSelect,
   selectedCategoryId,
+  kind,
 }: CategoryPickerProps) {
   const { selectedWallet } = useApp();
-  const [tree, setTree] = useState<CategoryTreeNode[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-
-  useEffect(() => {
-    const fetchTree = async () => {
-      if (!selectedWallet || !open) return;
-      
-      setIsLoading(true);
-      try {
-        const response = await getCategoryTree(selectedWallet.wallet_id);
-        if (response.success) {
-          setTree(response.data?.roots || []);
-        }
-      } catch (error) {
-        console.error("Failed to fetch category tree:", error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchTree();
-  }, [selectedWallet, open]);
+  const { data: allRoots = [], isLoading } = useCategoryTree(selectedWallet?.wallet_id);
+  const matchingRoots = allRoots.filter((node) => getCategoryKind(node.category) === kind);
+  const tree = kind && matchingRoots.length > 0 ? matchingRoots : allRoots;
 
   return (
     <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
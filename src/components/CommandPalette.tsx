@@ -0,0 +1,217 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Transaction } from "@/lib/api";
+import { getCashFlow } from "@/lib/classification";
+import { formatMoney, walletCurrency } from "@/lib/currency";
+import { isAdmin } from "@/lib/users";
+import { flattenCategories, mergeResults, searchFilterSets } from "@/lib/search";
+import { useApp } from "@/hooks/useApp";
+import { useCategoryTrees, usePersons, useTransactionLists } from "@/hooks/queries";
+import { Tab } from "@/lib/routes";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import {
+  Plus,
+  FolderTree,
+  Wallet as WalletIcon,
+  PieChart,
+  Settings,
+  Users,
+  ShieldCheck,
+  LayoutList,
+  Loader2,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const SEARCH_DELAY = 300;
+const MIN_SEARCH_LENGTH = 2;
+
+const NAVIGATION: { tab: Tab; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { tab: "transactions", label: "Go to Transactions", icon: LayoutList },
+  { tab: "reports", label: "Go to Reports", icon: PieChart },
+  { tab: "categories", label: "Go to Categories", icon: FolderTree },
+  { tab: "wallets", label: "Go to Wallets", icon: WalletIcon },
+  { tab: "people", label: "Go to People", icon: Users },
+  { tab: "users", label: "Go to Users", icon: ShieldCheck },
+  { tab: "settings", label: "Go to Settings", icon: Settings },
+];
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAddTransaction: () => void;
+  onOpenTransaction: (transaction: Transaction) => void;
+  onNavigate: (tab: Tab) => void;
+}
+
+function matches(label: string, query: string) {
+  return label.toLowerCase().includes(query.trim().toLowerCase());
+}
+
+export default function CommandPalette({
+  open,
+  onOpenChange,
+  onAddTransaction,
+  onOpenTransaction,
+  onNavigate,
+}: CommandPaletteProps) {
+  const { wallets, selectedWallet, setSelectedWallet, currentUser } = useApp();
+  const [search, setSearch] = useState("");
+  const [term, setTerm] = useState("");
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    if (!open) setSearch("");
+  }, [open]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setTerm(search.trim()), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const isSearching = open && term.length >= MIN_SEARCH_LENGTH;
+  const categoryTrees = useCategoryTrees(
+    wallets.map((w) => w.wallet_id),
+    isSearching
+  );
+  const { data: persons = [] } = usePersons(isSearching);
+
+  const categories = categoryTrees.flatMap((query) => flattenCategories(query.data || []));
+  const filterSets = isSearching ? searchFilterSets(term, categories, persons) : [];
+  const results = useTransactionLists(filterSets, isSearching);
+  const isLoading = results.some((query) => query.isLoading);
+  const transactions = mergeResults(results.map((query) => query.data || []));
+
+  const run = (action: () => void) => {
+    onOpenChange(false);
+    action();
+  };
+
+  const walletName = (walletId: number) =>
+    wallets.find((w) => w.wallet_id === walletId)?.name || "";
+  const currencyOf = (walletId: number) =>
+    walletCurrency(wallets.find((w) => w.wallet_id === walletId));
+
+  const navigation = NAVIGATION.filter(
+    ({ tab, label }) => (tab !== "users" || isAdmin(currentUser)) && matches(label, search)
+  );
+  const otherWallets = wallets.filter(
+    (w) => w.wallet_id !== selectedWallet?.wallet_id && matches(`Switch to ${w.name}`, search)
+  );
+  const showAdd = matches("Add expense", search);
+
+  return (
+    // Results come from the server, so cmdk's own filtering is turned off.
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput
+        placeholder="Search transactions or type a command..."
+        value={search}
+        onValueChange={setSearch}
+      />
+      <CommandList>
+        {isSearching && isLoading && transactions.length === 0 ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <CommandEmpty>No results found</CommandEmpty>
+        )}
+
+        {isSearching && transactions.length > 0 && (
+          <CommandGroup heading="Transactions">
+            {transactions.map((transaction) => {
+              const isIncome = getCashFlow(transaction) === "in";
+              return (
+                <CommandItem
+                  key={transaction.transaction_id}
+                  value={`transaction-${transaction.transaction_id}`}
+                  onSelect={() => run(() => onOpenTransaction(transaction))}
+                >
+                  <span className="mr-2 text-lg">{transaction.category?.icon || "💰"}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">
+                      {transaction.category?.name || "Unknown"}
+                      {transaction.person && (
+                        <span className="text-muted-foreground"> · {transaction.person.person_name}</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {format(new Date(transaction.transaction_time), "MMM d, yyyy")} ·{" "}
+                      {walletName(transaction.wallet_id)}
+                      {transaction.note && ` · ${transaction.note}`}
+                    </p>
+                  </div>
+                  <span
+                    className={cn(
+                      "ml-2 font-medium tabular-nums",
+                      isIncome ? "text-income" : "text-expense"
+                    )}
+                  >
+                    {isIncome ? "+" : "-"}
+                    {formatMoney(Math.abs(transaction.amount), currencyOf(transaction.wallet_id))}
+                  </span>
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        )}
+
+        {(showAdd || navigation.length > 0) && (
+          <>
+            {isSearching && transactions.length > 0 && <CommandSeparator />}
+            <CommandGroup heading="Actions">
+              {showAdd && (
+                <CommandItem value="add-expense" onSelect={() => run(onAddTransaction)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add expense
+                </CommandItem>
+              )}
+              {navigation.map(({ tab, label, icon: Icon }) => (
+                <CommandItem key={tab} value={`go-${tab}`} onSelect={() => run(() => onNavigate(tab))}>
+                  <Icon className="mr-2 h-4 w-4" />
+                  {label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+
+        {otherWallets.length > 0 && (
+          <CommandGroup heading="Switch wallet">
+            {otherWallets.map((wallet) => (
+              <CommandItem
+                key={wallet.wallet_id}
+                value={`wallet-${wallet.wallet_id}`}
+                onSelect={() => run(() => setSelectedWallet(wallet))}
+              >
+                <span className="mr-2">{wallet.icon}</span>
+                Switch to {wallet.name}
+                <CommandShortcut>
+                  {formatMoney(wallet.balance, walletCurrency(wallet))}
+                </CommandShortcut>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useApp } from "@/hooks/useApp";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { COMMON_CURRENCIES, mergeRates, parseRateFile, rebase, walletCurrency } from "@/lib/currency";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Coins, FileUp, Plus, Trash2 } from "lucide-react";
+
+export default function CurrencyPanel() {
+  const { wallets } = useApp();
+  const { table, save } = useExchangeRates();
+  const { toast } = useToast();
+  const [newCode, setNewCode] = useState("");
+  const [newRate, setNewRate] = useState("");
+
+  const walletCurrencies = [...new Set(wallets.map(walletCurrency))];
+  const codes = [
+    ...new Set([...COMMON_CURRENCIES, ...walletCurrencies, ...Object.keys(table.rates), table.base]),
+  ].sort();
+  const rated = Object.keys(table.rates).sort();
+  const missing = walletCurrencies.filter((code) => code !== table.base && !table.rates[code]);
+  const addable = codes.filter((code) => code !== table.base && !table.rates[code]);
+
+  const showError = (description: string) =>
+    toast({ title: "Error", description, variant: "destructive" });
+
+  const setRate = (code: string, value: number | null) => {
+    const rates = { ...table.rates };
+    if (value === null) delete rates[code];
+    else rates[code] = value;
+    save({ ...table, rates, updated_at: new Date().toISOString() });
+  };
+
+  const changeBase = (base: string) => {
+    const next = rebase(table, base);
+    if (!next) {
+      showError(`Add a rate for ${base} before making it the base currency`);
+      return;
+    }
+    save(next);
+  };
+
+  const handleAdd = () => {
+    const rate = parseFloat(newRate);
+    if (!newCode || !(rate > 0)) return;
+    setRate(newCode, rate);
+    setNewCode("");
+    setNewRate("");
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const imported = parseRateFile(await file.text(), table.base);
+      save(mergeRates(table, imported));
+      toast({ title: `Imported ${Object.keys(imported.rates).length} rates` });
+    } catch (error) {
+      showError((error as Error).message || "Could not read the file");
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Coins className="h-4 w-4 text-primary" />
+          Currencies
+        </CardTitle>
+        <CardDescription>
+          Exchange rates on this device, used for net worth and foreign-currency transactions
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Base currency</Label>
+          <Select value={table.base} onValueChange={changeBase}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {codes.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {rated.length > 0 && (
+          <div className="space-y-2">
+            {rated.map((code) => (
+              <div key={code} className="flex items-center gap-2 text-sm">
+                <span className="w-14 shrink-0 text-muted-foreground">1 {table.base} =</span>
+                <Input
+                  type="number"
+                  step="any"
+                  min="0"
+                  defaultValue={table.rates[code]}
+                  key={`${code}:${table.rates[code]}`}
+                  onBlur={(e) => {
+                    const rate = parseFloat(e.target.value);
+                    if (rate > 0 && rate !== table.rates[code]) setRate(code, rate);
+                  }}
+                  className="h-8"
+                  aria-label={`${code} per ${table.base}`}
+                />
+                <span className="w-10 shrink-0 font-medium">{code}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => setRate(code, null)}
+                  aria-label={`Remove ${code}`}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Select value={newCode} onValueChange={setNewCode}>
+            <SelectTrigger className="w-24 h-8 shrink-0">
+              <SelectValue placeholder="Code" />
+            </SelectTrigger>
+            <SelectContent>
+              {addable.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="any"
+            min="0"
+            value={newRate}
+            onChange={(e) => setNewRate(e.target.value)}
+            placeholder={`Per 1 ${table.base}`}
+            className="h-8"
+          />
+          <Button size="sm" className="h-8 shrink-0" onClick={handleAdd} disabled={!newCode || !newRate}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {missing.length > 0 && (
+          <p className="text-xs text-destructive">
+            No rate yet for {missing.join(", ")}, used by your wallets
+          </p>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            {table.updated_at
+              ? `Updated ${format(new Date(table.updated_at), "MMM d, yyyy HH:mm")}`
+              : "No rates entered yet"}
+          </p>
+          <Button variant="outline" size="sm" asChild>
+            <label className="cursor-pointer">
+              <FileUp className="h-4 w-4 mr-1" />
+              Import
+              <input
+                type="file"
+                accept=".json,.csv,.txt"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
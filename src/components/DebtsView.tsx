@@ -0,0 +1,155 @@
+import { useState, useMemo } from "react";
+import { format } from "date-fns";
+import { Transaction } from "@/lib/api";
+import { DEBT_KINDS, DEBT_LABELS, DebtEntry, buildLedger } from "@/lib/debts";
+import { commonCurrency, formatMoney, walletCurrency } from "@/lib/currency";
+import { useApp } from "@/hooks/useApp";
+import { useTransactions } from "@/hooks/queries";
+import RepaymentDialog from "./RepaymentDialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, HandCoins } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const NO_TRANSACTIONS: Transaction[] = [];
+
+// Debts and loans are tracked per person, across every wallet.
+export default function DebtsView() {
+  const { wallets } = useApp();
+  const { data: transactions = NO_TRANSACTIONS, isLoading } = useTransactions({
+    kinds: DEBT_KINDS,
+  });
+  const [showSettled, setShowSettled] = useState(false);
+  const [repaying, setRepaying] = useState<DebtEntry | null>(null);
+
+  const ledger = useMemo(() => buildLedger(transactions), [transactions]);
+  const walletOf = (entry: DebtEntry) =>
+    wallets.find((w) => w.wallet_id === entry.transaction.wallet_id);
+  const totalCurrency = (entries: DebtEntry[]) => commonCurrency(entries.map(walletOf));
+  const ledgerCurrency = totalCurrency(ledger.entries);
+  const balances = useMemo(
+    () =>
+      ledger.balances
+        .map((balance) => ({
+          ...balance,
+          entries: showSettled
+            ? balance.entries
+            : balance.entries.filter((entry) => entry.outstanding > 0),
+        }))
+        .filter((balance) => balance.entries.length > 0),
+    [ledger, showSettled]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Summary */}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="p-3 bg-card rounded-xl shadow-card">
+          <p className="text-xs text-muted-foreground">Owed to you</p>
+          <p className="font-semibold text-income tabular-nums">{formatMoney(ledger.receivable, ledgerCurrency)}</p>
+        </div>
+        <div className="p-3 bg-card rounded-xl shadow-card">
+          <p className="text-xs text-muted-foreground">You owe</p>
+          <p className="font-semibold text-expense tabular-nums">{formatMoney(ledger.payable, ledgerCurrency)}</p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between px-1">
+        <Label htmlFor="show-settled" className="text-sm text-muted-foreground">
+          Show settled
+        </Label>
+        <Switch id="show-settled" checked={showSettled} onCheckedChange={setShowSettled} />
+      </div>
+
+      {balances.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <HandCoins className="h-12 w-12 text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">No open debts or loans</p>
+          <p className="text-sm text-muted-foreground/70">
+            Add a transaction of type Debt or Loan with a person
+          </p>
+        </div>
+      ) : (
+        balances.map((balance) => {
+          const net = balance.receivable - balance.payable;
+          const currency = totalCurrency(balance.entries);
+          return (
+            <Card key={balance.personId ?? "none"} className="shadow-card">
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-base">
+                    {balance.person?.person_name || "No person"}
+                  </CardTitle>
+                  <span
+                    className={cn(
+                      "text-sm font-semibold tabular-nums",
+                      net > 0 ? "text-income" : net < 0 ? "text-expense" : "text-muted-foreground"
+                    )}
+                  >
+                    {net > 0
+                      ? `Owes you ${formatMoney(net, currency)}`
+                      : net < 0
+                        ? `You owe ${formatMoney(-net, currency)}`
+                        : "Settled"}
+                  </span>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {balance.entries.map((entry) => {
+                  const labels = DEBT_LABELS[entry.kind];
+                  const entryCurrency = walletCurrency(walletOf(entry));
+                  return (
+                    <div key={entry.transaction.transaction_id} className="space-y-1.5">
+                      <div className="flex items-center justify-between text-sm">
+                        <span>
+                          {labels.action} {formatMoney(entry.amount, entryCurrency)}
+                          <span className="text-muted-foreground">
+                            {" "}
+                            · {format(new Date(entry.transaction.transaction_time), "MMM d, yyyy")}
+                          </span>
+                        </span>
+                        {entry.outstanding > 0 && (
+                          <Button size="sm" variant="outline" className="h-7" onClick={() => setRepaying(entry)}>
+                            Repay
+                          </Button>
+                        )}
+                      </div>
+                      {entry.transaction.note && (
+                        <p className="text-xs text-muted-foreground truncate">{entry.transaction.note}</p>
+                      )}
+                      <Progress
+                        value={entry.amount > 0 ? (entry.repaid / entry.amount) * 100 : 100}
+                        className="h-1.5"
+                        indicatorClassName={entry.kind === "loan" ? "bg-income" : "bg-expense"}
+                      />
+                      <p className="text-xs text-muted-foreground tabular-nums">
+                        {formatMoney(entry.repaid, entryCurrency)} repaid
+                        {entry.repayments.length > 0 &&
+                          ` in ${entry.repayments.length} payment${entry.repayments.length !== 1 ? "s" : ""}`}
+                        {" · "}
+                        {entry.outstanding > 0 ? `${formatMoney(entry.outstanding, entryCurrency)} left` : "settled"}
+                      </p>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      <RepaymentDialog entry={repaying} onClose={() => setRepaying(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { Transaction } from "@/lib/api";
+import { EXPORT_FORMATS, ExportFormat } from "@/lib/export";
+import { useExportTransactions } from "@/hooks/queries";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, Loader2 } from "lucide-react";
+
+interface ExportMenuProps {
+  walletId: number;
+  // Leave out to export every transaction in the wallet.
+  transactions?: Transaction[];
+  fileName: string;
+  children: React.ReactElement;
+}
+
+export default function ExportMenu({ walletId, transactions, fileName, children }: ExportMenuProps) {
+  const { toast } = useToast();
+  const exportMutation = useExportTransactions();
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      const count = await exportMutation.mutateAsync({ walletId, transactions, format, fileName });
+      toast({ title: `Exported ${count} transaction${count !== 1 ? "s" : ""}` });
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild disabled={exportMutation.isPending}>
+        {children}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="flex items-center gap-2">
+          {exportMutation.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4" />
+          )}
+          Export as
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
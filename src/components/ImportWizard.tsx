@@ -0,0 +1,772 @@
+import { useState, useEffect, useMemo } from "react";
+import { format, startOfDay, endOfDay } from "date-fns";
+import { Category, Transaction } from "@/lib/api";
+import { parseCsv } from "@/lib/csv";
+import { formatMoney, walletCurrency } from "@/lib/currency";
+import { canEdit } from "@/lib/members";
+import {
+  DATE_FORMATS,
+  DECIMAL_SEPARATORS,
+  IMPORT_FIELDS,
+  ColumnMapping,
+  CsvOptions,
+  DateFormat,
+  DecimalSeparator,
+  ImportField,
+  DuplicateStatus,
+  ImportResult,
+  ImportRow,
+  ImportSource,
+  duplicateStatus,
+  findCategoryByName,
+  guessMapping,
+  rowParams,
+  rowsFromCsv,
+  unknownCategoryNames,
+} from "@/lib/importer";
+import { StatementFile, readStatement, statementFormat } from "@/lib/statements";
+import { flattenCategories } from "@/lib/search";
+import { useApp } from "@/hooks/useApp";
+import {
+  useCategoryTree,
+  useCreateCategory,
+  useImportTransactions,
+  useTransactions,
+} from "@/hooks/queries";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Upload, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type Step = "upload" | "map" | "categories" | "review" | "done";
+
+const STEP_TITLES: Record<Step, string> = {
+  upload: "Import Transactions",
+  map: "Map Columns",
+  categories: "Match Categories",
+  review: "Review Import",
+  done: "Import Finished",
+};
+
+const PREVIEW_ROWS = 5;
+const NEW_CATEGORY = "new";
+const NO_TRANSACTIONS: Transaction[] = [];
+
+const DEFAULT_OPTIONS: CsvOptions = { hasHeader: true, dateFormat: "yyyy-MM-dd", decimal: "." };
+
+interface ImportWizardProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function ImportWizard({ open, onClose }: ImportWizardProps) {
+  const { wallets, selectedWallet, currentUser } = useApp();
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>("upload");
+  const [walletId, setWalletId] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<string[][]>([]);
+  const [statements, setStatements] = useState<StatementFile[]>([]);
+  const [qifDayFirst, setQifDayFirst] = useState(false);
+  const [qifDecimal, setQifDecimal] = useState<DecimalSeparator>(".");
+  const [options, setOptions] = useState<CsvOptions>(DEFAULT_OPTIONS);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  // Lower-cased file category name -> existing category id or NEW_CATEGORY.
+  const [categoryChoices, setCategoryChoices] = useState<Record<string, string>>({});
+  const [fallbackCategoryId, setFallbackCategoryId] = useState("");
+  // Likely duplicates the user wants imported anyway, by rowKey.
+  const [includedDuplicates, setIncludedDuplicates] = useState<Set<string>>(new Set());
+  const [progress, setProgress] = useState(0);
+  const [isImporting, setIsImporting] = useState(false);
+  const [results, setResults] = useState<ImportResult[]>([]);
+
+  // Until another wallet is picked, import into the selected one if the user
+  // can add to it.
+  const editableWallets = useMemo(() => wallets.filter(canEdit), [wallets]);
+  const wallet =
+    parseInt(walletId) ||
+    (selectedWallet && canEdit(selectedWallet) ? selectedWallet.wallet_id : undefined);
+  const currency = walletCurrency(wallets.find((w) => w.wallet_id === wallet));
+  const { data: roots = [] } = useCategoryTree(wallet);
+  const categories = useMemo(() => flattenCategories(roots), [roots]);
+  const createCategoryMutation = useCreateCategory(wallet);
+  const importMutation = useImportTransactions();
+
+  useEffect(() => {
+    if (!open) return;
+    setStep("upload");
+    setWalletId("");
+    setFileName("");
+    setTable([]);
+    setStatements([]);
+    setQifDayFirst(false);
+    setQifDecimal(".");
+    setOptions(DEFAULT_OPTIONS);
+    setMapping({});
+    setCategoryChoices({});
+    setFallbackCategoryId("");
+    setIncludedDuplicates(new Set());
+    setProgress(0);
+    setResults([]);
+  }, [open]);
+
+  const header = options.hasHeader ? table[0] || [] : [];
+  const columnCount = Math.max(0, ...table.slice(0, PREVIEW_ROWS + 1).map((r) => r.length));
+  const columnLabel = (index: number) => header[index] || `Column ${index + 1}`;
+
+  // A CSV file is imported on its own; OFX and QIF files can come several at once.
+  const sources = useMemo<ImportSource[]>(
+    () =>
+      table.length > 0
+        ? [{ name: fileName, ...rowsFromCsv(table, mapping, options) }]
+        : statements.map((file) => readStatement(file, qifDayFirst, qifDecimal)),
+    [table, fileName, mapping, options, statements, qifDayFirst, qifDecimal]
+  );
+  const allRows = useMemo(() => sources.flatMap((source) => source.rows), [sources]);
+  const unreadable = sources.reduce((sum, source) => sum + source.errors.length, 0);
+  const unknownNames = useMemo(
+    () => unknownCategoryNames(allRows, categories),
+    [allRows, categories]
+  );
+  const needsFallback = allRows.some((row) => !row.category_name);
+  const hasQif = statements.some((file) => file.format === "qif");
+
+  const range = useMemo(() => {
+    const times = allRows.map((row) => row.time.getTime());
+    return times.length
+      ? {
+          start: startOfDay(new Date(Math.min(...times))).toISOString(),
+          end: endOfDay(new Date(Math.max(...times))).toISOString(),
+        }
+      : null;
+  }, [allRows]);
+  const { data: existing = NO_TRANSACTIONS, isLoading: isLoadingExisting } = useTransactions(
+    {
+      wallet_id: wallet,
+      start_transaction_time: range?.start,
+      end_transaction_time: range?.end,
+    },
+    step === "review" && !!wallet && !!range
+  );
+  const rowKey = (sourceIndex: number, row: ImportRow) => `${sourceIndex}:${row.line}`;
+  const duplicates = useMemo(() => {
+    const statuses = new Map<string, DuplicateStatus>();
+    // Overlapping statements repeat lines; only the first copy is imported.
+    const seen = new Set<string>();
+    sources.forEach((source, i) =>
+      source.rows.forEach((row) => {
+        const status =
+          row.external_id && seen.has(row.external_id) ? "imported" : duplicateStatus(row, existing);
+        if (status) statuses.set(rowKey(i, row), status);
+        if (row.external_id) seen.add(row.external_id);
+      })
+    );
+    return statuses;
+  }, [sources, existing]);
+  const isIncluded = (sourceIndex: number, row: ImportRow) => {
+    const status = duplicates.get(rowKey(sourceIndex, row));
+    return !status || (status === "likely" && includedDuplicates.has(rowKey(sourceIndex, row)));
+  };
+  const importCount = sources.reduce(
+    (sum, source, i) => sum + source.rows.filter((row) => isIncluded(i, row)).length,
+    0
+  );
+  const likelyCount = [...duplicates.values()].filter((status) => status === "likely").length;
+  const importedBefore = duplicates.size - likelyCount;
+
+  const handleFiles = async (files: File[]) => {
+    try {
+      const formats = files.map((file) => statementFormat(file.name));
+      if (formats.some((format) => !format)) {
+        throw new Error("Only CSV, OFX, QFX and QIF files can be imported");
+      }
+      if (formats.includes("csv")) {
+        if (files.length > 1) throw new Error("CSV files are imported one at a time");
+        const rows = parseCsv(await files[0].text());
+        if (rows.length === 0) throw new Error("The file is empty");
+        setFileName(files[0].name);
+        setTable(rows);
+        setMapping(guessMapping(rows[0]));
+        setStep("map");
+        return;
+      }
+
+      const loaded = await Promise.all(
+        files.map(async (file, i) => ({
+          name: file.name,
+          format: formats[i] as StatementFile["format"],
+          text: await file.text(),
+        }))
+      );
+      setFileName(loaded.map((file) => file.name).join(", "));
+      setTable([]);
+      setStatements(loaded);
+      const parsed = loaded.map((file) => readStatement(file, false));
+      const rows = parsed.flatMap((source) => source.rows);
+      if (rows.length === 0) throw new Error("No transactions found in the file");
+      setStep(
+        unknownCategoryNames(rows, categories).length > 0 || rows.some((row) => !row.category_name)
+          ? "categories"
+          : "review"
+      );
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Could not read the file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const setColumn = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === "none") delete next[field];
+    else next[field] = parseInt(value);
+    setMapping(next);
+  };
+
+  // Unknown names are created unless the user picks an existing category.
+  const categoryChoice = (name: string) => categoryChoices[name.toLowerCase()] || NEW_CATEGORY;
+
+  const toggleDuplicate = (key: string) => {
+    setIncludedDuplicates((keys) => {
+      const next = new Set(keys);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!wallet || !currentUser) return;
+    setIsImporting(true);
+    setProgress(0);
+
+    try {
+      // Create the new categories first, with the direction most of their rows have.
+      const created = new Map<string, Category>();
+      for (const name of unknownNames) {
+        if (categoryChoice(name) !== NEW_CATEGORY) continue;
+        const rows = allRows.filter((r) => r.category_name.toLowerCase() === name.toLowerCase());
+        const outgoing = rows.filter((r) => r.amount < 0).length;
+        const category = await createCategoryMutation.mutateAsync({
+          name,
+          icon: "📊",
+          parent_id: null,
+          is_global: false,
+          kind: outgoing * 2 >= rows.length ? "expense" : "income",
+        });
+        if (category) created.set(name.toLowerCase(), category);
+      }
+
+      const byId = (id: string): Pick<Category, "category_id" | "kind"> =>
+        categories.find((c) => c.category_id === parseInt(id)) ?? { category_id: parseInt(id) };
+      const categoryFor = (row: ImportRow) => {
+        const name = row.category_name.trim();
+        if (!name) return byId(fallbackCategoryId);
+        return (
+          findCategoryByName(categories, name) ??
+          created.get(name.toLowerCase()) ??
+          byId(categoryChoice(name))
+        );
+      };
+
+      const outcomes: ImportResult[] = [];
+      let done = 0;
+      for (const [i, source] of sources.entries()) {
+        const rows = source.rows.filter((row) => isIncluded(i, row));
+        const outcome = await importMutation.mutateAsync({
+          rows,
+          toParams: (row) => rowParams(row, wallet, categoryFor(row), currentUser.user_id),
+          onProgress: (count) => setProgress(done + count),
+        });
+        done += rows.length;
+        outcomes.push({
+          name: source.name,
+          imported: outcome.imported,
+          skipped: source.rows.length - rows.length,
+          failed: outcome.failed + source.errors.length,
+          errors: [...source.errors, ...outcome.errors],
+        });
+      }
+      setResults(outcomes);
+      setStep("done");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Import failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const mappingComplete = IMPORT_FIELDS.every(
+    ({ field, required }) => !required || mapping[field] !== undefined
+  );
+  // Statements have fixed fields, so only CSV files go through column mapping.
+  const stepBeforeCategories: Step = table.length > 0 ? "map" : "upload";
+  const categoriesComplete = !needsFallback || !!fallbackCategoryId;
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && !isImporting && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{STEP_TITLES[step]}</DialogTitle>
+          {fileName && step !== "upload" && <DialogDescription>{fileName}</DialogDescription>}
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 -mx-1 px-1">
+          {step === "upload" && (
+            <>
+              <div className="space-y-2">
+                <Label>Import into</Label>
+                <Select value={wallet?.toString() || ""} onValueChange={setWalletId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select wallet" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {editableWallets.map((w) => (
+                      <SelectItem key={w.wallet_id} value={w.wallet_id.toString()}>
+                        {w.icon} {w.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <label
+                className={cn(
+                  "flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed rounded-xl text-center transition-colors",
+                  wallet ? "cursor-pointer hover:bg-muted/50" : "opacity-50 pointer-events-none"
+                )}
+              >
+                <Upload className="h-8 w-8 text-muted-foreground" />
+                <span className="font-medium">Choose files</span>
+                <span className="text-xs text-muted-foreground">
+                  A CSV spreadsheet, or one or more OFX, QFX or QIF bank statements
+                </span>
+                <input
+                  type="file"
+                  accept=".csv,.txt,.ofx,.qfx,.qif"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    const files = Array.from(e.target.files || []);
+                    if (files.length > 0) handleFiles(files);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </>
+          )}
+
+          {step === "map" && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Date format</Label>
+                  <Select
+                    value={options.dateFormat}
+                    onValueChange={(value) => setOptions({ ...options, dateFormat: value as DateFormat })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DATE_FORMATS.map((f) => (
+                        <SelectItem key={f} value={f}>
+                          {f}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Decimal separator</Label>
+                  <Select
+                    value={options.decimal}
+                    onValueChange={(value) =>
+                      setOptions({ ...options, decimal: value as DecimalSeparator })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DECIMAL_SEPARATORS.map(({ decimal, label }) => (
+                        <SelectItem key={decimal} value={decimal}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="import-header">First row is a header</Label>
+                <Switch
+                  id="import-header"
+                  checked={options.hasHeader}
+                  onCheckedChange={(hasHeader) => setOptions({ ...options, hasHeader })}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="space-y-2">
+                    <Label>
+                      {label}
+                      {!required && <span className="text-muted-foreground"> (Optional)</span>}
+                    </Label>
+                    <Select
+                      value={mapping[field]?.toString() ?? "none"}
+                      onValueChange={(value) => setColumn(field, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Not in file</SelectItem>
+                        {Array.from({ length: columnCount }, (_, i) => (
+                          <SelectItem key={i} value={i.toString()}>
+                            {columnLabel(i)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="rounded-xl border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {Array.from({ length: columnCount }, (_, i) => (
+                        <TableHead key={i} className="whitespace-nowrap">
+                          {columnLabel(i)}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {table.slice(options.hasHeader ? 1 : 0, PREVIEW_ROWS + 1).map((values, r) => (
+                      <TableRow key={r}>
+                        {Array.from({ length: columnCount }, (_, i) => (
+                          <TableCell key={i} className="whitespace-nowrap">
+                            {values[i]}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {mappingComplete && (
+                <p className="text-sm text-muted-foreground">
+                  {allRows.length} row{allRows.length !== 1 ? "s" : ""} readable
+                  {unreadable > 0 && (
+                    <span className="text-destructive">, {unreadable} unreadable</span>
+                  )}
+                </p>
+              )}
+            </>
+          )}
+
+          {step === "categories" && (
+            <>
+              {unknownNames.length > 0 && (
+                <div className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    These categories don't exist in the wallet yet. Create them or use an existing
+                    one instead.
+                  </p>
+                  {unknownNames.map((name) => (
+                    <div key={name} className="flex items-center gap-3">
+                      <span className="flex-1 truncate font-medium">{name}</span>
+                      <Select
+                        value={categoryChoice(name)}
+                        onValueChange={(value) =>
+                          setCategoryChoices({ ...categoryChoices, [name.toLowerCase()]: value })
+                        }
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NEW_CATEGORY}>Create "{name}"</SelectItem>
+                          {categories.map((c) => (
+                            <SelectItem key={c.category_id} value={c.category_id.toString()}>
+                              {c.icon} {c.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {needsFallback && (
+                <div className="space-y-2">
+                  <Label>Category for rows without one</Label>
+                  <Select value={fallbackCategoryId} onValueChange={setFallbackCategoryId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((c) => (
+                        <SelectItem key={c.category_id} value={c.category_id.toString()}>
+                          {c.icon} {c.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </>
+          )}
+
+          {step === "review" &&
+            (isLoadingExisting ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <>
+                {hasQif && (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="qif-day-first">QIF dates are day first (18/10/2026)</Label>
+                      <Switch id="qif-day-first" checked={qifDayFirst} onCheckedChange={setQifDayFirst} />
+                    </div>
+                    <div className="flex items-center justify-between gap-3">
+                      <Label>QIF decimal separator</Label>
+                      <Select
+                        value={qifDecimal}
+                        onValueChange={(value) => setQifDecimal(value as DecimalSeparator)}
+                      >
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DECIMAL_SEPARATORS.map(({ decimal, label }) => (
+                            <SelectItem key={decimal} value={decimal}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                )}
+
+                {importedBefore > 0 && (
+                  <Alert>
+                    <CheckCircle2 className="h-4 w-4" />
+                    <AlertDescription>
+                      {importedBefore} statement line{importedBefore !== 1 ? "s were" : " was"} imported
+                      into this wallet before or repeated in the files and will be skipped.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {likelyCount > 0 && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      {likelyCount} row{likelyCount !== 1 ? "s look" : " looks"} like{" "}
+                      {likelyCount !== 1 ? "transactions" : "a transaction"} already in the
+                      wallet and will be skipped. Tick them to import anyway.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {unreadable > 0 && (
+                  <p className="text-sm text-destructive">
+                    {unreadable} unreadable row{unreadable !== 1 ? "s" : ""} will be reported as failed
+                  </p>
+                )}
+
+                <div className="rounded-xl border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-8" />
+                        <TableHead>Date</TableHead>
+                        <TableHead>Note</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sources.flatMap((source, i) =>
+                        source.rows.map((row) => {
+                          const key = rowKey(i, row);
+                          const status = duplicates.get(key);
+                          return (
+                            <TableRow key={key} className={cn(status && "bg-muted/50")}>
+                              <TableCell>
+                                {status === "likely" && (
+                                  <Checkbox
+                                    checked={includedDuplicates.has(key)}
+                                    onCheckedChange={() => toggleDuplicate(key)}
+                                    aria-label={`Import line ${row.line} of ${source.name} anyway`}
+                                  />
+                                )}
+                                {status === "imported" && (
+                                  <CheckCircle2
+                                    className="h-4 w-4 text-muted-foreground"
+                                    aria-label="Imported before"
+                                  />
+                                )}
+                              </TableCell>
+                              <TableCell className="whitespace-nowrap">
+                                {format(row.time, "MMM d, yyyy")}
+                              </TableCell>
+                              <TableCell className="max-w-[12rem] truncate">
+                                {row.note || row.person_name}
+                              </TableCell>
+                              <TableCell className="whitespace-nowrap">
+                                {row.category_name || "—"}
+                              </TableCell>
+                              <TableCell
+                                className={cn(
+                                  "text-right tabular-nums whitespace-nowrap",
+                                  row.amount < 0 ? "text-expense" : "text-income"
+                                )}
+                              >
+                                {row.amount < 0 ? "-" : "+"}
+                                {formatMoney(Math.abs(row.amount), currency)}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {isImporting && (
+                  <div className="space-y-1">
+                    <Progress value={(progress / Math.max(1, importCount)) * 100} />
+                    <p className="text-xs text-muted-foreground text-center">
+                      {progress} of {importCount}
+                    </p>
+                  </div>
+                )}
+              </>
+            ))}
+
+          {step === "done" && (
+            <div className="space-y-4">
+              {results.map((result) => (
+                <div key={result.name} className="p-3 rounded-xl border space-y-1">
+                  <div className="flex items-center gap-2">
+                    <CheckCircle2
+                      className={cn(
+                        "h-4 w-4 shrink-0",
+                        result.failed > 0 ? "text-muted-foreground" : "text-income"
+                      )}
+                    />
+                    <p className="font-medium truncate">{result.name}</p>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {result.imported} imported · {result.skipped} skipped · {result.failed} failed
+                  </p>
+                  {result.errors.map((error, i) => (
+                    <p key={i} className="text-xs text-destructive">
+                      Line {error.line}: {error.message}
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")}>
+                Back
+              </Button>
+              <Button
+                onClick={() =>
+                  setStep(unknownNames.length > 0 || needsFallback ? "categories" : "review")
+                } disabled={!mappingComplete || allRows.length === 0}>
+                Next
+              </Button>
+            </>
+          )}
+          {step === "categories" && (
+            <>
+              <Button variant="outline" onClick={() => setStep(stepBeforeCategories)}>
+                Back
+              </Button>
+              <Button onClick={() => setStep("review")} disabled={!categoriesComplete}>
+                Next
+              </Button>
+            </>
+          )}
+          {step === "review" && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() =>
+                  setStep(unknownNames.length > 0 || needsFallback ? "categories" : stepBeforeCategories)
+                }
+                disabled={isImporting}
+              >
+                Back
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={isImporting || isLoadingExisting || importCount === 0}
+              >
+                {isImporting ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  `Import ${importCount} transaction${importCount !== 1 ? "s" : ""}`
+                )}
+              </Button>
+            </>
+          )}
+          {step === "done" && <Button onClick={onClose}>Done</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
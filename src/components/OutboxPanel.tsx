@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { OutboxEntry, flushOutbox, retryOutboxEntry, discardOutboxEntry } from "@/lib/outbox";
+import { useOutbox } from "@/hooks/useOutbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { CloudOff, RefreshCw, Loader2, RotateCcw, X } from "lucide-react";
+
+const ACTION_LABELS: Record<OutboxEntry["action"], string> = {
+  create: "Add",
+  update: "Edit",
+  delete: "Delete",
+};
+
+export default function OutboxPanel() {
+  const { entries, pendingCount, failedCount } = useOutbox();
+  const { toast } = useToast();
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const runSync = async (sync: () => Promise<number>) => {
+    setIsSyncing(true);
+    try {
+      const synced = await sync();
+      if (synced > 0) {
+        toast({ title: `Synced ${synced} change${synced !== 1 ? "s" : ""}` });
+      } else if (!navigator.onLine) {
+        toast({ title: "Still offline", description: "Changes will sync when you reconnect." });
+      }
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <CloudOff className="h-4 w-4 text-primary" />
+          Offline Changes
+        </CardTitle>
+        <CardDescription>
+          {entries.length === 0
+            ? "All changes are synced"
+            : `${pendingCount} waiting to sync${failedCount ? `, ${failedCount} failed` : ""}`}
+        </CardDescription>
+      </CardHeader>
+      {entries.length > 0 && (
+        <CardContent className="space-y-2">
+          {entries
+            .filter((entry) => entry.status === "failed")
+            .map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-center gap-3 p-3 rounded-xl border border-destructive/50"
+              >
+                <span className="text-xl">{entry.preview.category?.icon || "💰"}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {ACTION_LABELS[entry.action]} · {entry.preview.category?.name || "Transaction"} ·{" "}
+                    {Math.abs(entry.preview.amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                  </p>
+                  <p className="text-xs text-destructive truncate">{entry.error}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Queued {format(new Date(entry.queuedAt), "MMM d, h:mm a")}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Retry"
+                  disabled={isSyncing}
+                  onClick={() => runSync(() => retryOutboxEntry(entry))}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Discard"
+                  disabled={isSyncing}
+                  onClick={() => discardOutboxEntry(entry)}
+                >
+                  <X className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+
+          {pendingCount > 0 && (
+            <Button
+              variant="outline"
+              className="w-full"
+              disabled={isSyncing}
+              onClick={() => runSync(flushOutbox)}
+            >
+              {isSyncing ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  Sync Now
+                </>
+              )}
+            </Button>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,350 @@
+import { useState, useMemo } from "react";
+import { Person } from "@/lib/api";
+import { matchesPerson } from "@/lib/persons";
+import {
+  usePersons,
+  useCreatePerson,
+  useUpdatePerson,
+  useDeletePerson,
+  useMergePersons,
+} from "@/hooks/queries";
+import PersonHistoryDialog from "./PersonHistoryDialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Pencil, Trash2, Loader2, Users, Search, Merge, History } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export default function PeopleManager() {
+  const { toast } = useToast();
+  const { data: persons = [], isLoading } = usePersons();
+  const createPersonMutation = useCreatePerson();
+  const updatePersonMutation = useUpdatePerson();
+  const deletePersonMutation = useDeletePerson();
+  const mergePersonsMutation = useMergePersons();
+  const [search, setSearch] = useState("");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPerson, setEditingPerson] = useState<Person | null>(null);
+  const [deleteId, setDeleteId] = useState<number | null>(null);
+  const [historyPerson, setHistoryPerson] = useState<Person | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const [keepId, setKeepId] = useState<string>("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState({ person_name: "", alias: "" });
+
+  const filtered = useMemo(
+    () =>
+      persons
+        .filter((p) => matchesPerson(p, search))
+        .sort((a, b) => a.person_name.localeCompare(b.person_name)),
+    [persons, search]
+  );
+  const selectedPersons = persons.filter((p) => selectedIds.includes(p.person_id));
+
+  const toggleSelected = (personId: number) => {
+    setSelectedIds((ids) =>
+      ids.includes(personId) ? ids.filter((id) => id !== personId) : [...ids, personId]
+    );
+  };
+
+  const openNewPerson = () => {
+    setEditingPerson(null);
+    setFormData({ person_name: search.trim(), alias: "" });
+    setIsDialogOpen(true);
+  };
+
+  const openEditPerson = (person: Person) => {
+    setEditingPerson(person);
+    setFormData({ person_name: person.person_name, alias: person.alias || "" });
+    setIsDialogOpen(true);
+  };
+
+  const openMerge = () => {
+    setKeepId(selectedIds[0]?.toString() || "");
+    setIsMergeOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      if (editingPerson) {
+        await updatePersonMutation.mutateAsync({
+          personId: editingPerson.person_id,
+          params: formData,
+        });
+        toast({ title: "Person updated" });
+      } else {
+        await createPersonMutation.mutateAsync(formData);
+        toast({ title: "Person added" });
+      }
+      setIsDialogOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    const keep = parseInt(keepId);
+    if (!keep) return;
+    setIsSubmitting(true);
+
+    try {
+      const moved = await mergePersonsMutation.mutateAsync({
+        keepId: keep,
+        duplicateIds: selectedIds.filter((id) => id !== keep),
+      });
+      toast({
+        title: "People merged",
+        description: `${moved} transaction${moved !== 1 ? "s" : ""} moved`,
+      });
+      setSelectedIds([]);
+      setIsMergeOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to merge",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    setIsSubmitting(true);
+
+    try {
+      await deletePersonMutation.mutateAsync(deleteId);
+      toast({ title: "Person deleted" });
+      setSelectedIds((ids) => ids.filter((id) => id !== deleteId));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to delete",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+      setDeleteId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">People</h2>
+        <div className="flex gap-2">
+          {selectedIds.length > 1 && (
+            <Button size="sm" variant="outline" onClick={openMerge}>
+              <Merge className="h-4 w-4 mr-1" />
+              Merge {selectedIds.length}
+            </Button>
+          )}
+          <Button size="sm" onClick={openNewPerson}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Person
+          </Button>
+        </div>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search people"
+          className="pl-9"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <Users className="h-12 w-12 text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">
+            {persons.length === 0 ? "No people yet" : "Nobody matches your search"}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2 pb-24">
+          {filtered.map((person) => (
+            <div
+              key={person.person_id}
+              className={cn(
+                "flex items-center gap-3 p-3 bg-card rounded-xl shadow-card group",
+                selectedIds.includes(person.person_id) && "ring-2 ring-primary"
+              )}
+            >
+              <Checkbox
+                checked={selectedIds.includes(person.person_id)}
+                onCheckedChange={() => toggleSelected(person.person_id)}
+                aria-label={`Select ${person.person_name}`}
+              />
+              <button
+                className="flex-1 min-w-0 text-left"
+                onClick={() => setHistoryPerson(person)}
+              >
+                <p className="font-medium truncate">{person.person_name}</p>
+                {person.alias && (
+                  <p className="text-xs text-muted-foreground truncate">{person.alias}</p>
+                )}
+              </button>
+              <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setHistoryPerson(person)}
+                  title="Transaction history"
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => openEditPerson(person)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setDeleteId(person.person_id)}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Person Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPerson ? "Edit Person" : "New Person"}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                value={formData.person_name}
+                onChange={(e) => setFormData({ ...formData, person_name: e.target.value })}
+                placeholder="e.g., Grocery Store"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Alias</Label>
+              <Input
+                value={formData.alias}
+                onChange={(e) => setFormData({ ...formData, alias: e.target.value })}
+                placeholder="Another name to find them by"
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : editingPerson ? (
+                  "Save Changes"
+                ) : (
+                  "Add Person"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Merge Dialog */}
+      <Dialog open={isMergeOpen} onOpenChange={setIsMergeOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge People</DialogTitle>
+            <DialogDescription>
+              Choose the person to keep. Transactions of the others move to them, and the others
+              are deleted.
+            </DialogDescription>
+          </DialogHeader>
+
+          <RadioGroup value={keepId} onValueChange={setKeepId} className="space-y-2">
+            {selectedPersons.map((person) => (
+              <div key={person.person_id} className="flex items-center gap-3">
+                <RadioGroupItem
+                  value={person.person_id.toString()}
+                  id={`keep-${person.person_id}`}
+                />
+                <Label htmlFor={`keep-${person.person_id}`} className="font-normal">
+                  {person.person_name}
+                  {person.alias && (
+                    <span className="text-muted-foreground"> · {person.alias}</span>
+                  )}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <DialogFooter>
+            <Button onClick={handleMerge} disabled={isSubmitting || !keepId}>
+              {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Merge"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <PersonHistoryDialog person={historyPerson} onClose={() => setHistoryPerson(null)} />
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Person?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Their transactions are kept but will no longer show a person. This action cannot be
+              undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { PeriodState } from "@/hooks/usePeriod";
+import { PERIOD_TYPES } from "@/lib/period";
+import DateRangePicker from "./DateRangePicker";
+import { ChevronLeft, ChevronRight, Calendar, Filter } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface PeriodSelectorProps {
+  periodState: PeriodState;
+}
+
+export default function PeriodSelector({ periodState }: PeriodSelectorProps) {
+  const { periodType, customDateRange, period, navigate, changePeriodType, changeDateRange } =
+    periodState;
+
+  return (
+    <>
+      {/* Period Type Selector */}
+      <div className="flex items-center gap-2 flex-wrap">
+        {PERIOD_TYPES.map((type) => (
+          <button
+            key={type}
+            onClick={() => changePeriodType(type)}
+            className={cn(
+              "px-3 py-1.5 text-xs font-medium rounded-full transition-all",
+              periodType === type
+                ? "bg-primary text-primary-foreground"
+                : "bg-muted text-muted-foreground hover:bg-muted/80"
+            )}
+          >
+            {type.charAt(0).toUpperCase() + type.slice(1)}
+          </button>
+        ))}
+
+        {/* Date Range Picker */}
+        <DateRangePicker
+          dateRange={customDateRange}
+          onDateRangeChange={changeDateRange}
+          className={cn(
+            "text-xs",
+            periodType === "custom" && "border-primary"
+          )}
+        />
+      </div>
+
+      {/* Period Navigator - only show for non-custom periods */}
+      {periodType !== "custom" && (
+        <div className="flex items-center justify-between">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("prev")}
+            className="h-8 w-8"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+
+          <div className="flex items-center gap-2">
+            <Calendar className="h-4 w-4 text-muted-foreground" />
+            <span className="font-medium text-sm">{period.label}</span>
+          </div>
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("next")}
+            className="h-8 w-8"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {/* Custom date label */}
+      {periodType === "custom" && customDateRange?.from && (
+        <div className="flex items-center justify-center gap-2 text-sm">
+          <Filter className="h-4 w-4 text-primary" />
+          <span className="font-medium">{period.label}</span>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { Person } from "@/lib/api";
+import { findPersonByName, personLabel } from "@/lib/persons";
+import { usePersons } from "@/hooks/queries";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Check, ChevronsUpDown, Plus, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface PersonValue {
+  // Null for a name that is not a saved person yet.
+  person_id: number | null;
+  person_name: string;
+}
+
+interface PersonComboboxProps {
+  value: PersonValue;
+  onChange: (value: PersonValue) => void;
+  placeholder?: string;
+  allowCreate?: boolean;
+}
+
+export default function PersonCombobox({
+  value,
+  onChange,
+  placeholder = "Select person or payee",
+  allowCreate = true,
+}: PersonComboboxProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const { data: persons = [] } = usePersons(open || !!value.person_name);
+
+  const typed = search.trim();
+  const canCreate = allowCreate && typed.length > 0 && !findPersonByName(persons, typed);
+  const selected = value.person_id
+    ? persons.find((p) => p.person_id === value.person_id)
+    : undefined;
+
+  const select = (next: PersonValue) => {
+    onChange(next);
+    setSearch("");
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("w-full justify-between font-normal", !value.person_name && "text-muted-foreground")}
+        >
+          <span className="truncate">
+            {selected ? personLabel(selected) : value.person_name || placeholder}
+          </span>
+          {value.person_name ? (
+            <X
+              className="h-4 w-4 shrink-0 opacity-50 hover:opacity-100"
+              onClick={(e) => {
+                e.stopPropagation();
+                onChange({ person_id: null, person_name: "" });
+              }}
+            />
+          ) : (
+            <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search people..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>No people found</CommandEmpty>
+            <CommandGroup>
+              {persons.map((person: Person) => (
+                <CommandItem
+                  key={person.person_id}
+                  value={`${person.person_name} ${person.alias || ""} ${person.person_id}`}
+                  onSelect={() =>
+                    select({ person_id: person.person_id, person_name: person.person_name })
+                  }
+                >
+                  <Check
+                    className={cn(
+                      "mr-2 h-4 w-4",
+                      value.person_id === person.person_id ? "opacity-100" : "opacity-0"
+                    )}
+                  />
+                  {personLabel(person)}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {canCreate && (
+              <CommandGroup forceMount>
+                <CommandItem
+                  forceMount
+                  value={`create ${typed}`}
+                  onSelect={() => select({ person_id: null, person_name: typed })}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add "{typed}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
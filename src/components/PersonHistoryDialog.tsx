@@ -0,0 +1,95 @@
+import { useMemo } from "react";
+import { format } from "date-fns";
+import { Person } from "@/lib/api";
+import { personLabel } from "@/lib/persons";
+import { summarizeTransactions } from "@/lib/classification";
+import { buildLedger } from "@/lib/debts";
+import { commonCurrency, formatMoney } from "@/lib/currency";
+import { useApp } from "@/hooks/useApp";
+import { useTransactions } from "@/hooks/queries";
+import TransactionItem from "./TransactionItem";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+interface PersonHistoryDialogProps {
+  person: Person | null;
+  onClose: () => void;
+}
+
+// Every transaction involving one person, across all wallets.
+export default function PersonHistoryDialog({ person, onClose }: PersonHistoryDialogProps) {
+  const { wallets } = useApp();
+  const { data: transactions = [], isLoading } = useTransactions(
+    { person_id: person?.person_id },
+    !!person
+  );
+
+  const sorted = useMemo(
+    () =>
+      [...transactions].sort(
+        (a, b) => new Date(b.transaction_time).getTime() - new Date(a.transaction_time).getTime()
+      ),
+    [transactions]
+  );
+  const totals = useMemo(() => summarizeTransactions(transactions), [transactions]);
+  const ledger = useMemo(() => buildLedger(transactions), [transactions]);
+  const currency = commonCurrency(
+    [...new Set(transactions.map((t) => t.wallet_id))].map((id) =>
+      wallets.find((w) => w.wallet_id === id)
+    )
+  );
+
+  return (
+    <Dialog open={!!person} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-md max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{person ? personLabel(person) : ""}</DialogTitle>
+          <DialogDescription>
+            {transactions.length} transaction{transactions.length !== 1 ? "s" : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4 text-sm">
+          <span className="text-income font-medium">+{formatMoney(totals.income, currency)}</span>
+          <span className="text-expense font-medium">-{formatMoney(totals.expense, currency)}</span>
+          {ledger.receivable > 0 && (
+            <span className="text-muted-foreground">
+              Owes you {formatMoney(ledger.receivable, currency)}
+            </span>
+          )}
+          {ledger.payable > 0 && (
+            <span className="text-muted-foreground">
+              You owe {formatMoney(ledger.payable, currency)}
+            </span>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 -mx-1 px-1">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : sorted.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-8">No transactions</p>
+          ) : (
+            sorted.map((transaction) => (
+              <div key={transaction.transaction_id} className="space-y-1">
+                <p className="text-xs text-muted-foreground px-1">
+                  {format(new Date(transaction.transaction_time), "MMM d, yyyy")}
+                  {transaction.wallet && ` · ${transaction.wallet.name}`}
+                </p>
+                <TransactionItem transaction={transaction} />
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
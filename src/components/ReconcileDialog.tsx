@@ -0,0 +1,222 @@
+import { useState, useEffect, useMemo } from "react";
+import { format } from "date-fns";
+import { Wallet } from "@/lib/api";
+import { formatMoney, walletCurrency } from "@/lib/currency";
+import { ADJUSTMENT_NOTE, balanceAt, roundMoney } from "@/lib/reconcile";
+import { useApp } from "@/hooks/useApp";
+import { useTransactions, useReconciliations, useReconcileWallet } from "@/hooks/queries";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const HISTORY_LIMIT = 10;
+const INPUT_TIME_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+interface ReconcileDialogProps {
+  wallet: Wallet | null;
+  onClose: () => void;
+}
+
+export default function ReconcileDialog({ wallet, onClose }: ReconcileDialogProps) {
+  const { currentUser } = useApp();
+  const { toast } = useToast();
+  const reconcileMutation = useReconcileWallet();
+  const [statementBalance, setStatementBalance] = useState("");
+  const [asOf, setAsOf] = useState(() => format(new Date(), INPUT_TIME_FORMAT));
+  const [note, setNote] = useState(ADJUSTMENT_NOTE);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const currency = walletCurrency(wallet);
+
+  const walletId = wallet?.wallet_id;
+  useEffect(() => {
+    if (walletId) {
+      setStatementBalance("");
+      setAsOf(format(new Date(), INPUT_TIME_FORMAT));
+      setNote(ADJUSTMENT_NOTE);
+    }
+  }, [walletId]);
+
+  const asOfDate = useMemo(() => {
+    const date = new Date(asOf);
+    return isNaN(date.getTime()) ? new Date() : date;
+  }, [asOf]);
+
+  // Only what was recorded after the statement date is needed to work back
+  // from today's balance.
+  const { data: later = [], isLoading } = useTransactions(
+    { wallet_id: walletId, start_transaction_time: asOfDate.toISOString() },
+    !!wallet
+  );
+  const { data: history = [], isError: historyUnavailable } = useReconciliations(walletId);
+
+  const computed = wallet ? balanceAt(wallet.balance, later, asOfDate) : 0;
+  const statement = parseFloat(statementBalance);
+  const difference = isNaN(statement) ? null : roundMoney(statement - computed);
+
+  const recent = useMemo(
+    () =>
+      [...history]
+        .sort((a, b) => new Date(b.reconciled_at).getTime() - new Date(a.reconciled_at).getTime())
+        .slice(0, HISTORY_LIMIT),
+    [history]
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!wallet || !currentUser || isNaN(statement)) return;
+    setIsSubmitting(true);
+
+    try {
+      const { difference: recorded } = await reconcileMutation.mutateAsync({
+        walletId: wallet.wallet_id,
+        userId: currentUser.user_id,
+        statementBalance: statement,
+        reconciledAt: asOfDate,
+        note: note.trim() || ADJUSTMENT_NOTE,
+      });
+      toast({
+        title: "Wallet reconciled",
+        description:
+          recorded === 0
+            ? "The balance already matched."
+            : `Recorded an adjustment of ${formatMoney(recorded, currency)}.`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!wallet} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reconcile {wallet?.name}</DialogTitle>
+          <DialogDescription>
+            Enter the balance on your bank statement to check it against your transactions
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Statement Balance</Label>
+              <Input
+                type="number"
+                step="0.01"
+                value={statementBalance}
+                onChange={(e) => setStatementBalance(e.target.value)}
+                placeholder="0.00"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>As Of</Label>
+              <Input
+                type="datetime-local"
+                value={asOf}
+                max={format(new Date(), INPUT_TIME_FORMAT)}
+                onChange={(e) => setAsOf(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="rounded-xl border p-3 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">From transactions</span>
+              <span className="tabular-nums">
+                {isLoading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  formatMoney(computed, currency)
+                )}
+              </span>
+            </div>
+            <div className="flex justify-between font-medium">
+              <span>Difference</span>
+              <span
+                className={cn(
+                  "tabular-nums",
+                  difference && (difference > 0 ? "text-income" : "text-expense")
+                )}
+              >
+                {difference === null ? "—" : formatMoney(difference, currency)}
+              </span>
+            </div>
+          </div>
+
+          {!!difference && (
+            <div className="space-y-2">
+              <Label>Adjustment Label</Label>
+              <Input value={note} onChange={(e) => setNote(e.target.value)} />
+              <p className="text-xs text-muted-foreground">
+                The difference is recorded as an adjustment dated {format(asOfDate, "MMM d, yyyy")}.
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="submit" disabled={isSubmitting || isLoading || difference === null}>
+              {isSubmitting ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : difference ? (
+                "Record Adjustment"
+              ) : (
+                "Mark as Reconciled"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+
+        <div className="space-y-2 pt-2">
+          <Label>History</Label>
+          {historyUnavailable ? (
+            <p className="text-sm text-muted-foreground">
+              This server doesn't keep reconciliation history.
+            </p>
+          ) : recent.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Not reconciled yet</p>
+          ) : (
+            recent.map((entry) => {
+              const adjusted = roundMoney(entry.statement_balance - entry.computed_balance);
+              return (
+                <div
+                  key={entry.reconciliation_id}
+                  className="flex items-center justify-between gap-3 text-sm"
+                >
+                  <span className="text-muted-foreground">
+                    {format(new Date(entry.reconciled_at), "MMM d, yyyy HH:mm")}
+                  </span>
+                  <span className="text-right tabular-nums">
+                    {formatMoney(entry.statement_balance, currency)}
+                    <span className="block text-xs text-muted-foreground">
+                      {adjusted === 0 ? "Matched" : `Adjusted ${formatMoney(adjusted, currency)}`}
+                    </span>
+                  </span>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+import { format } from "date-fns";
+import { RecurrenceFrequency } from "@/lib/api";
+import { FREQUENCIES, WEEKDAYS, RecurrenceRule } from "@/lib/recurring";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+type EndType = "never" | "on" | "after";
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceRule;
+  onChange: (value: RecurrenceRule) => void;
+}
+
+export default function RecurrenceFields({ value, onChange }: RecurrenceFieldsProps) {
+  const unit = FREQUENCIES.find((f) => f.frequency === value.frequency)?.unit || "month";
+  const endType: EndType = value.end_date ? "on" : value.occurrence_limit ? "after" : "never";
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = value.weekdays || [];
+    const next = weekdays.includes(day) ? weekdays.filter((d) => d !== day) : [...weekdays, day];
+    onChange({ ...value, weekdays: next.length ? next : null });
+  };
+
+  const changeEndType = (type: EndType) => {
+    onChange({
+      ...value,
+      end_date: type === "on" ? value.end_date || format(new Date(), "yyyy-MM-dd") : null,
+      occurrence_limit: type === "after" ? value.occurrence_limit || 12 : null,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <Select
+          value={value.frequency}
+          onValueChange={(frequency) =>
+            onChange({
+              ...value,
+              frequency: frequency as RecurrenceFrequency,
+              weekdays: frequency === "weekly" ? value.weekdays : null,
+            })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FREQUENCIES.map(({ frequency, label }) => (
+              <SelectItem key={frequency} value={frequency}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">Every</span>
+          <Input
+            type="number"
+            min="1"
+            value={value.interval}
+            onChange={(e) => onChange({ ...value, interval: Math.max(1, parseInt(e.target.value) || 1) })}
+            className="w-16"
+          />
+          <span className="text-sm text-muted-foreground">
+            {unit}
+            {value.interval > 1 ? "s" : ""}
+          </span>
+        </div>
+      </div>
+
+      {value.frequency === "weekly" && (
+        <div className="flex gap-1">
+          {WEEKDAYS.map(({ day, label }) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={cn(
+                "flex-1 py-1.5 text-xs font-medium rounded-lg transition-all",
+                value.weekdays?.includes(day)
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-muted text-muted-foreground hover:bg-muted/80"
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Ends</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={endType} onValueChange={(type) => changeEndType(type as EndType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never</SelectItem>
+              <SelectItem value="on">On date</SelectItem>
+              <SelectItem value="after">After</SelectItem>
+            </SelectContent>
+          </Select>
+          {endType === "on" && (
+            <Input
+              type="date"
+              value={value.end_date || ""}
+              onChange={(e) => onChange({ ...value, end_date: e.target.value || null })}
+            />
+          )}
+          {endType === "after" && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min="1"
+                value={value.occurrence_limit || 1}
+                onChange={(e) =>
+                  onChange({ ...value, occurrence_limit: Math.max(1, parseInt(e.target.value) || 1) })
+                }
+                className="w-20"
+              />
+              <span className="text-sm text-muted-foreground">times</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
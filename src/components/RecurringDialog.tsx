@@ -0,0 +1,314 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Category, CategoryTreeNode, RecurringTransaction } from "@/lib/api";
+import { RecurrenceRule, findException, updateException } from "@/lib/recurring";
+import { findCategoryNode } from "@/lib/budgets";
+import {
+  useCategoryTree,
+  useUpdateRecurringTransaction,
+  useDeleteRecurringTransaction,
+} from "@/hooks/queries";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import CategoryPicker from "./CategoryPicker";
+import RecurrenceFields from "./RecurrenceFields";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Trash2, Tag, DollarSign, FileText, Repeat } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const NO_CATEGORIES: CategoryTreeNode[] = [];
+
+interface RecurringDialogProps {
+  open: boolean;
+  onClose: () => void;
+  rule: RecurringTransaction | null;
+  // Edit only this occurrence of the rule; otherwise the whole series.
+  occurrence?: Date | null;
+}
+
+export default function RecurringDialog({ open, onClose, rule, occurrence }: RecurringDialogProps) {
+  const { toast } = useToast();
+  const { data: roots = NO_CATEGORIES } = useCategoryTree(rule?.wallet_id);
+  const updateRecurringMutation = useUpdateRecurringTransaction();
+  const deleteRecurringMutation = useDeleteRecurringTransaction();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showCategoryPicker, setShowCategoryPicker] = useState(false);
+  const [formData, setFormData] = useState({
+    amount: "",
+    category: null as Category | null,
+    note: "",
+  });
+  const [ruleData, setRuleData] = useState<RecurrenceRule | null>(null);
+
+  const exception = rule && occurrence ? findException(rule, occurrence) : undefined;
+
+  useEffect(() => {
+    if (!rule) return;
+    // An occurrence starts from its own overrides, if it has any.
+    const categoryId = exception?.category_id ?? rule.category_id;
+    setFormData({
+      amount: (exception?.amount ?? rule.amount).toString(),
+      category:
+        findCategoryNode(roots, categoryId)?.category ??
+        (categoryId === rule.category_id ? rule.category || null : null),
+      note: exception?.note ?? rule.note ?? "",
+    });
+    setRuleData({
+      frequency: rule.frequency,
+      interval: rule.interval,
+      weekdays: rule.weekdays,
+      end_date: rule.end_date,
+      occurrence_limit: rule.occurrence_limit,
+    });
+  }, [rule, exception, roots, open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rule || !ruleData) return;
+
+    setIsSubmitting(true);
+    try {
+      const amount = Math.abs(parseFloat(formData.amount));
+      if (isNaN(amount)) {
+        throw new Error("Invalid amount");
+      }
+      const categoryId = formData.category?.category_id ?? exception?.category_id ?? rule.category_id;
+
+      if (occurrence) {
+        await updateRecurringMutation.mutateAsync({
+          recurringId: rule.recurring_id,
+          params: {
+            exceptions: updateException(rule, occurrence, {
+              skip: false,
+              amount,
+              note: formData.note,
+              category_id: categoryId,
+            }),
+          },
+        });
+        toast({ title: "Occurrence updated" });
+      } else {
+        await updateRecurringMutation.mutateAsync({
+          recurringId: rule.recurring_id,
+          params: {
+            amount,
+            category_id: categoryId,
+            note: formData.note || null,
+            ...ruleData,
+          },
+        });
+        toast({ title: "Series updated" });
+      }
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!rule || !occurrence) return;
+
+    setIsSubmitting(true);
+    try {
+      await updateRecurringMutation.mutateAsync({
+        recurringId: rule.recurring_id,
+        params: { exceptions: updateException(rule, occurrence, null) },
+      });
+      toast({ title: "Occurrence reset" });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!rule) return;
+
+    setIsSubmitting(true);
+    try {
+      await deleteRecurringMutation.mutateAsync(rule.recurring_id);
+      toast({
+        title: "Series deleted",
+        description: "Transactions already added are kept.",
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to delete",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+      setShowDeleteConfirm(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{occurrence ? "Edit Occurrence" : "Edit Series"}</DialogTitle>
+            <DialogDescription>
+              {occurrence
+                ? `Only the entry on ${format(occurrence, "EEEE, MMM d, yyyy")} changes.`
+                : "Changes apply to every occurrence that has not been added yet."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {/* Amount */}
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <DollarSign className="h-4 w-4 text-muted-foreground" />
+                Amount
+              </Label>
+              <Input
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                className="text-2xl font-bold h-14"
+                required
+              />
+            </div>
+
+            {/* Category */}
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Tag className="h-4 w-4 text-muted-foreground" />
+                Category
+              </Label>
+              <button
+                type="button"
+                onClick={() => setShowCategoryPicker(true)}
+                className={cn(
+                  "w-full flex items-center gap-3 p-3 rounded-xl border transition-colors text-left",
+                  formData.category ? "border-primary bg-primary/5" : "border-input hover:bg-muted"
+                )}
+              >
+                {formData.category ? (
+                  <>
+                    <span className="text-2xl">{formData.category.icon}</span>
+                    <span className="font-medium">{formData.category.name}</span>
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">Select category</span>
+                )}
+              </button>
+            </div>
+
+            {/* Note */}
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <FileText className="h-4 w-4 text-muted-foreground" />
+                Note (Optional)
+              </Label>
+              <Textarea
+                placeholder="Add a note..."
+                value={formData.note}
+                onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            {/* Rule */}
+            {!occurrence && ruleData && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <Repeat className="h-4 w-4 text-muted-foreground" />
+                  Repeat
+                </Label>
+                <RecurrenceFields value={ruleData} onChange={setRuleData} />
+              </div>
+            )}
+
+            <DialogFooter className="flex gap-2 pt-4">
+              {!occurrence && (
+                <Button
+                  type="button"
+                  variant="destructive"
+                  onClick={() => setShowDeleteConfirm(true)}
+                  disabled={isSubmitting}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+              {occurrence && exception && (
+                <Button type="button" variant="outline" onClick={handleReset} disabled={isSubmitting}>
+                  Reset
+                </Button>
+              )}
+              <Button type="submit" className="flex-1" disabled={isSubmitting}>
+                {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Changes"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <CategoryPicker
+        open={showCategoryPicker}
+        onClose={() => setShowCategoryPicker(false)}
+        onSelect={(category) => setFormData({ ...formData, category })}
+        selectedCategoryId={formData.category?.category_id}
+        kind={rule?.kind}
+      />
+
+      <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Series?</AlertDialogTitle>
+            <AlertDialogDescription>
+              No further occurrences will be added. Transactions already added are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { DebtEntry, DEBT_LABELS } from "@/lib/debts";
+import { formatMoney, walletCurrency } from "@/lib/currency";
+import { useApp } from "@/hooks/useApp";
+import { useCreateTransaction } from "@/hooks/queries";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Calendar, DollarSign, FileText } from "lucide-react";
+
+interface RepaymentDialogProps {
+  entry: DebtEntry | null;
+  onClose: () => void;
+}
+
+export default function RepaymentDialog({ entry, onClose }: RepaymentDialogProps) {
+  const { wallets, currentUser } = useApp();
+  const { toast } = useToast();
+  const createTransactionMutation = useCreateTransaction();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState({
+    wallet_id: "",
+    amount: "",
+    note: "",
+    transaction_time: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+  });
+
+  useEffect(() => {
+    if (!entry) return;
+    setFormData({
+      wallet_id: entry.transaction.wallet_id.toString(),
+      amount: entry.outstanding.toString(),
+      note: "",
+      transaction_time: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+    });
+  }, [entry]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!entry || !currentUser) return;
+
+    setIsSubmitting(true);
+    try {
+      const amount = Math.abs(parseFloat(formData.amount));
+      if (isNaN(amount) || amount === 0) {
+        throw new Error("Invalid amount");
+      }
+      if (amount > entry.outstanding + 0.005) {
+        throw new Error("The repayment is more than what is outstanding");
+      }
+
+      const original = entry.transaction;
+      const { queued } = await createTransactionMutation.mutateAsync({
+        params: {
+          wallet_id: parseInt(formData.wallet_id),
+          category_id: original.category_id,
+          amount,
+          kind: entry.kind,
+          repayment_of: original.transaction_id,
+          person_id: original.person_id,
+          note: formData.note || undefined,
+          user_id: currentUser.user_id,
+          transaction_time: new Date(formData.transaction_time).toISOString(),
+        },
+        preview: { category: original.category, person: original.person },
+      });
+      toast({
+        title: queued ? "Saved offline" : "Repayment recorded",
+        description: queued ? "It will sync when you're back online." : undefined,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const labels = entry ? DEBT_LABELS[entry.kind] : null;
+
+  return (
+    <Dialog open={!!entry} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record Repayment</DialogTitle>
+          {entry && labels && (
+            <DialogDescription>
+              {labels.action} {labels.preposition}{" "}
+              {entry.transaction.person?.person_name || "someone"} on{" "}
+              {format(new Date(entry.transaction.transaction_time), "MMM d, yyyy")} ·{" "}
+              {formatMoney(
+                entry.outstanding,
+                walletCurrency(wallets.find((w) => w.wallet_id === entry.transaction.wallet_id))
+              )}{" "}
+              outstanding
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <DollarSign className="h-4 w-4 text-muted-foreground" />
+              Amount
+            </Label>
+            <Input
+              type="number"
+              step="0.01"
+              placeholder="0.00"
+              value={formData.amount}
+              onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+              className="text-2xl font-bold h-14"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>{entry?.kind === "loan" ? "Received into" : "Paid from"}</Label>
+            <Select
+              value={formData.wallet_id}
+              onValueChange={(value) => setFormData({ ...formData, wallet_id: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {wallets.map((wallet) => (
+                  <SelectItem key={wallet.wallet_id} value={wallet.wallet_id.toString()}>
+                    {wallet.icon} {wallet.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Calendar className="h-4 w-4 text-muted-foreground" />
+              Date & Time
+            </Label>
+            <Input
+              type="datetime-local"
+              value={formData.transaction_time}
+              onChange={(e) => setFormData({ ...formData, transaction_time: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <FileText className="h-4 w-4 text-muted-foreground" />
+              Note (Optional)
+            </Label>
+            <Textarea
+              placeholder="Add a note..."
+              value={formData.note}
+              onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Record Repayment"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,294 @@
+import { useState, useMemo } from "react";
+import { Pie, PieChart, Cell, Bar, BarChart, Line, LineChart, XAxis, YAxis, CartesianGrid } from "recharts";
+import { useApp } from "@/hooks/useApp";
+import { formatMoney, walletCurrency } from "@/lib/currency";
+import { useTransactions, useCategoryTree } from "@/hooks/queries";
+import { PeriodState } from "@/hooks/usePeriod";
+import {
+  FlowKind,
+  categoryBreakdown,
+  incomeExpenseSeries,
+  runningBalance,
+} from "@/lib/reports";
+import { summarizeTransactions } from "@/lib/classification";
+import PeriodSelector from "./PeriodSelector";
+import BudgetManager from "./BudgetManager";
+import DebtsView from "./DebtsView";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+} from "@/components/ui/chart";
+import { Loader2, PieChart as PieChartIcon, BarChart3, TrendingUp } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const SLICE_COLORS = [1, 2, 3, 4, 5].map((n) => `hsl(var(--chart-${n}))`);
+
+const flowConfig = {
+  income: { label: "Income", color: "hsl(var(--income))" },
+  expense: { label: "Expense", color: "hsl(var(--expense))" },
+} satisfies ChartConfig;
+
+const balanceConfig = {
+  balance: { label: "Balance", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+type ReportsSection = "charts" | "budgets" | "debts";
+
+const SECTIONS: { id: ReportsSection; label: string }[] = [
+  { id: "charts", label: "Charts" },
+  { id: "budgets", label: "Budgets" },
+  { id: "debts", label: "Debts" },
+];
+
+interface ReportsViewProps {
+  periodState: PeriodState;
+}
+
+export default function ReportsView({ periodState }: ReportsViewProps) {
+  const { selectedWallet } = useApp();
+  const currency = walletCurrency(selectedWallet);
+  const [section, setSection] = useState<ReportsSection>("charts");
+  const [breakdownKind, setBreakdownKind] = useState<FlowKind>("expense");
+  const { period } = periodState;
+  const walletId = selectedWallet?.wallet_id;
+
+  // Same filters as TransactionList, so both views share one cached query.
+  const { data: transactions = [], isLoading } = useTransactions(
+    {
+      wallet_id: walletId,
+      start_transaction_time: period.start.toISOString(),
+      end_transaction_time: period.end.toISOString(),
+    },
+    !!walletId
+  );
+  const { data: sinceStart = [] } = useTransactions(
+    { wallet_id: walletId, start_transaction_time: period.start.toISOString() },
+    !!walletId
+  );
+  const { data: roots = [] } = useCategoryTree(walletId);
+
+  const totals = useMemo(() => summarizeTransactions(transactions), [transactions]);
+  const slices = useMemo(
+    () => categoryBreakdown(transactions, roots, breakdownKind),
+    [transactions, roots, breakdownKind]
+  );
+  const flows = useMemo(() => incomeExpenseSeries(transactions, period), [transactions, period]);
+  const balances = useMemo(
+    () => runningBalance(sinceStart, period, selectedWallet?.balance ?? 0),
+    [sinceStart, period, selectedWallet]
+  );
+
+  const sliceConfig = useMemo(
+    () =>
+      Object.fromEntries(
+        slices.map((slice, i) => [
+          String(slice.categoryId),
+          { label: `${slice.icon} ${slice.name}`, color: SLICE_COLORS[i % SLICE_COLORS.length] },
+        ])
+      ) satisfies ChartConfig,
+    [slices]
+  );
+  const breakdownTotal = totals[breakdownKind];
+
+  if (!selectedWallet) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Select a wallet first
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="sticky top-0 bg-background/95 backdrop-blur-sm z-10 pb-3 space-y-3">
+        <div className="flex gap-1 p-1 bg-muted rounded-xl">
+          {SECTIONS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => setSection(id)}
+              className={cn(
+                "flex-1 py-1.5 text-sm font-medium rounded-lg transition-all",
+                section === id
+                  ? "bg-card text-foreground shadow-sm"
+                  : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {section === "charts" && <PeriodSelector periodState={periodState} />}
+      </div>
+
+      <div className="flex-1 overflow-y-auto pb-24 scrollbar-hide space-y-4">
+        {section === "budgets" ? (
+          <BudgetManager />
+        ) : section === "debts" ? (
+          <DebtsView />
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-3 gap-2">
+              <div className="p-3 bg-card rounded-xl shadow-card">
+                <p className="text-xs text-muted-foreground">Income</p>
+                <p className="font-semibold text-income tabular-nums">{formatMoney(totals.income, currency)}</p>
+              </div>
+              <div className="p-3 bg-card rounded-xl shadow-card">
+                <p className="text-xs text-muted-foreground">Expense</p>
+                <p className="font-semibold text-expense tabular-nums">{formatMoney(totals.expense, currency)}</p>
+              </div>
+              <div className="p-3 bg-card rounded-xl shadow-card">
+                <p className="text-xs text-muted-foreground">Net</p>
+                <p
+                  className={cn(
+                    "font-semibold tabular-nums",
+                    totals.income - totals.expense >= 0 ? "text-income" : "text-expense"
+                  )}
+                >
+                  {formatMoney(totals.income - totals.expense, currency)}
+                </p>
+              </div>
+            </div>
+
+            {/* Category Breakdown */}
+            <Card className="shadow-card">
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <PieChartIcon className="h-4 w-4 text-primary" />
+                    By Category
+                  </CardTitle>
+                  <div className="flex gap-1">
+                    {(["expense", "income"] as FlowKind[]).map((kind) => (
+                      <button
+                        key={kind}
+                        onClick={() => setBreakdownKind(kind)}
+                        className={cn(
+                          "px-3 py-1 text-xs font-medium rounded-full transition-all",
+                          breakdownKind === kind
+                            ? "bg-primary text-primary-foreground"
+                            : "bg-muted text-muted-foreground hover:bg-muted/80"
+                        )}
+                      >
+                        {kind === "expense" ? "Expense" : "Income"}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {slices.length === 0 ? (
+                  <p className="text-center text-sm text-muted-foreground py-8">
+                    No {breakdownKind} in this period
+                  </p>
+                ) : (
+                  <>
+                    <ChartContainer config={sliceConfig} className="mx-auto aspect-square max-h-[220px]">
+                      <PieChart>
+                        <ChartTooltip
+                          content={<ChartTooltipContent nameKey="categoryId" hideLabel />}
+                        />
+                        <Pie
+                          data={slices}
+                          dataKey="amount"
+                          nameKey="categoryId"
+                          innerRadius={55}
+                          strokeWidth={2}
+                        >
+                          {slices.map((slice, i) => (
+                            <Cell key={slice.categoryId} fill={SLICE_COLORS[i % SLICE_COLORS.length]} />
+                          ))}
+                        </Pie>
+                      </PieChart>
+                    </ChartContainer>
+                    <div className="space-y-2 mt-2">
+                      {slices.map((slice, i) => (
+                        <div key={slice.categoryId} className="flex items-center gap-2 text-sm">
+                          <span
+                            className="h-2.5 w-2.5 rounded-full shrink-0"
+                            style={{ backgroundColor: SLICE_COLORS[i % SLICE_COLORS.length] }}
+                          />
+                          <span>{slice.icon}</span>
+                          <span className="flex-1 truncate">{slice.name}</span>
+                          <span className="text-muted-foreground text-xs">
+                            {breakdownTotal > 0 ? Math.round((slice.amount / breakdownTotal) * 100) : 0}%
+                          </span>
+                          <span className="font-medium tabular-nums">{formatMoney(slice.amount, currency)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Income vs Expense */}
+            <Card className="shadow-card">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <BarChart3 className="h-4 w-4 text-primary" />
+                  Income vs Expense
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={flowConfig} className="aspect-[4/3] w-full">
+                  <BarChart data={flows}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis tickLine={false} axisLine={false} width={48} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="income" fill="var(--color-income)" radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="expense" fill="var(--color-expense)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            {/* Running Balance */}
+            <Card className="shadow-card">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <TrendingUp className="h-4 w-4 text-primary" />
+                  Balance
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {balances.length === 0 ? (
+                  <p className="text-center text-sm text-muted-foreground py-8">
+                    This period has not started yet
+                  </p>
+                ) : (
+                  <ChartContainer config={balanceConfig} className="aspect-[4/3] w-full">
+                    <LineChart data={balances}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                      <YAxis tickLine={false} axisLine={false} width={48} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line
+                        dataKey="balance"
+                        type="monotone"
+                        stroke="var(--color-balance)"
+                        strokeWidth={2}
+                        dot={false}
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { BACKUP_SECTIONS, BackupArchive, RestoreReport, parseBackup, restoreTotal } from "@/lib/backup";
+import { useApp } from "@/hooks/useApp";
+import { useRestoreBackup } from "@/hooks/queries";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Upload, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type Step = "upload" | "review" | "done";
+
+const STEP_TITLES: Record<Step, string> = {
+  upload: "Restore Backup",
+  review: "Review Backup",
+  done: "Restore Finished",
+};
+
+const MIN_PASSWORD_LENGTH = 8;
+
+interface RestoreWizardProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function RestoreWizard({ open, onClose }: RestoreWizardProps) {
+  const { users, currentUser, activeServer } = useApp();
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [password, setPassword] = useState("");
+  const [progress, setProgress] = useState(0);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const restoreMutation = useRestoreBackup();
+  const isRestoring = restoreMutation.isPending;
+
+  useEffect(() => {
+    if (!open) return;
+    setStep("upload");
+    setFileName("");
+    setArchive(null);
+    setPassword("");
+    setProgress(0);
+    setReport(null);
+  }, [open]);
+
+  // Users already on this server (at least the signed-in admin) are reused.
+  const newUsers = (archive?.users || []).filter(
+    (user) => !users.some((u) => u.username.toLowerCase() === user.username.toLowerCase())
+  );
+  const total = archive ? restoreTotal(archive) : 0;
+  const passwordValid = newUsers.length === 0 || password.length >= MIN_PASSWORD_LENGTH;
+
+  const handleFile = async (file: File) => {
+    try {
+      setArchive(parseBackup(await file.text()));
+      setFileName(file.name);
+      setStep("review");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Could not read the file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive || !currentUser) return;
+    setProgress(0);
+
+    try {
+      const result = await restoreMutation.mutateAsync({
+        archive,
+        options: { currentUser, password },
+        onProgress: setProgress,
+      });
+      setReport(result);
+      setStep("done");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Restore failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && !isRestoring && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{STEP_TITLES[step]}</DialogTitle>
+          {fileName && step !== "upload" && <DialogDescription>{fileName}</DialogDescription>}
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 -mx-1 px-1">
+          {step === "upload" && (
+            <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed rounded-xl text-center cursor-pointer hover:bg-muted/50 transition-colors">
+              <Upload className="h-8 w-8 text-muted-foreground" />
+              <span className="font-medium">Choose a backup file</span>
+              <span className="text-xs text-muted-foreground">
+                A .json file saved with Back Up in Settings
+              </span>
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          )}
+
+          {step === "review" && archive && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Saved from {archive.source.server} by {archive.source.username} on{" "}
+                {format(new Date(archive.created_at), "MMM d, yyyy HH:mm")}
+              </p>
+
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Everything is added to {activeServer.name} next to what is already there. Restore
+                  into a freshly set up server to get an exact copy.
+                </AlertDescription>
+              </Alert>
+
+              <div className="rounded-xl border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Contents</TableHead>
+                      <TableHead className="text-right">Records</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {BACKUP_SECTIONS.map(({ section, label }) => (
+                      <TableRow key={section}>
+                        <TableCell>{label}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {archive.counts[section]}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {newUsers.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="restore-password">Temporary password</Label>
+                  <Input
+                    id="restore-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                    disabled={isRestoring}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Backups don't contain passwords. {newUsers.map((u) => u.username).join(", ")}{" "}
+                    will sign in with this one.
+                  </p>
+                </div>
+              )}
+
+              {isRestoring && (
+                <div className="space-y-1">
+                  <Progress value={(progress / Math.max(1, total)) * 100} />
+                  <p className="text-xs text-muted-foreground text-center">
+                    {progress} of {total}
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+
+          {step === "done" && report && (
+            <div className="space-y-4">
+              <div className="rounded-xl border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Contents</TableHead>
+                      <TableHead className="text-right">Restored</TableHead>
+                      <TableHead className="text-right">Failed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {BACKUP_SECTIONS.map(({ section, label }) => (
+                      <TableRow key={section}>
+                        <TableCell className="flex items-center gap-2">
+                          <CheckCircle2
+                            className={cn(
+                              "h-4 w-4 shrink-0",
+                              report.failed[section] > 0 ? "text-muted-foreground" : "text-income"
+                            )}
+                          />
+                          {label}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {report.restored[section]}
+                        </TableCell>
+                        <TableCell
+                          className={cn(
+                            "text-right tabular-nums",
+                            report.failed[section] > 0 && "text-destructive"
+                          )}
+                        >
+                          {report.failed[section]}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {report.errors.map((error, i) => (
+                <p key={i} className="text-xs text-destructive">
+                  {BACKUP_SECTIONS.find((s) => s.section === error.section)?.label}: {error.message}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {step === "review" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")} disabled={isRestoring}>
+                Back
+              </Button>
+              <Button onClick={handleRestore} disabled={isRestoring || !passwordValid}>
+                {isRestoring ? <Loader2 className="h-4 w-4 animate-spin" /> : "Restore"}
+              </Button>
+            </>
+          )}
+          {step === "done" && <Button onClick={onClose}>Done</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
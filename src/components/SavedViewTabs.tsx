@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { SavedViewDefinition } from "@/lib/api";
+import { ViewEntry, defaultDefinition, sameDefinition } from "@/lib/views";
+import { currentPeriodLabel } from "@/lib/period";
+import { useApp } from "@/hooks/useApp";
+import { useSmartViews } from "@/hooks/useSmartViews";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Plus, ChevronDown, Cloud } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface SavedViewTabsProps {
+  current: SavedViewDefinition;
+  onApply: (definition: SavedViewDefinition) => void;
+}
+
+export default function SavedViewTabs({ current, onApply }: SavedViewTabsProps) {
+  const { preferences } = useApp();
+  const { toast } = useToast();
+  const { views, serverAvailable, create, update, remove } = useSmartViews();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [renaming, setRenaming] = useState<ViewEntry | null>(null);
+  const [name, setName] = useState("");
+  const [onServer, setOnServer] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const defaults = defaultDefinition(current.wallet_id, preferences);
+  const walletViews = views.filter((view) => view.definition.wallet_id === current.wallet_id);
+  const activeView = walletViews.find((view) => sameDefinition(view.definition, current));
+
+  const openSave = () => {
+    setRenaming(null);
+    setName("");
+    setOnServer(false);
+    setIsDialogOpen(true);
+  };
+
+  const openRename = (view: ViewEntry) => {
+    setRenaming(view);
+    setName(view.name);
+    setIsDialogOpen(true);
+  };
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      toast({ title: success });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Something went wrong",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const done = renaming
+      ? await run(() => update(renaming, { name: trimmed }), "View renamed")
+      : await run(() => create(trimmed, current, onServer && serverAvailable), "View saved");
+    if (done) setIsDialogOpen(false);
+  };
+
+  const tabClass = (active: boolean) =>
+    cn(
+      "flex items-center gap-1 shrink-0 px-3 py-1.5 rounded-full text-xs font-medium transition-all",
+      active
+        ? "bg-primary text-primary-foreground"
+        : "bg-muted text-muted-foreground hover:text-foreground"
+    );
+
+  return (
+    <>
+      <div className="flex gap-1.5 overflow-x-auto scrollbar-hide">
+        <button
+          onClick={() => onApply(defaults)}
+          className={tabClass(sameDefinition(defaults, current))}
+        >
+          {currentPeriodLabel(defaults.period.type)}
+        </button>
+        {walletViews.map((view) =>
+          view === activeView ? (
+            <DropdownMenu key={view.id}>
+              <DropdownMenuTrigger asChild>
+                <button className={tabClass(true)}>
+                  {view.viewId && <Cloud className="h-3 w-3" />}
+                  {view.name}
+                  <ChevronDown className="h-3 w-3" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuItem onClick={() => openRename(view)}>Rename</DropdownMenuItem>
+                <DropdownMenuItem
+                  className="text-destructive"
+                  onClick={() => run(() => remove(view), "View deleted")}
+                >
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          ) : (
+            <button key={view.id} onClick={() => onApply(view.definition)} className={tabClass(false)}>
+              {view.viewId && <Cloud className="h-3 w-3" />}
+              {view.name}
+            </button>
+          )
+        )}
+        {!activeView && !sameDefinition(defaults, current) && (
+          <button onClick={openSave} className={cn(tabClass(false), "border border-dashed")}>
+            <Plus className="h-3 w-3" />
+            Save view
+          </button>
+        )}
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{renaming ? "Rename View" : "Save View"}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Food over $50"
+                required
+              />
+            </div>
+
+            {!renaming && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="view-on-server">Save on server</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {serverAvailable
+                      ? "Available on your other devices"
+                      : "This server doesn't store views"}
+                  </p>
+                </div>
+                <Switch
+                  id="view-on-server"
+                  checked={onServer && serverAvailable}
+                  onCheckedChange={setOnServer}
+                  disabled={!serverAvailable}
+                />
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
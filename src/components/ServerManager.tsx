@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { checkInitStatus } from "@/lib/api";
+import {
+  ServerProfile,
+  DEFAULT_SERVER,
+  normalizeBaseUrl,
+  getServers,
+  addServer,
+  updateServer,
+  removeServer,
+} from "@/lib/servers";
+import { useApp } from "@/hooks/useApp";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Server, Plus, Pencil, Trash2, Loader2, Plug, Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export default function ServerManager() {
+  const { activeServer, switchServer } = useApp();
+  const { toast } = useToast();
+  const [servers, setServers] = useState<ServerProfile[]>(getServers);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingServer, setEditingServer] = useState<ServerProfile | null>(null);
+  const [testingUrl, setTestingUrl] = useState<string | null>(null);
+  const [formData, setFormData] = useState({ name: "", baseUrl: "" });
+
+  const openNewServer = () => {
+    setEditingServer(null);
+    setFormData({ name: "", baseUrl: "" });
+    setIsDialogOpen(true);
+  };
+
+  const openEditServer = (server: ServerProfile) => {
+    setEditingServer(server);
+    setFormData({ name: server.name, baseUrl: server.baseUrl });
+    setIsDialogOpen(true);
+  };
+
+  const handleTest = async (baseUrl: string) => {
+    setTestingUrl(baseUrl);
+    try {
+      const status = await checkInitStatus(normalizeBaseUrl(baseUrl));
+      toast({
+        title: "Server reachable",
+        description: status.init_done
+          ? "The backend is initialized and ready."
+          : "The backend is reachable but still needs initial setup.",
+      });
+    } catch (error) {
+      toast({
+        title: "Connection failed",
+        description: (error as Error).message || "Could not reach the server",
+        variant: "destructive",
+      });
+    } finally {
+      setTestingUrl(null);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingServer) {
+      updateServer(editingServer.id, formData);
+      toast({ title: "Server updated" });
+      if (editingServer.id === activeServer.id) {
+        switchServer(editingServer.id);
+      }
+    } else {
+      addServer(formData);
+      toast({ title: "Server added" });
+    }
+    setServers(getServers());
+    setIsDialogOpen(false);
+  };
+
+  const handleDelete = (server: ServerProfile) => {
+    removeServer(server.id);
+    setServers(getServers());
+    if (server.id === activeServer.id) {
+      switchServer(DEFAULT_SERVER.id);
+    }
+    toast({ title: "Server removed" });
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Server className="h-4 w-4 text-primary" />
+              Servers
+            </CardTitle>
+            <CardDescription>Choose which backend this app talks to</CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={openNewServer}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {servers.map((server) => {
+          const isActive = server.id === activeServer.id;
+          return (
+            <div
+              key={server.id}
+              className={cn(
+                "flex items-center gap-3 p-3 rounded-xl border transition-colors",
+                isActive ? "border-primary bg-primary/5" : "border-border"
+              )}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="font-medium flex items-center gap-2">
+                  {server.name}
+                  {isActive && <Check className="h-4 w-4 text-primary" />}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">{server.baseUrl}</p>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleTest(server.baseUrl)}
+                  disabled={testingUrl !== null}
+                  title="Test connection"
+                >
+                  {testingUrl === server.baseUrl ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Plug className="h-4 w-4" />
+                  )}
+                </Button>
+                {server.id !== DEFAULT_SERVER.id && (
+                  <>
+                    <Button variant="ghost" size="icon" onClick={() => openEditServer(server)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(server)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </>
+                )}
+                {!isActive && (
+                  <Button size="sm" variant="outline" onClick={() => switchServer(server.id)}>
+                    Use
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+
+      {/* Server Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingServer ? "Edit Server" : "New Server"}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Home server"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>API Base URL</Label>
+              <Input
+                type="url"
+                value={formData.baseUrl}
+                onChange={(e) => setFormData({ ...formData, baseUrl: e.target.value })}
+                placeholder="http://localhost:8000/api"
+                required
+              />
+            </div>
+
+            <DialogFooter className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleTest(formData.baseUrl)}
+                disabled={!formData.baseUrl || testingUrl !== null}
+              >
+                {testingUrl === formData.baseUrl ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  "Test"
+                )}
+              </Button>
+              <Button type="submit">{editingServer ? "Save Changes" : "Add Server"}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
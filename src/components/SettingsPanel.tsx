@@ -1,50 +1,124 @@
+import { useState } from "react";
 import { useApp } from "@/hooks/useApp";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Label } from "@/components/ui/label";
-import { User, Smartphone, Info } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import ServerManager from "./ServerManager";
+import OutboxPanel from "./OutboxPanel";
+import ImportWizard from "./ImportWizard";
+import BackupPanel from "./BackupPanel";
+import CurrencyPanel from "./CurrencyPanel";
+import { formatMoney, walletCurrency } from "@/lib/currency";
+import { isAdmin } from "@/lib/users";
+import {
+  User,
+  Smartphone,
+  Info,
+  LogOut,
+  Users,
+  ChevronRight,
+  FileUp,
+  ShieldCheck,
+} from "lucide-react";
 
-export default function SettingsPanel() {
-  const { users, selectedUser, setSelectedUser, selectedWallet } = useApp();
+interface SettingsPanelProps {
+  onOpenPeople?: () => void;
+  onOpenUsers?: () => void;
+}
+
+export default function SettingsPanel({ onOpenPeople, onOpenUsers }: SettingsPanelProps) {
+  const { currentUser, logout, selectedWallet, activeServer } = useApp();
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   return (
     <div className="space-y-4">
       <h2 className="text-lg font-semibold">Settings</h2>
 
-      {/* User Selection */}
+      {/* Account */}
       <Card className="shadow-card">
         <CardHeader className="pb-3">
           <CardTitle className="text-base flex items-center gap-2">
             <User className="h-4 w-4 text-primary" />
-            Active User
+            Account
+          </CardTitle>
+          <CardDescription>Transactions are recorded under this user</CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <p className="font-medium truncate">{currentUser?.name}</p>
+            <p className="text-xs text-muted-foreground truncate">{currentUser?.email}</p>
+          </div>
+          <Button variant="outline" size="sm" onClick={logout}>
+            <LogOut className="h-4 w-4 mr-1" />
+            Sign Out
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* People */}
+      <Card className="shadow-card">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Users className="h-4 w-4 text-primary" />
+            People
+          </CardTitle>
+          <CardDescription>Payees and people you trade money with</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" className="w-full justify-between" onClick={onOpenPeople}>
+            Manage People
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Users */}
+      {isAdmin(currentUser) && (
+        <Card className="shadow-card">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4 text-primary" />
+              Users
+            </CardTitle>
+            <CardDescription>Accounts that can sign in to this server</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" className="w-full justify-between" onClick={onOpenUsers}>
+              Manage Users
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Import */}
+      <Card className="shadow-card">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <FileUp className="h-4 w-4 text-primary" />
+            Import
           </CardTitle>
-          <CardDescription>Select which user to use for transactions</CardDescription>
+          <CardDescription>Bring in history from bank exports and spreadsheets</CardDescription>
         </CardHeader>
         <CardContent>
-          <Select
-            value={selectedUser?.user_id?.toString() || ""}
-            onValueChange={(value) => {
-              const user = users.find((u) => u.user_id.toString() === value);
-              if (user) setSelectedUser(user);
-            }}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder="Select user" />
-            </SelectTrigger>
-            <SelectContent>
-              {users.map((user) => (
-                <SelectItem key={user.user_id} value={user.user_id.toString()}>
-                  <div className="flex flex-col">
-                    <span>{user.name}</span>
-                    <span className="text-xs text-muted-foreground">{user.email}</span>
-                  </div>
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <Button variant="outline" className="w-full justify-between" onClick={() => setIsImportOpen(true)}>
+            Import Transactions
+            <ChevronRight className="h-4 w-4" />
+          </Button>
         </CardContent>
       </Card>
 
+      {/* Currencies */}
+      <CurrencyPanel />
+
+      {/* Backup */}
+      <BackupPanel />
+
+      {/* Offline Queue */}
+      <OutboxPanel />
+
+      {/* Backend Servers */}
+      <ServerManager />
+
       {/* App Info */}
       <Card className="shadow-card">
         <CardHeader className="pb-3">
@@ -69,9 +143,13 @@ export default function SettingsPanel() {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Server:</span>
+            <span className="font-medium">{activeServer.name}</span>
+          </div>
           <div className="flex justify-between">
             <span className="text-muted-foreground">User:</span>
-            <span className="font-medium">{selectedUser?.name || "None"}</span>
+            <span className="font-medium">{currentUser?.name || "None"}</span>
           </div>
           <div className="flex justify-between">
             <span className="text-muted-foreground">Wallet:</span>
@@ -80,11 +158,13 @@ export default function SettingsPanel() {
           <div className="flex justify-between">
             <span className="text-muted-foreground">Balance:</span>
             <span className="font-medium text-primary">
-              ${selectedWallet?.balance?.toLocaleString(undefined, { minimumFractionDigits: 2 }) || "0.00"}
+              {formatMoney(selectedWallet?.balance ?? 0, walletCurrency(selectedWallet))}
             </span>
           </div>
         </CardContent>
       </Card>
+
+      <ImportWizard open={isImportOpen} onClose={() => setIsImportOpen(false)} />
     </div>
   );
 }
@@ -1,10 +1,33 @@
-import { useState, useEffect } from "react";
-import { Transaction, Category, createTransaction, updateTransaction, deleteTransaction } from "@/lib/api";
+import { useState, useEffect, useMemo } from "react";
+import { Transaction, Category, TransactionKind } from "@/lib/api";
+import { TRANSACTION_KINDS, getCategoryKind, getTransactionKind } from "@/lib/classification";
+import { DEBT_LABELS, isDebtKind } from "@/lib/debts";
+import { budgetsExceededBy, findCategoryNode } from "@/lib/budgets";
+import { DEFAULT_RULE, RecurrenceRule } from "@/lib/recurring";
+import { previewTransaction } from "@/lib/outbox";
+import { COMMON_CURRENCIES, formatMoney, walletCurrency } from "@/lib/currency";
+import { canEdit } from "@/lib/members";
+import {
+  useCreateTransaction,
+  useUpdateTransaction,
+  useDeleteTransaction,
+  useCreateRecurringTransaction,
+} from "@/hooks/queries";
 import { useApp } from "@/hooks/useApp";
+import { useBudgetProgress } from "@/hooks/useBudgetProgress";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -22,17 +45,32 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import CategoryPicker from "./CategoryPicker";
+import RecurrenceFields from "./RecurrenceFields";
+import PersonCombobox from "./PersonCombobox";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Trash2, Tag, Calendar, DollarSign, FileText, User } from "lucide-react";
+import {
+  Loader2,
+  Trash2,
+  Tag,
+  Calendar,
+  DollarSign,
+  FileText,
+  User,
+  AlertTriangle,
+  Repeat,
+} from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 
+const WALLET_CURRENCY = "wallet";
+
 interface TransactionDialogProps {
   open: boolean;
   onClose: () => void;
   transaction?: Transaction | null;
-  onSuccess: () => void;
+  onSuccess?: () => void;
 }
 
 export default function TransactionDialog({
@@ -41,46 +79,116 @@ export default function TransactionDialog({
   transaction,
   onSuccess,
 }: TransactionDialogProps) {
-  const { selectedWallet, selectedUser } = useApp();
+  const { wallets, selectedWallet, currentUser } = useApp();
   const { toast } = useToast();
+  const { convert } = useExchangeRates();
+  const createTransactionMutation = useCreateTransaction();
+  const updateTransactionMutation = useUpdateTransaction();
+  const deleteTransactionMutation = useDeleteTransaction();
+  const createRecurringMutation = useCreateRecurringTransaction();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showCategoryPicker, setShowCategoryPicker] = useState(false);
+  // Only offered when adding: a repeating entry becomes a recurring rule.
+  const [repeatRule, setRepeatRule] = useState<RecurrenceRule | null>(null);
   
   const [formData, setFormData] = useState({
+    kind: "expense" as TransactionKind,
     amount: "",
     category: null as Category | null,
     note: "",
+    person_id: null as number | null,
     person_name: "",
     transaction_time: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+    // Empty when it was paid in the wallet's own currency.
+    original_currency: "",
+    original_amount: "",
   });
 
   const isEditing = !!transaction;
+  const walletId = transaction?.wallet_id ?? selectedWallet?.wallet_id;
+  const wallet = wallets.find((w) => w.wallet_id === walletId);
+  const currency = walletCurrency(wallet);
+  // Viewers of a shared wallet can open a transaction but not change it.
+  const readOnly = !canEdit(wallet);
+  // Adjustments are signed and written by reconciling, so they can only be deleted.
+  const isAdjustment = !!transaction && getTransactionKind(transaction) === "adjustment";
+
+  const transactionDate = useMemo(() => {
+    const date = new Date(formData.transaction_time);
+    return isNaN(date.getTime()) ? new Date() : date;
+  }, [formData.transaction_time]);
+  const { budgets, roots, transactions: budgetTransactions } = useBudgetProgress(
+    open ? walletId : undefined,
+    transactionDate
+  );
+
+  // Budgets this expense would push over their limit.
+  const exceededBudgets = useMemo(() => {
+    const amount = Math.abs(parseFloat(formData.amount));
+    if (!walletId || !formData.category || isNaN(amount)) return [];
+    const draft = previewTransaction(
+      {
+        wallet_id: walletId,
+        category_id: formData.category.category_id,
+        amount,
+        user_id: currentUser?.user_id ?? 0,
+        transaction_time: transactionDate.toISOString(),
+        kind: formData.kind,
+      },
+      transaction?.transaction_id ?? 0
+    );
+    return budgetsExceededBy(draft, budgets, budgetTransactions, roots);
+  }, [formData, walletId, currentUser, transactionDate, transaction, budgets, budgetTransactions, roots]);
 
   useEffect(() => {
     if (transaction) {
       setFormData({
+        kind: getTransactionKind(transaction),
         amount: Math.abs(transaction.amount).toString(),
         category: transaction.category || null,
         note: transaction.note || "",
+        person_id: transaction.person_id,
         person_name: transaction.person?.person_name || "",
         transaction_time: format(new Date(transaction.transaction_time), "yyyy-MM-dd'T'HH:mm"),
+        original_currency: transaction.original_currency || "",
+        original_amount:
+          transaction.original_amount != null ? Math.abs(transaction.original_amount).toString() : "",
       });
     } else {
       setFormData({
+        kind: "expense",
         amount: "",
         category: null,
         note: "",
+        person_id: null,
         person_name: "",
         transaction_time: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+        original_currency: "",
+        original_amount: "",
       });
     }
+    setRepeatRule(null);
   }, [transaction, open]);
 
+  // What was paid in another currency fills in the amount from the rate table.
+  const setOriginal = (changes: Partial<{ original_currency: string; original_amount: string }>) => {
+    const next = { ...formData, ...changes };
+    const paid = Math.abs(parseFloat(next.original_amount));
+    const converted =
+      next.original_currency && !isNaN(paid) ? convert(paid, next.original_currency, currency) : null;
+    setFormData(converted === null ? next : { ...next, amount: converted.toFixed(2) });
+  };
+  const unitRate = formData.original_currency ? convert(1, formData.original_currency, currency) : null;
+  const originalCurrencies = COMMON_CURRENCIES.filter((code) => code !== currency);
+  if (formData.original_currency && !originalCurrencies.includes(formData.original_currency)) {
+    originalCurrencies.push(formData.original_currency);
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.category || !selectedWallet || !selectedUser) {
+    if (!formData.category || !selectedWallet || !currentUser) {
       toast({
         title: "Missing information",
         description: "Please select a category",
@@ -91,34 +199,87 @@ export default function TransactionDialog({
 
     setIsSubmitting(true);
     try {
-      const amount = parseFloat(formData.amount);
+      // The kind carries the direction, so amounts are always stored positive.
+      const amount = Math.abs(parseFloat(formData.amount));
       if (isNaN(amount)) {
         throw new Error("Invalid amount");
       }
 
+      const originalAmount = Math.abs(parseFloat(formData.original_amount));
+      const original =
+        formData.original_currency && !isNaN(originalAmount)
+          ? { original_currency: formData.original_currency, original_amount: originalAmount }
+          : { original_currency: null, original_amount: null };
+
+      const preview = {
+        category: formData.category,
+        person: formData.person_name
+          ? { person_id: formData.person_id ?? 0, person_name: formData.person_name, alias: "" }
+          : undefined,
+      };
+      // A saved person is referenced by id; a new name lets the server create one.
+      const person = formData.person_id
+        ? { person_id: formData.person_id }
+        : { person_name: formData.person_name || undefined };
+
       if (isEditing && transaction) {
-        await updateTransaction(transaction.transaction_id, {
-          category_id: formData.category.category_id,
-          amount,
-          note: formData.note || undefined,
-          person_name: formData.person_name || undefined,
-          transaction_time: new Date(formData.transaction_time).toISOString(),
+        const { queued } = await updateTransactionMutation.mutateAsync({
+          transaction,
+          params: {
+            category_id: formData.category.category_id,
+            amount,
+            kind: formData.kind,
+            note: formData.note || undefined,
+            ...(formData.person_name ? person : { person_id: null }),
+            transaction_time: new Date(formData.transaction_time).toISOString(),
+            ...original,
+          },
+          preview,
         });
-        toast({ title: "Transaction updated" });
-      } else {
-        await createTransaction({
+        toast({
+          title: queued ? "Saved offline" : "Transaction updated",
+          description: queued ? "The change will sync when you're back online." : undefined,
+        });
+      } else if (repeatRule) {
+        await createRecurringMutation.mutateAsync({
           wallet_id: selectedWallet.wallet_id,
           category_id: formData.category.category_id,
           amount,
-          note: formData.note || undefined,
-          person_name: formData.person_name || undefined,
-          user_id: selectedUser.user_id,
-          transaction_time: new Date(formData.transaction_time).toISOString(),
+          kind: formData.kind,
+          note: formData.note || null,
+          person_name: formData.person_name || null,
+          user_id: currentUser.user_id,
+          ...repeatRule,
+          start_time: new Date(formData.transaction_time).toISOString(),
+          last_materialized: null,
+          exceptions: [],
+        });
+        toast({
+          title: "Recurring transaction scheduled",
+          description: "Occurrences are added to the wallet as they fall due.",
+        });
+      } else {
+        const { queued } = await createTransactionMutation.mutateAsync({
+          params: {
+            wallet_id: selectedWallet.wallet_id,
+            category_id: formData.category.category_id,
+            amount,
+            note: formData.note || undefined,
+            ...person,
+            user_id: currentUser.user_id,
+            transaction_time: new Date(formData.transaction_time).toISOString(),
+            kind: formData.kind,
+            ...original,
+          },
+          preview,
+        });
+        toast({
+          title: queued ? "Saved offline" : "Transaction added",
+          description: queued ? "It will sync when you're back online." : undefined,
         });
-        toast({ title: "Transaction added" });
       }
 
-      onSuccess();
+      onSuccess?.();
       onClose();
     } catch (error: any) {
       toast({
@@ -136,9 +297,12 @@ export default function TransactionDialog({
 
     setIsSubmitting(true);
     try {
-      await deleteTransaction(transaction.transaction_id);
-      toast({ title: "Transaction deleted" });
-      onSuccess();
+      const { queued } = await deleteTransactionMutation.mutateAsync(transaction);
+      toast({
+        title: queued ? "Deleted offline" : "Transaction deleted",
+        description: queued ? "The deletion will sync when you're back online." : undefined,
+      });
+      onSuccess?.();
       onClose();
     } catch (error: any) {
       toast({
@@ -158,124 +322,246 @@ export default function TransactionDialog({
         <DialogContent className="max-w-md">
           <DialogHeader>
             <DialogTitle>
-              {isEditing ? "Edit Transaction" : "Add Transaction"}
+              {readOnly ? "Transaction" : isEditing ? "Edit Transaction" : "Add Transaction"}
             </DialogTitle>
           </DialogHeader>
 
           <form onSubmit={handleSubmit} className="space-y-4">
-            {/* Amount */}
-            <div className="space-y-2">
-              <Label className="flex items-center gap-2">
-                <DollarSign className="h-4 w-4 text-muted-foreground" />
-                Amount
-              </Label>
-              <Input
-                type="number"
-                step="0.01"
-                placeholder="0.00"
-                value={formData.amount}
-                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                className="text-2xl font-bold h-14"
-                required
-              />
-            </div>
+            <fieldset disabled={readOnly || isAdjustment} className="space-y-4">
+              {/* Type */}
+              <div className="flex gap-1 p-1 bg-muted rounded-xl">
+                {TRANSACTION_KINDS.filter(({ flow }) => flow !== "neutral").map(({ kind, label }) => (
+                  <button
+                    key={kind}
+                    type="button"
+                    onClick={() =>
+                      setFormData({
+                        ...formData,
+                        kind,
+                        // Keep the category only if it still matches the new type.
+                        category:
+                          formData.category && getCategoryKind(formData.category) === kind
+                            ? formData.category
+                            : null,
+                      })
+                    }
+                    className={cn(
+                      "flex-1 py-1.5 text-xs font-medium rounded-lg transition-all",
+                      formData.kind === kind
+                        ? kind === "income" || kind === "debt"
+                          ? "bg-income text-income-foreground"
+                          : "bg-expense text-expense-foreground"
+                        : "text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
 
-            {/* Category */}
-            <div className="space-y-2">
-              <Label className="flex items-center gap-2">
-                <Tag className="h-4 w-4 text-muted-foreground" />
-                Category
-              </Label>
-              <button
-                type="button"
-                onClick={() => setShowCategoryPicker(true)}
-                className={cn(
-                  "w-full flex items-center gap-3 p-3 rounded-xl border transition-colors text-left",
-                  formData.category
-                    ? "border-primary bg-primary/5"
-                    : "border-input hover:bg-muted"
-                )}
-              >
-                {formData.category ? (
-                  <>
-                    <span className="text-2xl">{formData.category.icon}</span>
-                    <span className="font-medium">{formData.category.name}</span>
-                  </>
-                ) : (
-                  <span className="text-muted-foreground">Select category</span>
+              {/* Amount */}
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <DollarSign className="h-4 w-4 text-muted-foreground" />
+                  Amount ({currency})
+                </Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder="0.00"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  className="text-2xl font-bold h-14"
+                  required
+                />
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={formData.original_currency || WALLET_CURRENCY}
+                    onValueChange={(value) =>
+                      setOriginal(
+                        value === WALLET_CURRENCY
+                          ? { original_currency: "", original_amount: "" }
+                          : { original_currency: value }
+                      )
+                    }
+                  >
+                    <SelectTrigger className="w-36 h-9 shrink-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={WALLET_CURRENCY}>Paid in {currency}</SelectItem>
+                      {originalCurrencies.map((code) => (
+                        <SelectItem key={code} value={code}>
+                          Paid in {code}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {formData.original_currency && (
+                    <Input
+                      type="number"
+                      step="0.01"
+                      placeholder={`Amount in ${formData.original_currency}`}
+                      value={formData.original_amount}
+                      onChange={(e) => setOriginal({ original_amount: e.target.value })}
+                      className="h-9"
+                    />
+                  )}
+                </div>
+                {formData.original_currency && (
+                  <p className="text-xs text-muted-foreground">
+                    {unitRate !== null
+                      ? `1 ${formData.original_currency} = ${unitRate.toLocaleString(undefined, {
+                          maximumSignificantDigits: 6,
+                        })} ${currency}`
+                      : `No exchange rate for ${formData.original_currency} yet; enter the ${currency} amount yourself.`}
+                  </p>
                 )}
-              </button>
-            </div>
+              </div>
+
+              {/* Category */}
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <Tag className="h-4 w-4 text-muted-foreground" />
+                  Category
+                </Label>
+                <button
+                  type="button"
+                  onClick={() => setShowCategoryPicker(true)}
+                  className={cn(
+                    "w-full flex items-center gap-3 p-3 rounded-xl border transition-colors text-left",
+                    formData.category
+                      ? "border-primary bg-primary/5"
+                      : "border-input hover:bg-muted"
+                  )}
+                >
+                  {formData.category ? (
+                    <>
+                      <span className="text-2xl">{formData.category.icon}</span>
+                      <span className="font-medium">{formData.category.name}</span>
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground">Select category</span>
+                  )}
+                </button>
+              </div>
 
-            {/* Date/Time */}
-            <div className="space-y-2">
-              <Label className="flex items-center gap-2">
-                <Calendar className="h-4 w-4 text-muted-foreground" />
-                Date & Time
-              </Label>
-              <Input
-                type="datetime-local"
-                value={formData.transaction_time}
-                onChange={(e) =>
-                  setFormData({ ...formData, transaction_time: e.target.value })
-                }
-              />
-            </div>
+              {/* Date/Time */}
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <Calendar className="h-4 w-4 text-muted-foreground" />
+                  Date & Time
+                </Label>
+                <Input
+                  type="datetime-local"
+                  value={formData.transaction_time}
+                  onChange={(e) =>
+                    setFormData({ ...formData, transaction_time: e.target.value })
+                  }
+                />
+              </div>
 
-            {/* Person */}
-            <div className="space-y-2">
-              <Label className="flex items-center gap-2">
-                <User className="h-4 w-4 text-muted-foreground" />
-                Person/Payee (Optional)
-              </Label>
-              <Input
-                placeholder="e.g., Grocery Store"
-                value={formData.person_name}
-                onChange={(e) =>
-                  setFormData({ ...formData, person_name: e.target.value })
-                }
-              />
-            </div>
+              {/* Person */}
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <User className="h-4 w-4 text-muted-foreground" />
+                  {isDebtKind(formData.kind)
+                    ? `${DEBT_LABELS[formData.kind].action} ${DEBT_LABELS[formData.kind].preposition}`
+                    : "Person/Payee (Optional)"}
+                </Label>
+                <PersonCombobox
+                  value={{ person_id: formData.person_id, person_name: formData.person_name }}
+                  onChange={(person) => setFormData({ ...formData, ...person })}
+                />
+              </div>
 
-            {/* Note */}
-            <div className="space-y-2">
-              <Label className="flex items-center gap-2">
-                <FileText className="h-4 w-4 text-muted-foreground" />
-                Note (Optional)
-              </Label>
-              <Textarea
-                placeholder="Add a note..."
-                value={formData.note}
-                onChange={(e) => setFormData({ ...formData, note: e.target.value })}
-                rows={2}
-              />
-            </div>
+              {/* Note */}
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <FileText className="h-4 w-4 text-muted-foreground" />
+                  Note (Optional)
+                </Label>
+                <Textarea
+                  placeholder="Add a note..."
+                  value={formData.note}
+                  onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                  rows={2}
+                />
+              </div>
 
-            <DialogFooter className="flex gap-2 pt-4">
-              {isEditing && (
-                <Button
-                  type="button"
-                  variant="destructive"
-                  onClick={() => setShowDeleteConfirm(true)}
-                  disabled={isSubmitting}
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
+              {/* Repeat */}
+              {!isEditing && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label className="flex items-center gap-2">
+                      <Repeat className="h-4 w-4 text-muted-foreground" />
+                      Repeat
+                    </Label>
+                    <Switch
+                      checked={!!repeatRule}
+                      onCheckedChange={(checked) => setRepeatRule(checked ? DEFAULT_RULE : null)}
+                    />
+                  </div>
+                  {repeatRule && <RecurrenceFields value={repeatRule} onChange={setRepeatRule} />}
+                </div>
               )}
-              <Button
-                type="submit"
-                className="flex-1"
-                disabled={isSubmitting}
-              >
-                {isSubmitting ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : isEditing ? (
-                  "Save Changes"
+
+              {exceededBudgets.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    {exceededBudgets.map(({ budget, remaining, period }) => {
+                      const category = findCategoryNode(roots, budget.category_id)?.category;
+                      return (
+                        <p key={budget.budget_id}>
+                          The {category ? `${category.icon} ${category.name}` : ""} budget for{" "}
+                          {period.label} will be {formatMoney(-remaining, currency)} over its
+                          limit.
+                        </p>
+                      );
+                    })}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </fieldset>
+
+            {readOnly ? (
+              <p className="text-sm text-muted-foreground pt-4">
+                You can view {wallet?.name} but not change it.
+              </p>
+            ) : (
+              <DialogFooter className="flex gap-2 pt-4">
+                {isEditing && (
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    onClick={() => setShowDeleteConfirm(true)}
+                    disabled={isSubmitting}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+                {isAdjustment ? (
+                  <p className="flex-1 self-center text-sm text-muted-foreground">
+                    Made by reconciling. Delete it and reconcile again to change it.
+                  </p>
                 ) : (
-                  "Add Transaction"
+                  <Button
+                    type="submit"
+                    className="flex-1"
+                    disabled={isSubmitting}
+                  >
+                    {isSubmitting ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : isEditing ? (
+                      "Save Changes"
+                    ) : (
+                      "Add Transaction"
+                    )}
+                  </Button>
                 )}
-              </Button>
-            </DialogFooter>
+              </DialogFooter>
+            )}
           </form>
         </DialogContent>
       </Dialog>
@@ -283,8 +569,21 @@ export default function TransactionDialog({
       <CategoryPicker
         open={showCategoryPicker}
         onClose={() => setShowCategoryPicker(false)}
-        onSelect={(category) => setFormData({ ...formData, category })}
+        // A category without a kind of its own only decides between income
+        // and expense; a debt, loan or transfer stays what it is.
+        onSelect={(category) =>
+          setFormData({
+            ...formData,
+            category,
+            kind:
+              category.kind ||
+              (formData.kind === "income" || formData.kind === "expense"
+                ? getCategoryKind(category)
+                : formData.kind),
+          })
+        }
         selectedCategoryId={formData.category?.category_id}
+        kind={formData.kind}
       />
 
       <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
@@ -0,0 +1,308 @@
+import { useState, useEffect } from "react";
+import { startOfDay, endOfDay } from "date-fns";
+import { DateRange } from "react-day-picker";
+import { CategoryTreeNode } from "@/lib/api";
+import { collectIds } from "@/lib/budgets";
+import { AMOUNT_OPERATORS, AdvancedFilters, AmountOperator, compactFilters } from "@/lib/filters";
+import { useApp } from "@/hooks/useApp";
+import { useCategoryTree, usePersons, useUsers } from "@/hooks/queries";
+import PersonCombobox from "./PersonCombobox";
+import DateRangePicker from "./DateRangePicker";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface TransactionFilterSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: AdvancedFilters;
+  onApply: (filters: AdvancedFilters) => void;
+}
+
+function toDateRange(start?: string, end?: string): DateRange | undefined {
+  if (!start && !end) return undefined;
+  return { from: start ? new Date(start) : undefined, to: end ? new Date(end) : undefined };
+}
+
+function fromDateRange(range: DateRange | undefined): { start?: string; end?: string } {
+  if (!range?.from) return {};
+  return {
+    start: startOfDay(range.from).toISOString(),
+    end: endOfDay(range.to || range.from).toISOString(),
+  };
+}
+
+function CategoryCheckNode({
+  node,
+  level,
+  selected,
+  onToggle,
+}: {
+  node: CategoryTreeNode;
+  level: number;
+  selected: number[];
+  onToggle: (node: CategoryTreeNode, checked: boolean) => void;
+}) {
+  const ids = new Set<number>();
+  collectIds(node, ids);
+  const selectedCount = [...ids].filter((id) => selected.includes(id)).length;
+  const checked =
+    selectedCount === ids.size ? true : selectedCount > 0 ? "indeterminate" : false;
+  const id = `filter-category-${node.category.category_id}`;
+
+  return (
+    <div>
+      <div className={cn("flex items-center gap-2 py-1.5", level > 0 && "ml-6")}>
+        <Checkbox
+          id={id}
+          checked={checked}
+          onCheckedChange={(value) => onToggle(node, value === true)}
+        />
+        <Label htmlFor={id} className="flex items-center gap-2 font-normal cursor-pointer">
+          <span>{node.category.icon}</span>
+          {node.category.name}
+        </Label>
+      </div>
+      {node.children?.map((child) => (
+        <CategoryCheckNode
+          key={child.category.category_id}
+          node={child}
+          level={level + 1}
+          selected={selected}
+          onToggle={onToggle}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function TransactionFilterSheet({
+  open,
+  onOpenChange,
+  filters,
+  onApply,
+}: TransactionFilterSheetProps) {
+  const { selectedWallet } = useApp();
+  const { data: roots = [], isLoading: isLoadingCategories } = useCategoryTree(
+    selectedWallet?.wallet_id
+  );
+  const { data: persons = [] } = usePersons(open);
+  const { data: users = [] } = useUsers(open);
+  const [draft, setDraft] = useState<AdvancedFilters>(filters);
+  const [amountText, setAmountText] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(filters);
+    setAmountText(filters.amount_value?.toString() ?? "");
+  }, [open, filters]);
+
+  const selectedCategories = draft.category_ids || [];
+  const person = persons.find((p) => p.person_id === draft.person_id);
+
+  // Checking a category selects its whole subtree, so results match what the
+  // tree shows.
+  const toggleCategory = (node: CategoryTreeNode, checked: boolean) => {
+    const ids = new Set<number>();
+    collectIds(node, ids);
+    const rest = selectedCategories.filter((id) => !ids.has(id));
+    setDraft({ ...draft, category_ids: checked ? [...rest, ...ids] : rest });
+  };
+
+  const handleApply = () => {
+    const amount = parseFloat(amountText);
+    onApply(
+      compactFilters({
+        ...draft,
+        amount_op: draft.amount_op || "ge",
+        amount_value: isNaN(amount) ? undefined : Math.abs(amount),
+      })
+    );
+    onOpenChange(false);
+  };
+
+  const handleClear = () => {
+    onApply({});
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[90vh] flex flex-col rounded-t-2xl">
+        <SheetHeader>
+          <SheetTitle>Filter Transactions</SheetTitle>
+          <SheetDescription>Applied on top of the selected wallet and period</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-5 -mx-1 px-1">
+          {/* Categories */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Categories</Label>
+              {selectedCategories.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7"
+                  onClick={() => setDraft({ ...draft, category_ids: undefined })}
+                >
+                  Clear
+                </Button>
+              )}
+            </div>
+            <div className="max-h-56 overflow-y-auto rounded-xl border p-2">
+              {isLoadingCategories ? (
+                <div className="flex items-center justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : roots.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No categories</p>
+              ) : (
+                roots.map((node) => (
+                  <CategoryCheckNode
+                    key={node.category.category_id}
+                    node={node}
+                    level={0}
+                    selected={selectedCategories}
+                    onToggle={toggleCategory}
+                  />
+                ))
+              )}
+            </div>
+          </div>
+
+          {/* Person */}
+          <div className="space-y-2">
+            <Label>Person/Payee</Label>
+            <PersonCombobox
+              value={{
+                person_id: draft.person_id ?? null,
+                person_name: person?.person_name || "",
+              }}
+              onChange={(value) => setDraft({ ...draft, person_id: value.person_id ?? undefined })}
+              placeholder="Anyone"
+              allowCreate={false}
+            />
+          </div>
+
+          {/* User */}
+          <div className="space-y-2">
+            <Label>Added by</Label>
+            <Select
+              value={draft.user_id?.toString() || "all"}
+              onValueChange={(value) =>
+                setDraft({ ...draft, user_id: value === "all" ? undefined : parseInt(value) })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Anyone</SelectItem>
+                {users.map((user) => (
+                  <SelectItem key={user.user_id} value={user.user_id.toString()}>
+                    {user.name || user.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Amount */}
+          <div className="space-y-2">
+            <Label>Amount</Label>
+            <div className="flex gap-2">
+              <Select
+                value={draft.amount_op || "ge"}
+                onValueChange={(value) => setDraft({ ...draft, amount_op: value as AmountOperator })}
+              >
+                <SelectTrigger className="w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AMOUNT_OPERATORS.map(({ op, label }) => (
+                    <SelectItem key={op} value={op}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                step="0.01"
+                placeholder="Any amount"
+                value={amountText}
+                onChange={(e) => setAmountText(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Note */}
+          <div className="space-y-2">
+            <Label>Note contains</Label>
+            <Input
+              placeholder="Search notes..."
+              value={draft.fuzzy_note || ""}
+              onChange={(e) => setDraft({ ...draft, fuzzy_note: e.target.value })}
+            />
+          </div>
+
+          {/* Entry and modified time */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Entered</Label>
+              <DateRangePicker
+                className="w-full"
+                dateRange={toDateRange(draft.start_entry_time, draft.end_entry_time)}
+                onDateRangeChange={(range) => {
+                  const { start, end } = fromDateRange(range);
+                  setDraft({ ...draft, start_entry_time: start, end_entry_time: end });
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Modified</Label>
+              <DateRangePicker
+                className="w-full"
+                dateRange={toDateRange(draft.start_last_modified_time, draft.end_last_modified_time)}
+                onDateRangeChange={(range) => {
+                  const { start, end } = fromDateRange(range);
+                  setDraft({
+                    ...draft,
+                    start_last_modified_time: start,
+                    end_last_modified_time: end,
+                  });
+                }}
+              />
+            </div>
+          </div>
+        </div>
+
+        <SheetFooter className="gap-2">
+          <Button variant="outline" onClick={handleClear}>
+            Clear All
+          </Button>
+          <Button onClick={handleApply}>Apply Filters</Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,24 +1,53 @@
-import { Transaction, Category } from "@/lib/api";
+import { Transaction } from "@/lib/api";
+import { SyncState } from "@/lib/outbox";
+import { getCashFlow, getTransactionKind } from "@/lib/classification";
+import { formatMoney, walletCurrency } from "@/lib/currency";
+import { initials, isShared } from "@/lib/members";
+import { useApp } from "@/hooks/useApp";
 import { format } from "date-fns";
+import { CloudOff, AlertCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface TransactionItemProps {
   transaction: Transaction;
+  syncState?: SyncState;
   onClick?: () => void;
 }
 
-export default function TransactionItem({ transaction, onClick }: TransactionItemProps) {
-  const isIncome = transaction.category?.root_id === 1 || 
-    transaction.category?.name?.toLowerCase().includes("income") ||
-    transaction.amount > 0 && transaction.category?.parent_id === 1;
-  
+const SYNC_LABELS: Record<SyncState["action"], string> = {
+  create: "Waiting to sync",
+  update: "Changes waiting to sync",
+  delete: "Deletion waiting to sync",
+};
+
+export default function TransactionItem({ transaction, syncState, onClick }: TransactionItemProps) {
+  const { wallets, users, currentUser } = useApp();
+  const isIncome = getCashFlow(transaction) === "in";
+  const isTransfer = getTransactionKind(transaction) === "transfer";
+
   const displayAmount = Math.abs(transaction.amount);
   const amountPrefix = isIncome ? "+" : "-";
+  const wallet = wallets.find((w) => w.wallet_id === transaction.wallet_id) || transaction.wallet;
+  const currency = walletCurrency(wallet);
+
+  // Only worth showing once more than one person writes to the wallet.
+  const isOwn = transaction.user_id === currentUser?.user_id;
+  const author = isShared(wallet)
+    ? isOwn
+      ? "You"
+      : transaction.user?.name ||
+        users.find((u) => u.user_id === transaction.user_id)?.name ||
+        "Someone else"
+    : null;
 
   return (
     <div
       onClick={onClick}
-      className="flex items-center gap-3 p-3 bg-card rounded-xl shadow-card hover:shadow-soft transition-all duration-200 cursor-pointer active:scale-[0.99]"
+      className={cn(
+        "flex items-center gap-3 p-3 bg-card rounded-xl shadow-card hover:shadow-soft transition-all duration-200 cursor-pointer active:scale-[0.99]",
+        syncState?.action === "delete" && "opacity-60",
+        syncState?.status === "failed" && "ring-1 ring-destructive"
+      )}
     >
       {/* Category Icon */}
       <div
@@ -27,17 +56,39 @@ export default function TransactionItem({ transaction, onClick }: TransactionIte
           isIncome ? "bg-income/10" : "bg-expense/10"
         )}
       >
-        {transaction.category?.icon || "💰"}
+        {transaction.category?.icon || (isTransfer ? "🔁" : "💰")}
       </div>
 
       {/* Details */}
       <div className="flex-1 min-w-0">
         <p className="font-medium text-foreground truncate">
-          {transaction.category?.name || "Unknown"}
+          {transaction.category?.name ||
+            (isTransfer ? (isIncome ? "Transfer in" : "Transfer out") : "Unknown")}
         </p>
         <p className="text-sm text-muted-foreground truncate">
           {transaction.note || transaction.person?.person_name || "No note"}
         </p>
+        {syncState && (
+          <p
+            className={cn(
+              "text-xs flex items-center gap-1",
+              syncState.status === "failed" ? "text-destructive" : "text-muted-foreground"
+            )}
+            title={syncState.error}
+          >
+            {syncState.status === "failed" ? (
+              <>
+                <AlertCircle className="h-3 w-3" />
+                Sync failed
+              </>
+            ) : (
+              <>
+                <CloudOff className="h-3 w-3" />
+                {SYNC_LABELS[syncState.action]}
+              </>
+            )}
+          </p>
+        )}
       </div>
 
       {/* Amount & Time */}
@@ -45,15 +96,30 @@ export default function TransactionItem({ transaction, onClick }: TransactionIte
         <p
           className={cn(
             "font-semibold tabular-nums",
-            isIncome ? "text-income" : "text-expense"
+            isIncome ? "text-income" : "text-expense",
+            syncState?.action === "delete" && "line-through"
           )}
         >
-          {amountPrefix}${displayAmount.toLocaleString(undefined, {
-            minimumFractionDigits: 2,
-            maximumFractionDigits: 2,
-          })}
+          {amountPrefix}
+          {formatMoney(displayAmount, currency)}
         </p>
-        <p className="text-xs text-muted-foreground">
+        {transaction.original_currency && transaction.original_amount != null && (
+          <p className="text-xs text-muted-foreground tabular-nums">
+            {formatMoney(Math.abs(transaction.original_amount), transaction.original_currency)}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground flex items-center justify-end gap-1">
+          {author && (
+            <span
+              className={cn(
+                "inline-flex items-center justify-center h-4 min-w-4 px-1 rounded-full text-[10px] font-medium",
+                isOwn ? "bg-muted" : "bg-primary/10 text-primary"
+              )}
+              title={`Added by ${author}`}
+            >
+              {isOwn ? "You" : initials(author)}
+            </span>
+          )}
           {format(new Date(transaction.transaction_time), "h:mm a")}
         </p>
       </div>
@@ -1,142 +1,127 @@
-import { useState, useEffect, useMemo } from "react";
-import { Transaction, getWalletTransactions } from "@/lib/api";
+import { useState, useMemo, useEffect, Fragment } from "react";
+import { Transaction, TransactionSortField, SavedViewDefinition } from "@/lib/api";
 import { useApp } from "@/hooks/useApp";
+import { useOutbox } from "@/hooks/useOutbox";
+import {
+  useTransactions,
+  useCategoryTree,
+  usePersons,
+  useUsers,
+  useReconciliations,
+} from "@/hooks/queries";
+import { applyOutbox } from "@/lib/outbox";
+import { AdvancedFilters, filterChips, matchesFilters, compactFilters } from "@/lib/filters";
+import { toSavedPeriod } from "@/lib/views";
+import { shiftPeriodBy } from "@/lib/period";
+import { exportFileName } from "@/lib/export";
+import { formatMoney, walletCurrency } from "@/lib/currency";
+import { summarizeTransactions } from "@/lib/classification";
+import { latestReconciliation } from "@/lib/reconcile";
+import { PeriodState } from "@/hooks/usePeriod";
 import TransactionItem from "./TransactionItem";
-import DateRangePicker from "./DateRangePicker";
-import { format, startOfDay, startOfWeek, startOfMonth, startOfYear, endOfDay, endOfWeek, endOfMonth, endOfYear, addDays, addWeeks, addMonths, addYears } from "date-fns";
-import { DateRange } from "react-day-picker";
-import { ChevronLeft, ChevronRight, Calendar, ArrowUpDown, Loader2, Filter } from "lucide-react";
+import PeriodSelector from "./PeriodSelector";
+import UpcomingTransactions from "./UpcomingTransactions";
+import TransactionFilterSheet from "./TransactionFilterSheet";
+import SavedViewTabs from "./SavedViewTabs";
+import ExportMenu from "./ExportMenu";
+import { format } from "date-fns";
+import { Calendar, ArrowUpDown, CheckCircle2, Download, Loader2, SlidersHorizontal, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { cn } from "@/lib/utils";
 
-type PeriodType = "daily" | "weekly" | "monthly" | "yearly" | "custom";
-type SortType = "transaction_time" | "entry_time" | "last_modified_time";
+const NO_TRANSACTIONS: Transaction[] = [];
 
 interface TransactionListProps {
+  periodState: PeriodState;
   onTransactionClick?: (transaction: Transaction) => void;
-  refreshTrigger?: number;
 }
 
-export default function TransactionList({ onTransactionClick, refreshTrigger }: TransactionListProps) {
-  const { selectedWallet } = useApp();
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [periodType, setPeriodType] = useState<PeriodType>("monthly");
-  const [currentDate, setCurrentDate] = useState(new Date());
-  const [sortBy, setSortBy] = useState<SortType>("transaction_time");
-  const [customDateRange, setCustomDateRange] = useState<DateRange | undefined>(undefined);
+export default function TransactionList({ periodState, onTransactionClick }: TransactionListProps) {
+  const { selectedWallet, preferences, updatePreferences } = useApp();
+  const { entries: outboxEntries } = useOutbox();
+  const [sortBy, setSortBy] = useState<TransactionSortField>(preferences.transaction_sort);
+  const [filters, setFilters] = useState<AdvancedFilters>({});
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const { periodType, currentDate, period } = periodState;
+  const { start: periodStart, end: periodEnd } = period;
 
-  const { periodStart, periodEnd, periodLabel } = useMemo(() => {
-    // If custom date range is set, use it
-    if (periodType === "custom" && customDateRange?.from) {
-      const start = startOfDay(customDateRange.from);
-      const end = customDateRange.to ? endOfDay(customDateRange.to) : endOfDay(customDateRange.from);
-      const label = customDateRange.to
-        ? `${format(start, "MMM d")} - ${format(end, "MMM d, yyyy")}`
-        : format(start, "MMM d, yyyy");
-      return { periodStart: start, periodEnd: end, periodLabel: label };
-    }
+  // The saved sort can arrive from the server after the list is shown.
+  useEffect(() => {
+    setSortBy(preferences.transaction_sort);
+  }, [preferences.transaction_sort]);
 
-    let start: Date, end: Date, label: string;
-    
-    switch (periodType) {
-      case "daily":
-        start = startOfDay(currentDate);
-        end = endOfDay(currentDate);
-        label = format(currentDate, "EEEE, MMM d, yyyy");
-        break;
-      case "weekly":
-        start = startOfWeek(currentDate, { weekStartsOn: 1 });
-        end = endOfWeek(currentDate, { weekStartsOn: 1 });
-        label = `${format(start, "MMM d")} - ${format(end, "MMM d, yyyy")}`;
-        break;
-      case "monthly":
-        start = startOfMonth(currentDate);
-        end = endOfMonth(currentDate);
-        label = format(currentDate, "MMMM yyyy");
-        break;
-      case "yearly":
-        start = startOfYear(currentDate);
-        end = endOfYear(currentDate);
-        label = format(currentDate, "yyyy");
-        break;
-      default:
-        start = startOfMonth(currentDate);
-        end = endOfMonth(currentDate);
-        label = format(currentDate, "MMMM yyyy");
-    }
-    
-    return { periodStart: start, periodEnd: end, periodLabel: label };
-  }, [periodType, currentDate, customDateRange]);
+  // Categories belong to a wallet, so they don't carry over to another one.
+  useEffect(() => {
+    setFilters((f) => ({ ...f, category_ids: undefined }));
+  }, [selectedWallet?.wallet_id]);
 
-  const navigate = (direction: "prev" | "next") => {
-    if (periodType === "custom") return;
-    
-    const modifier = direction === "prev" ? -1 : 1;
-    switch (periodType) {
-      case "daily":
-        setCurrentDate(addDays(currentDate, modifier));
-        break;
-      case "weekly":
-        setCurrentDate(addWeeks(currentDate, modifier));
-        break;
-      case "monthly":
-        setCurrentDate(addMonths(currentDate, modifier));
-        break;
-      case "yearly":
-        setCurrentDate(addYears(currentDate, modifier));
-        break;
-    }
-  };
+  const queryFilters = useMemo(
+    () => ({
+      ...filters,
+      wallet_id: selectedWallet?.wallet_id,
+      start_transaction_time: periodStart.toISOString(),
+      end_transaction_time: periodEnd.toISOString(),
+    }),
+    [filters, selectedWallet, periodStart, periodEnd]
+  );
+  const { data: transactions = NO_TRANSACTIONS, isLoading } = useTransactions(
+    queryFilters,
+    !!selectedWallet
+  );
 
-  const handlePeriodTypeChange = (type: PeriodType) => {
-    setPeriodType(type);
-    if (type !== "custom") {
-      setCustomDateRange(undefined);
-    }
+  // Chips only need names for the filters that are set.
+  const { data: roots = [] } = useCategoryTree(
+    filters.category_ids?.length ? selectedWallet?.wallet_id : undefined
+  );
+  const { data: persons = [] } = usePersons(!!filters.person_id);
+  const { data: users = [] } = useUsers(!!filters.user_id);
+  const chips = useMemo(
+    () => filterChips(filters, { roots, persons, users }),
+    [filters, roots, persons, users]
+  );
+
+  const currentView = useMemo<SavedViewDefinition | null>(
+    () =>
+      selectedWallet
+        ? {
+            wallet_id: selectedWallet.wallet_id,
+            filters: compactFilters(filters),
+            sort: sortBy,
+            period: toSavedPeriod(periodType, currentDate, period),
+          }
+        : null,
+    [selectedWallet, filters, sortBy, periodType, currentDate, period]
+  );
+
+  const changeSort = (sort: TransactionSortField) => {
+    setSortBy(sort);
+    updatePreferences({ transaction_sort: sort });
   };
 
-  const handleDateRangeChange = (range: DateRange | undefined) => {
-    setCustomDateRange(range);
-    if (range?.from) {
-      setPeriodType("custom");
+  const applyView = (definition: SavedViewDefinition) => {
+    setFilters(definition.filters);
+    setSortBy(definition.sort);
+    const saved = definition.period;
+    if (saved.type === "custom") {
+      periodState.changeDateRange({ from: new Date(saved.start), to: new Date(saved.end) });
     } else {
-      setPeriodType("monthly");
+      periodState.changePeriodType(saved.type);
+      periodState.setCurrentDate(shiftPeriodBy(saved.type, new Date(), saved.offset));
     }
   };
 
-  useEffect(() => {
-    const fetchTransactions = async () => {
-      if (!selectedWallet) return;
-      
-      setIsLoading(true);
-      try {
-        const response = await getWalletTransactions(selectedWallet.wallet_id, {
-          start_transaction_time: periodStart.toISOString(),
-          end_transaction_time: periodEnd.toISOString(),
-        });
-        
-        if (response.success) {
-          setTransactions(response.data || []);
-        }
-      } catch (error) {
-        console.error("Failed to fetch transactions:", error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchTransactions();
-  }, [selectedWallet, periodStart, periodEnd, refreshTrigger]);
+  // Show changes still waiting in the offline queue on top of the server data.
+  const { transactions: visibleTransactions, syncStates } = useMemo(() => {
+    return applyOutbox(transactions, outboxEntries, (t) => matchesFilters(t, queryFilters));
+  }, [transactions, outboxEntries, queryFilters]);
 
   const sortedTransactions = useMemo(() => {
-    return [...transactions].sort((a, b) => {
+    return [...visibleTransactions].sort((a, b) => {
       const dateA = new Date(a[sortBy]).getTime();
       const dateB = new Date(b[sortBy]).getTime();
       return dateB - dateA;
     });
-  }, [transactions, sortBy]);
+  }, [visibleTransactions, sortBy]);
 
   const groupedTransactions = useMemo(() => {
     const groups: { [key: string]: Transaction[] } = {};
@@ -152,117 +137,113 @@ export default function TransactionList({ onTransactionClick, refreshTrigger }:
     return groups;
   }, [sortedTransactions, sortBy]);
 
-  const { totalIncome, totalExpense } = useMemo(() => {
-    let income = 0;
-    let expense = 0;
-    
-    transactions.forEach((t) => {
-      const isIncome = t.category?.root_id === 1 || t.category?.name?.toLowerCase().includes("income");
-      if (isIncome) {
-        income += Math.abs(t.amount);
-      } else {
-        expense += Math.abs(t.amount);
-      }
-    });
-    
-    return { totalIncome: income, totalExpense: expense };
-  }, [transactions]);
+  // The marker sits above the newest transaction the last reconciliation
+  // covered, which only lines up when the list is in transaction order.
+  const { data: reconciliations = [] } = useReconciliations(selectedWallet?.wallet_id);
+  const reconciledAt = latestReconciliation(reconciliations)?.reconciled_at;
+  const reconciledMarkerId = useMemo(() => {
+    if (!reconciledAt || sortBy !== "transaction_time") return null;
+    const cutoff = new Date(reconciledAt);
+    return (
+      sortedTransactions.find((t) => new Date(t.transaction_time) <= cutoff)?.transaction_id ?? null
+    );
+  }, [sortedTransactions, sortBy, reconciledAt]);
+
+  const liveTransactions = useMemo(
+    () => visibleTransactions.filter((t) => syncStates.get(t.transaction_id)?.action !== "delete"),
+    [visibleTransactions, syncStates]
+  );
+
+  const { income: totalIncome, expense: totalExpense } = useMemo(() => {
+    return summarizeTransactions(liveTransactions);
+  }, [liveTransactions]);
+  const currency = walletCurrency(selectedWallet);
 
   return (
     <div className="flex flex-col h-full">
       {/* Period Navigation */}
       <div className="sticky top-0 bg-background/95 backdrop-blur-sm z-10 pb-3 space-y-3">
-        {/* Period Type Selector */}
-        <div className="flex items-center gap-2 flex-wrap">
-          {(["daily", "weekly", "monthly", "yearly"] as PeriodType[]).map((type) => (
-            <button
-              key={type}
-              onClick={() => handlePeriodTypeChange(type)}
-              className={cn(
-                "px-3 py-1.5 text-xs font-medium rounded-full transition-all",
-                periodType === type
-                  ? "bg-primary text-primary-foreground"
-                  : "bg-muted text-muted-foreground hover:bg-muted/80"
-              )}
-            >
-              {type.charAt(0).toUpperCase() + type.slice(1)}
-            </button>
-          ))}
-          
-          {/* Date Range Picker */}
-          <DateRangePicker
-            dateRange={customDateRange}
-            onDateRangeChange={handleDateRangeChange}
-            className={cn(
-              "text-xs",
-              periodType === "custom" && "border-primary"
-            )}
-          />
-        </div>
-
-        {/* Period Navigator - only show for non-custom periods */}
-        {periodType !== "custom" && (
-          <div className="flex items-center justify-between">
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={() => navigate("prev")}
-              className="h-8 w-8"
-            >
-              <ChevronLeft className="h-4 w-4" />
-            </Button>
-            
-            <div className="flex items-center gap-2">
-              <Calendar className="h-4 w-4 text-muted-foreground" />
-              <span className="font-medium text-sm">{periodLabel}</span>
-            </div>
-            
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={() => navigate("next")}
-              className="h-8 w-8"
-            >
-              <ChevronRight className="h-4 w-4" />
-            </Button>
-          </div>
-        )}
-
-        {/* Custom date label */}
-        {periodType === "custom" && customDateRange?.from && (
-          <div className="flex items-center justify-center gap-2 text-sm">
-            <Filter className="h-4 w-4 text-primary" />
-            <span className="font-medium">{periodLabel}</span>
-          </div>
-        )}
+        {currentView && <SavedViewTabs current={currentView} onApply={applyView} />}
+        <PeriodSelector periodState={periodState} />
 
         {/* Summary & Sort */}
         <div className="flex items-center justify-between">
           <div className="flex gap-4 text-sm">
             <span className="text-income font-medium">
-              +${totalIncome.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+              +{formatMoney(totalIncome, currency)}
             </span>
             <span className="text-expense font-medium">
-              -${totalExpense.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+              -{formatMoney(totalExpense, currency)}
             </span>
           </div>
           
-          <Select value={sortBy} onValueChange={(v) => setSortBy(v as SortType)}>
-            <SelectTrigger className="w-auto h-8 text-xs gap-1">
-              <ArrowUpDown className="h-3 w-3" />
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="transaction_time">Transaction Date</SelectItem>
-              <SelectItem value="entry_time">Entry Date</SelectItem>
-              <SelectItem value="last_modified_time">Modified Date</SelectItem>
-            </SelectContent>
-          </Select>
+          <div className="flex items-center gap-2">
+            <Button
+              variant={chips.length > 0 ? "secondary" : "outline"}
+              size="sm"
+              className="h-8 text-xs gap-1"
+              onClick={() => setIsFilterOpen(true)}
+            >
+              <SlidersHorizontal className="h-3 w-3" />
+              Filter{chips.length > 0 && ` (${chips.length})`}
+            </Button>
+            {selectedWallet && (
+              <ExportMenu
+                walletId={selectedWallet.wallet_id}
+                transactions={liveTransactions}
+                fileName={exportFileName(
+                  selectedWallet.name,
+                  format(periodStart, "yyyy-MM-dd"),
+                  format(periodEnd, "yyyy-MM-dd")
+                )}
+              >
+                <Button variant="outline" size="icon" className="h-8 w-8" aria-label="Export">
+                  <Download className="h-3 w-3" />
+                </Button>
+              </ExportMenu>
+            )}
+            <Select value={sortBy} onValueChange={(v) => changeSort(v as TransactionSortField)}>
+              <SelectTrigger className="w-auto h-8 text-xs gap-1">
+                <ArrowUpDown className="h-3 w-3" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="transaction_time">Transaction Date</SelectItem>
+                <SelectItem value="entry_time">Entry Date</SelectItem>
+                <SelectItem value="last_modified_time">Modified Date</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </div>
+
+        {/* Active Filters */}
+        {chips.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {chips.map((chip) => (
+              <button
+                key={chip.key}
+                onClick={() => setFilters(chip.remove(filters))}
+                className="flex items-center gap-1 px-2.5 py-1 rounded-full bg-secondary text-secondary-foreground text-xs hover:bg-secondary/80"
+              >
+                {chip.label}
+                <X className="h-3 w-3" />
+              </button>
+            ))}
+            {chips.length > 1 && (
+              <button
+                onClick={() => setFilters({})}
+                className="px-2.5 py-1 text-xs text-muted-foreground hover:text-foreground"
+              >
+                Clear all
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Transaction List */}
       <div className="flex-1 overflow-y-auto pb-24 scrollbar-hide">
+        <UpcomingTransactions />
         {isLoading ? (
           <div className="flex items-center justify-center py-12">
             <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
@@ -273,7 +254,9 @@ export default function TransactionList({ onTransactionClick, refreshTrigger }:
               <Calendar className="h-8 w-8 text-muted-foreground" />
             </div>
             <p className="text-muted-foreground font-medium">No transactions</p>
-            <p className="text-sm text-muted-foreground/70">Add your first transaction</p>
+            <p className="text-sm text-muted-foreground/70">
+              {chips.length > 0 ? "Nothing matches the current filters" : "Add your first transaction"}
+            </p>
           </div>
         ) : (
           <div className="space-y-4">
@@ -289,11 +272,21 @@ export default function TransactionList({ onTransactionClick, refreshTrigger }:
                 </div>
                 <div className="space-y-2">
                   {txns.map((transaction) => (
-                    <TransactionItem
-                      key={transaction.transaction_id}
-                      transaction={transaction}
-                      onClick={() => onTransactionClick?.(transaction)}
-                    />
+                    <Fragment key={transaction.transaction_id}>
+                      {transaction.transaction_id === reconciledMarkerId && (
+                        <div className="flex items-center gap-2 px-1 text-xs text-primary">
+                          <div className="h-px flex-1 bg-primary/30" />
+                          <CheckCircle2 className="h-3 w-3" />
+                          Reconciled up to {format(new Date(reconciledAt!), "MMM d, h:mm a")}
+                          <div className="h-px flex-1 bg-primary/30" />
+                        </div>
+                      )}
+                      <TransactionItem
+                        transaction={transaction}
+                        syncState={syncStates.get(transaction.transaction_id)}
+                        onClick={() => onTransactionClick?.(transaction)}
+                      />
+                    </Fragment>
                   ))}
                 </div>
               </div>
@@ -301,6 +294,13 @@ export default function TransactionList({ onTransactionClick, refreshTrigger }:
           </div>
         )}
       </div>
+
+      <TransactionFilterSheet
+        open={isFilterOpen}
+        onOpenChange={setIsFilterOpen}
+        filters={filters}
+        onApply={setFilters}
+      />
     </div>
   );
 }
@@ -0,0 +1,408 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { canEdit } from "@/lib/members";
+import { walletCurrency } from "@/lib/currency";
+import { useApp } from "@/hooks/useApp";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import {
+  useTransfer,
+  useCreateTransfer,
+  useUpdateTransfer,
+  useDeleteTransfer,
+} from "@/hooks/queries";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Trash2, Calendar, Banknote, FileText, ArrowDown, Receipt } from "lucide-react";
+import { format } from "date-fns";
+
+interface TransferDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // Editing an existing transfer; otherwise a new one is created.
+  transferId?: number | null;
+  defaultFromWalletId?: number;
+  // Viewers of a shared wallet can open a transfer but not change it.
+  readOnly?: boolean;
+}
+
+export default function TransferDialog({
+  open,
+  onClose,
+  transferId,
+  defaultFromWalletId,
+  readOnly = false,
+}: TransferDialogProps) {
+  const { wallets, currentUser } = useApp();
+  const { toast } = useToast();
+  const { convert } = useExchangeRates();
+  const { data: transfer, isLoading } = useTransfer(open ? transferId : null);
+  const createTransferMutation = useCreateTransfer();
+  const updateTransferMutation = useUpdateTransfer();
+  const deleteTransferMutation = useDeleteTransfer();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  // Money can only be moved in and out of wallets the user can change.
+  const editableWallets = useMemo(() => wallets.filter(canEdit), [wallets]);
+
+  const [formData, setFormData] = useState({
+    from_wallet_id: "",
+    to_wallet_id: "",
+    amount: "",
+    // Left empty, it is converted with the saved exchange rates.
+    to_amount: "",
+    fee: "",
+    note: "",
+    transaction_time: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+  });
+
+  const walletById = (id: string) => wallets.find((w) => w.wallet_id.toString() === id);
+  const fromCurrency = walletCurrency(walletById(formData.from_wallet_id));
+  const toCurrency = walletCurrency(walletById(formData.to_wallet_id));
+  const crossCurrency = fromCurrency !== toCurrency;
+  const sent = Math.abs(parseFloat(formData.amount));
+  const converted = crossCurrency && !isNaN(sent) ? convert(sent, fromCurrency, toCurrency) : null;
+
+  const isEditing = !!transferId;
+
+  // Filled in once each time the dialog opens, so refetching the wallets or
+  // the transfer doesn't wipe what the user has typed.
+  const filledFor = useRef<number | "new" | null>(null);
+  useEffect(() => {
+    if (!open) {
+      filledFor.current = null;
+      return;
+    }
+    const key = transferId ?? "new";
+    if (filledFor.current === key) return;
+    if (transferId) {
+      if (!transfer) return;
+      setFormData({
+        from_wallet_id: transfer.from_transaction.wallet_id.toString(),
+        to_wallet_id: transfer.to_transaction.wallet_id.toString(),
+        amount: Math.abs(transfer.from_transaction.amount).toString(),
+        to_amount: transfer.to_transaction.original_currency
+          ? Math.abs(transfer.to_transaction.amount).toString()
+          : "",
+        fee: transfer.fee_transaction ? Math.abs(transfer.fee_transaction.amount).toString() : "",
+        note: transfer.to_transaction.note || "",
+        transaction_time: format(
+          new Date(transfer.to_transaction.transaction_time),
+          "yyyy-MM-dd'T'HH:mm"
+        ),
+      });
+    } else {
+      const fromId = editableWallets.some((w) => w.wallet_id === defaultFromWalletId)
+        ? defaultFromWalletId
+        : editableWallets[0]?.wallet_id;
+      const toId = editableWallets.find((w) => w.wallet_id !== fromId)?.wallet_id;
+      setFormData({
+        from_wallet_id: fromId?.toString() || "",
+        to_wallet_id: toId?.toString() || "",
+        amount: "",
+        to_amount: "",
+        fee: "",
+        note: "",
+        transaction_time: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+      });
+    }
+    filledFor.current = key;
+  }, [transfer, transferId, defaultFromWalletId, editableWallets, open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    if (!formData.from_wallet_id || !formData.to_wallet_id) {
+      toast({
+        title: "Missing information",
+        description: "Please choose both wallets",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (formData.from_wallet_id === formData.to_wallet_id) {
+      toast({
+        title: "Invalid transfer",
+        description: "Choose two different wallets",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const amount = Math.abs(parseFloat(formData.amount));
+      const fee = formData.fee ? Math.abs(parseFloat(formData.fee)) : 0;
+      if (isNaN(amount) || amount === 0 || isNaN(fee)) {
+        throw new Error("Invalid amount");
+      }
+      const toAmount = formData.to_amount
+        ? Math.abs(parseFloat(formData.to_amount))
+        : converted !== null
+          ? Math.round(converted * 100) / 100
+          : NaN;
+      if (crossCurrency && (isNaN(toAmount) || toAmount === 0)) {
+        throw new Error(`Enter the amount received in ${toCurrency}`);
+      }
+
+      const params = {
+        from_wallet_id: parseInt(formData.from_wallet_id),
+        to_wallet_id: parseInt(formData.to_wallet_id),
+        amount,
+        ...(crossCurrency
+          ? { to_amount: toAmount, original_currency: fromCurrency, original_amount: amount }
+          : { to_amount: null, original_currency: null, original_amount: null }),
+        fee,
+        note: formData.note || undefined,
+        transaction_time: new Date(formData.transaction_time).toISOString(),
+      };
+
+      if (isEditing && transferId) {
+        await updateTransferMutation.mutateAsync({ transferId, params });
+        toast({ title: "Transfer updated" });
+      } else {
+        await createTransferMutation.mutateAsync({ ...params, user_id: currentUser.user_id });
+        toast({ title: "Transfer added" });
+      }
+
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!transferId) return;
+
+    setIsSubmitting(true);
+    try {
+      await deleteTransferMutation.mutateAsync(transferId);
+      toast({ title: "Transfer deleted" });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to delete",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+      setShowDeleteConfirm(false);
+    }
+  };
+
+  const walletChoices = readOnly ? wallets : editableWallets;
+  const renderWalletSelect = (field: "from_wallet_id" | "to_wallet_id", placeholder: string) => (
+    <Select
+      value={formData[field]}
+      onValueChange={(value) => setFormData({ ...formData, [field]: value })}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {walletChoices.map((wallet) => (
+          <SelectItem key={wallet.wallet_id} value={wallet.wallet_id.toString()}>
+            {wallet.icon} {wallet.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {readOnly ? "Transfer" : isEditing ? "Edit Transfer" : "Transfer Between Wallets"}
+            </DialogTitle>
+          </DialogHeader>
+
+          {isEditing && isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <fieldset disabled={readOnly} className="space-y-4">
+                {/* Wallets */}
+                <div className="space-y-2">
+                  <Label>From</Label>
+                  {renderWalletSelect("from_wallet_id", "Source wallet")}
+                  <div className="flex justify-center">
+                    <ArrowDown className="h-4 w-4 text-muted-foreground" />
+                  </div>
+                  <Label>To</Label>
+                  {renderWalletSelect("to_wallet_id", "Destination wallet")}
+                </div>
+
+                {/* Amount */}
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <Banknote className="h-4 w-4 text-muted-foreground" />
+                    Amount ({fromCurrency})
+                  </Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    placeholder="0.00"
+                    value={formData.amount}
+                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    className="text-2xl font-bold h-14"
+                    required
+                  />
+                </div>
+
+                {crossCurrency && (
+                  <div className="space-y-2">
+                    <Label>Received ({toCurrency})</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      placeholder={converted !== null ? converted.toFixed(2) : "0.00"}
+                      value={formData.to_amount}
+                      onChange={(e) => setFormData({ ...formData, to_amount: e.target.value })}
+                      required={converted === null}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {converted !== null
+                        ? "Converted with your exchange rates unless you enter what arrived"
+                        : `No rate between ${fromCurrency} and ${toCurrency}: enter what arrived`}
+                    </p>
+                  </div>
+                )}
+
+                {/* Fee */}
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <Receipt className="h-4 w-4 text-muted-foreground" />
+                    Fee (Optional)
+                  </Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    placeholder="0.00"
+                    value={formData.fee}
+                    onChange={(e) => setFormData({ ...formData, fee: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Recorded as an expense in the source wallet
+                  </p>
+                </div>
+
+                {/* Date/Time */}
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <Calendar className="h-4 w-4 text-muted-foreground" />
+                    Date & Time
+                  </Label>
+                  <Input
+                    type="datetime-local"
+                    value={formData.transaction_time}
+                    onChange={(e) => setFormData({ ...formData, transaction_time: e.target.value })}
+                  />
+                </div>
+
+                {/* Note */}
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <FileText className="h-4 w-4 text-muted-foreground" />
+                    Note (Optional)
+                  </Label>
+                  <Textarea
+                    placeholder="Add a note..."
+                    value={formData.note}
+                    onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+              </fieldset>
+
+              {readOnly ? (
+                <p className="text-sm text-muted-foreground pt-4">
+                  You can view this transfer but not change it.
+                </p>
+              ) : (
+                <DialogFooter className="flex gap-2 pt-4">
+                  {isEditing && (
+                    <Button
+                      type="button"
+                      variant="destructive"
+                      onClick={() => setShowDeleteConfirm(true)}
+                      disabled={isSubmitting}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button type="submit" className="flex-1" disabled={isSubmitting}>
+                    {isSubmitting ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : isEditing ? (
+                      "Save Changes"
+                    ) : (
+                      "Transfer"
+                    )}
+                  </Button>
+                </DialogFooter>
+              )}
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Transfer?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Both sides of the transfer and its fee will be removed. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
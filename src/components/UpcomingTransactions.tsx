@@ -0,0 +1,157 @@
+import { useState, useMemo } from "react";
+import { addDays, format } from "date-fns";
+import { RecurringTransaction } from "@/lib/api";
+import { getCategoryKind, kindFlow } from "@/lib/classification";
+import { formatMoney, walletCurrency } from "@/lib/currency";
+import { describeRule, findException, pendingOccurrences, updateException } from "@/lib/recurring";
+import { useApp } from "@/hooks/useApp";
+import { useRecurringTransactions, useUpdateRecurringTransaction } from "@/hooks/queries";
+import RecurringDialog from "./RecurringDialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, ChevronDown, MoreVertical } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const UPCOMING_DAYS = 30;
+const COLLAPSED_COUNT = 3;
+
+interface Occurrence {
+  rule: RecurringTransaction;
+  date: Date;
+}
+
+export default function UpcomingTransactions() {
+  const { selectedWallet } = useApp();
+  const { toast } = useToast();
+  const { data: rules = [] } = useRecurringTransactions();
+  const updateRecurringMutation = useUpdateRecurringTransaction();
+  const [expanded, setExpanded] = useState(false);
+  const [editing, setEditing] = useState<{ rule: RecurringTransaction; date: Date | null } | null>(
+    null
+  );
+
+  const upcoming = useMemo(() => {
+    const now = new Date();
+    const horizon = addDays(now, UPCOMING_DAYS);
+    return rules
+      .filter((rule) => rule.wallet_id === selectedWallet?.wallet_id)
+      .flatMap((rule) =>
+        pendingOccurrences(rule, horizon)
+          .filter((date) => date > now)
+          .map((date): Occurrence => ({ rule, date }))
+      )
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }, [rules, selectedWallet]);
+
+  if (upcoming.length === 0) return null;
+
+  const visible = expanded ? upcoming : upcoming.slice(0, COLLAPSED_COUNT);
+
+  const toggleSkip = async ({ rule, date }: Occurrence) => {
+    const exception = findException(rule, date);
+    const skip = !exception?.skip;
+    try {
+      await updateRecurringMutation.mutateAsync({
+        recurringId: rule.recurring_id,
+        params: {
+          exceptions: updateException(rule, date, { ...exception, skip }),
+        },
+      });
+      toast({ title: skip ? "Occurrence skipped" : "Occurrence restored" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Something went wrong",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2 mb-4">
+      <div className="flex items-center justify-between px-1">
+        <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide flex items-center gap-1">
+          <CalendarClock className="h-3 w-3" />
+          Upcoming
+        </p>
+        {upcoming.length > COLLAPSED_COUNT && (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="text-xs text-muted-foreground flex items-center gap-1 hover:text-foreground"
+          >
+            {expanded ? "Show less" : `Show all ${upcoming.length}`}
+            <ChevronDown className={cn("h-3 w-3 transition-transform", expanded && "rotate-180")} />
+          </button>
+        )}
+      </div>
+
+      {visible.map((occurrence) => {
+        const { rule, date } = occurrence;
+        const exception = findException(rule, date);
+        const amount = exception?.amount ?? rule.amount;
+        const isIncome = kindFlow(rule.kind || getCategoryKind(rule.category)) === "in";
+        return (
+          <div
+            key={`${rule.recurring_id}-${date.getTime()}`}
+            className={cn(
+              "flex items-center gap-3 p-3 bg-card/60 border border-dashed border-border rounded-xl",
+              exception?.skip && "opacity-60"
+            )}
+          >
+            <div className="flex items-center justify-center w-11 h-11 rounded-xl text-xl bg-muted">
+              {rule.category?.icon || "🔁"}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-foreground truncate">
+                {rule.category?.name || "Recurring"}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {format(date, "EEE, MMM d")} · {describeRule(rule)}
+              </p>
+            </div>
+            <p
+              className={cn(
+                "font-semibold tabular-nums",
+                isIncome ? "text-income" : "text-expense",
+                exception?.skip && "line-through"
+              )}
+            >
+              {isIncome ? "+" : "-"}
+              {formatMoney(Math.abs(amount), walletCurrency(selectedWallet))}
+            </p>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className="p-1 text-muted-foreground hover:text-foreground">
+                  <MoreVertical className="h-4 w-4" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => toggleSkip(occurrence)}>
+                  {exception?.skip ? "Don't skip" : "Skip this time"}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setEditing({ rule, date })}>
+                  Edit this occurrence
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setEditing({ rule, date: null })}>
+                  Edit series
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        );
+      })}
+
+      <RecurringDialog
+        open={!!editing}
+        onClose={() => setEditing(null)}
+        rule={editing?.rule ?? null}
+        occurrence={editing?.date}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { registerServiceWorker } from "@/lib/serviceWorker";
+
+export default function UpdatePrompt() {
+  useEffect(() => {
+    registerServiceWorker((applyUpdate) => {
+      toast("A new version is available", {
+        description: "Reload to get the latest features and fixes.",
+        duration: Infinity,
+        action: { label: "Reload", onClick: applyUpdate },
+      });
+    });
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,394 @@
+import { useState, useMemo } from "react";
+import { User } from "@/lib/api";
+import { USER_TYPES, isActive, isAdmin, userTypeLabel } from "@/lib/users";
+import { useApp } from "@/hooks/useApp";
+import { useUsers, useCreateUser, useUpdateUser } from "@/hooks/queries";
+import UserWalletsDialog from "./UserWalletsDialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Pencil, Loader2, Search, ShieldCheck, UserX, UserCheck, Wallet } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const EMPTY_FORM = {
+  username: "",
+  name: "",
+  email: "",
+  password: "",
+  user_type: "user",
+  wallet_name: "Main Wallet",
+  wallet_group_name: "",
+  create_categories: true,
+};
+
+export default function UserManager() {
+  const { currentUser } = useApp();
+  const { toast } = useToast();
+  const { data: users = [], isLoading } = useUsers();
+  const createUserMutation = useCreateUser();
+  const updateUserMutation = useUpdateUser();
+  const [search, setSearch] = useState("");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [walletsUser, setWalletsUser] = useState<User | null>(null);
+  const [toggleUser, setToggleUser] = useState<User | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const filtered = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    return users
+      .filter((u) =>
+        [u.name, u.username, u.email].some((value) => value?.toLowerCase().includes(needle))
+      )
+      .sort((a, b) => Number(isActive(b)) - Number(isActive(a)) || a.name.localeCompare(b.name));
+  }, [users, search]);
+
+  const isSelf = (user: User | null) => !!user && user.user_id === currentUser?.user_id;
+
+  const openNewUser = () => {
+    setEditingUser(null);
+    setFormData(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const openEditUser = (user: User) => {
+    setEditingUser(user);
+    setFormData({
+      ...EMPTY_FORM,
+      username: user.username,
+      name: user.name,
+      email: user.email,
+      user_type: user.user_type,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.password && formData.password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: "Password too short",
+        description: `Use at least ${MIN_PASSWORD_LENGTH} characters.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsSubmitting(true);
+
+    try {
+      if (editingUser) {
+        await updateUserMutation.mutateAsync({
+          userId: editingUser.user_id,
+          params: {
+            username: formData.username,
+            name: formData.name,
+            email: formData.email,
+            user_type: formData.user_type,
+            // Left empty to keep the current password.
+            ...(formData.password && { password: formData.password }),
+          },
+        });
+        toast({ title: "User updated" });
+      } else {
+        await createUserMutation.mutateAsync({
+          ...formData,
+          wallet_group_name: formData.wallet_group_name || formData.name,
+        });
+        toast({ title: "User created" });
+      }
+      setIsDialogOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleActive = async () => {
+    if (!toggleUser) return;
+    setIsSubmitting(true);
+
+    try {
+      const active = !isActive(toggleUser);
+      await updateUserMutation.mutateAsync({
+        userId: toggleUser.user_id,
+        params: { is_active: active },
+      });
+      toast({ title: active ? "User reactivated" : "User deactivated" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+      setToggleUser(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Users</h2>
+        <Button size="sm" onClick={openNewUser}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add User
+        </Button>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search users"
+          className="pl-9"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">Nobody matches your search</div>
+      ) : (
+        <div className="space-y-2 pb-24">
+          {filtered.map((user) => (
+            <div
+              key={user.user_id}
+              className={cn(
+                "flex items-center gap-3 p-3 bg-card rounded-xl shadow-card",
+                !isActive(user) && "opacity-60"
+              )}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate flex items-center gap-1.5">
+                  {user.name}
+                  {isAdmin(user) && <ShieldCheck className="h-4 w-4 text-primary shrink-0" />}
+                  {isSelf(user) && <span className="text-xs text-muted-foreground">(you)</span>}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  @{user.username} · {userTypeLabel(user.user_type)}
+                  {!isActive(user) && " · Deactivated"}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setWalletsUser(user)}
+                  title="Wallets"
+                >
+                  <Wallet className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => openEditUser(user)} title="Edit">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                {!isSelf(user) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setToggleUser(user)}
+                    title={isActive(user) ? "Deactivate" : "Reactivate"}
+                  >
+                    {isActive(user) ? (
+                      <UserX className="h-4 w-4 text-destructive" />
+                    ) : (
+                      <UserCheck className="h-4 w-4" />
+                    )}
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* User Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingUser ? "Edit User" : "New User"}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Username</Label>
+                <Input
+                  value={formData.username}
+                  onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+                  autoCapitalize="none"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Email</Label>
+              <Input
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{editingUser ? "New Password (Optional)" : "Password"}</Label>
+              <Input
+                type="password"
+                value={formData.password}
+                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                autoComplete="new-password"
+                required={!editingUser}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={formData.user_type}
+                onValueChange={(user_type) => setFormData({ ...formData, user_type })}
+                disabled={isSelf(editingUser)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_TYPES.map(({ type, label }) => (
+                    <SelectItem key={type} value={type}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isSelf(editingUser) && (
+                <p className="text-xs text-muted-foreground">
+                  You can't change your own role.
+                </p>
+              )}
+            </div>
+
+            {!editingUser && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label>First Wallet</Label>
+                    <Input
+                      value={formData.wallet_name}
+                      onChange={(e) => setFormData({ ...formData, wallet_name: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Wallet Group</Label>
+                    <Input
+                      value={formData.wallet_group_name}
+                      onChange={(e) =>
+                        setFormData({ ...formData, wallet_group_name: e.target.value })
+                      }
+                      placeholder={formData.name || "Their name"}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="user-categories">Create default categories</Label>
+                  <Switch
+                    id="user-categories"
+                    checked={formData.create_categories}
+                    onCheckedChange={(create_categories) =>
+                      setFormData({ ...formData, create_categories })
+                    }
+                  />
+                </div>
+              </>
+            )}
+
+            <DialogFooter>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : editingUser ? (
+                  "Save Changes"
+                ) : (
+                  "Create User"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <UserWalletsDialog user={walletsUser} onClose={() => setWalletsUser(null)} />
+
+      {/* Deactivate Confirmation */}
+      <AlertDialog open={!!toggleUser} onOpenChange={() => setToggleUser(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {toggleUser && isActive(toggleUser) ? "Deactivate User?" : "Reactivate User?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {toggleUser && isActive(toggleUser)
+                ? `${toggleUser.name} will no longer be able to sign in. Their wallets and ` +
+                  "transactions are kept."
+                : `${toggleUser?.name} will be able to sign in again.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleToggleActive} disabled={isSubmitting}>
+              {toggleUser && isActive(toggleUser) ? "Deactivate" : "Reactivate"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { User } from "@/lib/api";
+import { formatMoney, walletCurrency } from "@/lib/currency";
+import { useUserWallets } from "@/hooks/queries";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface UserWalletsDialogProps {
+  user: User | null;
+  onClose: () => void;
+}
+
+export default function UserWalletsDialog({ user, onClose }: UserWalletsDialogProps) {
+  const { data: wallets = [], isLoading } = useUserWallets(user?.user_id);
+
+  return (
+    <Dialog open={!!user} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{user?.name}'s Wallets</DialogTitle>
+          <DialogDescription>@{user?.username}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : wallets.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">No wallets</p>
+        ) : (
+          <div className="space-y-2">
+            {wallets.map((wallet) => (
+              <div
+                key={wallet.wallet_id}
+                className={cn(
+                  "flex items-center gap-3 p-3 rounded-xl border",
+                  !wallet.is_enabled && "opacity-60"
+                )}
+              >
+                <span className="text-xl">{wallet.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{wallet.name}</p>
+                  {!wallet.is_enabled && <p className="text-xs text-muted-foreground">Disabled</p>}
+                </div>
+                <span className="font-semibold tabular-nums">
+                  {formatMoney(wallet.balance, walletCurrency(wallet))}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
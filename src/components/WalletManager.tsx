@@ -1,6 +1,7 @@
 import { useState } from "react";
-import { Wallet, createWallet, updateWallet, deleteWallet } from "@/lib/api";
+import { Wallet } from "@/lib/api";
 import { useApp } from "@/hooks/useApp";
+import { useCreateWallet, useUpdateWallet, useDeleteWallet } from "@/hooks/queries";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -22,30 +23,58 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import TransferDialog from "./TransferDialog";
+import ExportMenu from "./ExportMenu";
+import WalletMembersDialog from "./WalletMembersDialog";
+import ReconcileDialog from "./ReconcileDialog";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Pencil, Trash2, Loader2 } from "lucide-react";
+import { Plus, Pencil, Trash2, Loader2, ArrowLeftRight, Download, Users, Star, Scale } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { exportFileName } from "@/lib/export";
+import { COMMON_CURRENCIES, DEFAULT_CURRENCY, formatMoney, netWorth, walletCurrency } from "@/lib/currency";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { canEdit, canManage, isShared, roleLabel, walletRole } from "@/lib/members";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 const WALLET_ICONS = ["💰", "💵", "💳", "🏦", "💎", "🪙", "📊", "🎯", "🏠", "🚗"];
 
 export default function WalletManager() {
-  const { wallets, selectedWallet, setSelectedWallet, refreshWallets } = useApp();
+  const { wallets, selectedWallet, setSelectedWallet, currentUser, setDefaultWallet } = useApp();
   const { toast } = useToast();
+  const createWalletMutation = useCreateWallet();
+  const updateWalletMutation = useUpdateWallet();
+  const deleteWalletMutation = useDeleteWallet();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingWallet, setEditingWallet] = useState<Wallet | null>(null);
   const [deleteWalletId, setDeleteWalletId] = useState<number | null>(null);
+  const [membersWalletId, setMembersWalletId] = useState<number | null>(null);
+  const [reconcileWalletId, setReconcileWalletId] = useState<number | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showTransferDialog, setShowTransferDialog] = useState(false);
+  const { table: rates } = useExchangeRates();
+  const worth = netWorth(wallets, rates);
+  // Looked up on each render so a role change shows up while the dialog is open.
+  const membersWallet = wallets.find((w) => w.wallet_id === membersWalletId) || null;
+  const reconcileWallet = wallets.find((w) => w.wallet_id === reconcileWalletId) || null;
   
   const [formData, setFormData] = useState({
     name: "",
     icon: "💰",
     balance: "0",
+    currency: DEFAULT_CURRENCY,
     is_enabled: true,
   });
 
   const openNewWallet = () => {
     setEditingWallet(null);
-    setFormData({ name: "", icon: "💰", balance: "0", is_enabled: true });
+    // New wallets default to the currency net worth is counted in.
+    setFormData({ name: "", icon: "💰", balance: "0", currency: rates.base, is_enabled: true });
     setIsDialogOpen(true);
   };
 
@@ -55,6 +84,7 @@ export default function WalletManager() {
       name: wallet.name,
       icon: wallet.icon,
       balance: wallet.balance.toString(),
+      currency: walletCurrency(wallet),
       is_enabled: wallet.is_enabled,
     });
     setIsDialogOpen(true);
@@ -67,25 +97,30 @@ export default function WalletManager() {
     try {
       const balance = parseFloat(formData.balance) || 0;
 
+      // The balance of an existing wallet follows its transactions; it is
+      // corrected by reconciling, not overwritten here.
       if (editingWallet) {
-        await updateWallet(editingWallet.wallet_id, {
-          name: formData.name,
-          icon: formData.icon,
-          balance,
-          is_enabled: formData.is_enabled,
+        await updateWalletMutation.mutateAsync({
+          walletId: editingWallet.wallet_id,
+          params: {
+            name: formData.name,
+            icon: formData.icon,
+            currency: formData.currency,
+            is_enabled: formData.is_enabled,
+          },
         });
         toast({ title: "Wallet updated" });
       } else {
-        await createWallet({
+        await createWalletMutation.mutateAsync({
           name: formData.name,
           icon: formData.icon,
           balance,
+          currency: formData.currency,
           is_enabled: formData.is_enabled,
         });
         toast({ title: "Wallet created" });
       }
 
-      await refreshWallets();
       setIsDialogOpen(false);
     } catch (error: any) {
       toast({
@@ -98,14 +133,31 @@ export default function WalletManager() {
     }
   };
 
+  const isDefaultWallet = (wallet: Wallet) => currentUser?.default_wallet_id === wallet.wallet_id;
+
+  const handleToggleDefault = async (wallet: Wallet) => {
+    const isDefault = isDefaultWallet(wallet);
+    try {
+      await setDefaultWallet(isDefault ? null : wallet.wallet_id);
+      toast({
+        title: isDefault ? "Default wallet cleared" : `${wallet.name} is now your default wallet`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Something went wrong",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDelete = async () => {
     if (!deleteWalletId) return;
     setIsSubmitting(true);
 
     try {
-      await deleteWallet(deleteWalletId);
+      await deleteWalletMutation.mutateAsync(deleteWalletId);
       toast({ title: "Wallet deleted" });
-      await refreshWallets();
       if (selectedWallet?.wallet_id === deleteWalletId) {
         setSelectedWallet(null);
       }
@@ -125,12 +177,32 @@ export default function WalletManager() {
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h2 className="text-lg font-semibold">Wallets</h2>
-        <Button size="sm" onClick={openNewWallet}>
-          <Plus className="h-4 w-4 mr-1" />
-          Add Wallet
-        </Button>
+        <div className="flex gap-2">
+          {wallets.filter(canEdit).length > 1 && (
+            <Button size="sm" variant="outline" onClick={() => setShowTransferDialog(true)}>
+              <ArrowLeftRight className="h-4 w-4 mr-1" />
+              Transfer
+            </Button>
+          )}
+          <Button size="sm" onClick={openNewWallet}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Wallet
+          </Button>
+        </div>
       </div>
 
+      {wallets.length > 0 && (
+        <div className="p-4 bg-card rounded-xl shadow-card">
+          <p className="text-sm text-muted-foreground">Net worth</p>
+          <p className="text-2xl font-bold tabular-nums">{formatMoney(worth.total, rates.base)}</p>
+          {worth.missing.length > 0 && (
+            <p className="text-xs text-destructive">
+              Leaves out {worth.missing.join(", ")} wallets: add exchange rates in Settings
+            </p>
+          )}
+        </div>
+      )}
+
       <div className="space-y-2">
         {wallets.map((wallet) => (
           <div
@@ -145,26 +217,72 @@ export default function WalletManager() {
               {wallet.icon}
             </div>
             <div className="flex-1">
-              <p className="font-medium">{wallet.name}</p>
+              <p className="font-medium flex items-center gap-1.5">
+                {wallet.name}
+                {isShared(wallet) && (
+                  <span className="text-xs font-normal text-muted-foreground">
+                    · Shared{!canManage(wallet) && `, ${roleLabel(walletRole(wallet)).toLowerCase()}`}
+                  </span>
+                )}
+              </p>
               <p className="text-lg font-bold text-primary">
-                ${wallet.balance.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                {formatMoney(wallet.balance, walletCurrency(wallet))}
               </p>
             </div>
             <div className="flex gap-1">
               <Button
                 variant="ghost"
                 size="icon"
-                onClick={() => openEditWallet(wallet)}
+                onClick={() => handleToggleDefault(wallet)}
+                aria-label={isDefaultWallet(wallet) ? "Default wallet" : "Make default wallet"}
+                title={isDefaultWallet(wallet) ? "Opens when you start the app" : "Make default wallet"}
               >
-                <Pencil className="h-4 w-4" />
+                <Star
+                  className={cn("h-4 w-4", isDefaultWallet(wallet) && "fill-primary text-primary")}
+                />
               </Button>
+              {canEdit(wallet) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setReconcileWalletId(wallet.wallet_id)}
+                  aria-label="Reconcile"
+                  title="Reconcile"
+                >
+                  <Scale className="h-4 w-4" />
+                </Button>
+              )}
+              <ExportMenu walletId={wallet.wallet_id} fileName={exportFileName(wallet.name)}>
+                <Button variant="ghost" size="icon" aria-label="Export">
+                  <Download className="h-4 w-4" />
+                </Button>
+              </ExportMenu>
               <Button
                 variant="ghost"
                 size="icon"
-                onClick={() => setDeleteWalletId(wallet.wallet_id)}
+                onClick={() => setMembersWalletId(wallet.wallet_id)}
+                aria-label="Members"
               >
-                <Trash2 className="h-4 w-4 text-destructive" />
+                <Users className="h-4 w-4" />
               </Button>
+              {canManage(wallet) && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => openEditWallet(wallet)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDeleteWalletId(wallet.wallet_id)}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </>
+              )}
             </div>
           </div>
         ))}
@@ -218,16 +336,60 @@ export default function WalletManager() {
             </div>
 
             <div className="space-y-2">
-              <Label>Initial Balance</Label>
-              <Input
-                type="number"
-                step="0.01"
-                value={formData.balance}
-                onChange={(e) => setFormData({ ...formData, balance: e.target.value })}
-                placeholder="0.00"
-              />
+              <Label>Currency</Label>
+              <Select
+                value={formData.currency}
+                onValueChange={(currency) => setFormData({ ...formData, currency })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...new Set([...COMMON_CURRENCIES, formData.currency])].map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {editingWallet && formData.currency !== walletCurrency(editingWallet) && (
+                <p className="text-xs text-muted-foreground">
+                  Existing amounts are kept as they are, not converted.
+                </p>
+              )}
             </div>
 
+            {editingWallet ? (
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-xs text-muted-foreground">
+                  To correct the balance, reconcile it against your bank statement.
+                </p>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setIsDialogOpen(false);
+                    setReconcileWalletId(editingWallet.wallet_id);
+                  }}
+                >
+                  <Scale className="h-4 w-4 mr-1" />
+                  Reconcile
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Initial Balance</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={formData.balance}
+                  onChange={(e) => setFormData({ ...formData, balance: e.target.value })}
+                  placeholder="0.00"
+                />
+              </div>
+            )}
+
             <div className="flex items-center justify-between">
               <Label>Enabled</Label>
               <Switch
@@ -253,13 +415,24 @@ export default function WalletManager() {
         </DialogContent>
       </Dialog>
 
+      <TransferDialog
+        open={showTransferDialog}
+        onClose={() => setShowTransferDialog(false)}
+        defaultFromWalletId={selectedWallet?.wallet_id}
+      />
+
+      <WalletMembersDialog wallet={membersWallet} onClose={() => setMembersWalletId(null)} />
+
+      <ReconcileDialog wallet={reconcileWallet} onClose={() => setReconcileWalletId(null)} />
+
       {/* Delete Confirmation */}
       <AlertDialog open={!!deleteWalletId} onOpenChange={() => setDeleteWalletId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Wallet?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will delete the wallet and all associated transactions. This action cannot be undone.
+              This will delete the wallet and all associated transactions for everyone it is
+              shared with. This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { Wallet, WalletMember, WalletRole } from "@/lib/api";
+import { WALLET_ROLES, canManage, isLastOwner, memberName, roleLabel } from "@/lib/members";
+import { useApp } from "@/hooks/useApp";
+import {
+  useWalletMembers,
+  useAddWalletMember,
+  useUpdateWalletMember,
+  useRemoveWalletMember,
+} from "@/hooks/queries";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, LogOut, Trash2, UserPlus } from "lucide-react";
+
+interface WalletMembersDialogProps {
+  wallet: Wallet | null;
+  onClose: () => void;
+}
+
+export default function WalletMembersDialog({ wallet, onClose }: WalletMembersDialogProps) {
+  const { users, currentUser, selectedWallet, setSelectedWallet } = useApp();
+  const { toast } = useToast();
+  const { data: members = [], isLoading } = useWalletMembers(wallet?.wallet_id);
+  const addMemberMutation = useAddWalletMember();
+  const updateMemberMutation = useUpdateWalletMember();
+  const removeMemberMutation = useRemoveWalletMember();
+  const [identifier, setIdentifier] = useState("");
+  const [role, setRole] = useState<WalletRole>("editor");
+  const [removingMember, setRemovingMember] = useState<WalletMember | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isOwner = canManage(wallet);
+  const isSelf = (member: WalletMember | null) =>
+    !!member && member.user_id === currentUser?.user_id;
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: (error as Error).message || "Something went wrong",
+      variant: "destructive",
+    });
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!wallet || !identifier.trim()) return;
+    setIsSubmitting(true);
+
+    try {
+      await addMemberMutation.mutateAsync({
+        walletId: wallet.wallet_id,
+        params: { identifier: identifier.trim(), role },
+      });
+      toast({ title: "Member added" });
+      setIdentifier("");
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: WalletMember, nextRole: WalletRole) => {
+    try {
+      await updateMemberMutation.mutateAsync({
+        walletId: member.wallet_id,
+        userId: member.user_id,
+        params: { role: nextRole },
+      });
+      toast({ title: `${memberName(member, users)} is now ${roleLabel(nextRole).toLowerCase()}` });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removingMember) return;
+    setIsSubmitting(true);
+
+    try {
+      await removeMemberMutation.mutateAsync({
+        walletId: removingMember.wallet_id,
+        userId: removingMember.user_id,
+      });
+      if (isSelf(removingMember)) {
+        toast({ title: "You left the wallet" });
+        if (selectedWallet?.wallet_id === removingMember.wallet_id) setSelectedWallet(null);
+        onClose();
+      } else {
+        toast({ title: "Member removed" });
+      }
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSubmitting(false);
+      setRemovingMember(null);
+    }
+  };
+
+  const self = members.find((member) => isSelf(member)) || null;
+
+  return (
+    <>
+      <Dialog open={!!wallet} onOpenChange={(o) => !o && onClose()}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {wallet?.icon} {wallet?.name} Members
+            </DialogTitle>
+            <DialogDescription>
+              {isOwner
+                ? "Invite people to this wallet and choose what they can do"
+                : "People who share this wallet"}
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {members.map((member) => (
+                <div key={member.user_id} className="flex items-center gap-3 p-3 rounded-xl border">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">
+                      {memberName(member, users)}
+                      {isSelf(member) && (
+                        <span className="ml-1.5 text-xs text-muted-foreground">(you)</span>
+                      )}
+                    </p>
+                    {member.user && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        @{member.user.username}
+                      </p>
+                    )}
+                  </div>
+                  {isOwner && !isLastOwner(member, members) ? (
+                    <>
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => handleRoleChange(member, value as WalletRole)}
+                      >
+                        <SelectTrigger className="w-28 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {WALLET_ROLES.map(({ role, label }) => (
+                            <SelectItem key={role} value={role}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {!isSelf(member) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => setRemovingMember(member)}
+                          aria-label="Remove"
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">{roleLabel(member.role)}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {isOwner && (
+            <form onSubmit={handleInvite} className="space-y-2 pt-2">
+              <Label>Invite</Label>
+              <div className="flex gap-2">
+                <Input
+                  value={identifier}
+                  onChange={(e) => setIdentifier(e.target.value)}
+                  placeholder="Username or email"
+                  autoCapitalize="none"
+                />
+                <Select value={role} onValueChange={(value) => setRole(value as WalletRole)}>
+                  <SelectTrigger className="w-28 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WALLET_ROLES.map(({ role, label }) => (
+                      <SelectItem key={role} value={role}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="submit"
+                  size="icon"
+                  className="shrink-0"
+                  disabled={isSubmitting || !identifier.trim()}
+                  aria-label="Invite"
+                >
+                  {isSubmitting ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <UserPlus className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {WALLET_ROLES.find((r) => r.role === role)?.description}
+              </p>
+            </form>
+          )}
+
+          {self && !isLastOwner(self, members) && (
+            <Button variant="outline" onClick={() => setRemovingMember(self)}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Leave Wallet
+            </Button>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!removingMember} onOpenChange={() => setRemovingMember(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {isSelf(removingMember) ? "Leave Wallet?" : "Remove Member?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {isSelf(removingMember)
+                ? `You will no longer see ${wallet?.name}. An owner can invite you again.`
+                : `${removingMember && memberName(removingMember, users)} will no longer see ` +
+                  `${wallet?.name}. Transactions they added are kept.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRemove}
+              disabled={isSubmitting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isSelf(removingMember) ? "Leave" : "Remove"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,4 +1,5 @@
 import { useApp } from "@/hooks/useApp";
+import { formatMoney, walletCurrency } from "@/lib/currency";
 import {
   Select,
   SelectContent,
@@ -34,7 +35,7 @@ export default function WalletSelector() {
               <span>{wallet.icon}</span>
               <span>{wallet.name}</span>
               <span className="ml-2 text-muted-foreground text-xs">
-                ${wallet.balance.toLocaleString()}
+                {formatMoney(wallet.balance, walletCurrency(wallet))}
               </span>
             </div>
           </SelectItem>
@@ -0,0 +1,812 @@
+import { useQuery, useQueries, useMutation, useQueryClient, QueryClient, QueryKey } from "@tanstack/react-query";
+import {
+  Transaction,
+  TransactionFilters,
+  CreateTransactionParams,
+  UpdateTransactionParams,
+  BudgetParams,
+  RecurringParams,
+  CreateTransferParams,
+  UpdateTransferParams,
+  getWallets,
+  getWallet,
+  createWallet,
+  updateWallet,
+  deleteWallet,
+  getWalletMembers,
+  addWalletMember,
+  updateWalletMember,
+  removeWalletMember,
+  getUsers,
+  createUser,
+  updateUser,
+  getUserWallets,
+  getCategoryTree,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  getTransactions,
+  getTransaction,
+  createTransaction,
+  getWalletTransactions,
+  getTransfer,
+  createTransfer,
+  updateTransfer,
+  deleteTransfer,
+  getBudgets,
+  createBudget,
+  updateBudget,
+  deleteBudget,
+  getRecurringTransactions,
+  createRecurringTransaction,
+  updateRecurringTransaction,
+  deleteRecurringTransaction,
+  getPersons,
+  createPerson,
+  updatePerson,
+  deletePerson,
+  getReconciliations,
+  createReconciliation,
+  getPreferences,
+  updatePreferences,
+  getSavedViews,
+  createSavedView,
+  updateSavedView,
+  deleteSavedView,
+} from "@/lib/api";
+import {
+  submitCreateTransaction,
+  submitUpdateTransaction,
+  submitDeleteTransaction,
+  previewTransaction,
+  applyTransactionParams,
+} from "@/lib/outbox";
+import { mergePersons } from "@/lib/persons";
+import { ImportRow, importRows } from "@/lib/importer";
+import { matchesFilters } from "@/lib/filters";
+import { ExportFormat, downloadExport, exportRecords } from "@/lib/export";
+import { BackupArchive, RestoreOptions, restoreBackup } from "@/lib/backup";
+import {
+  ADJUSTMENT_CATEGORY,
+  balanceAt,
+  findAdjustmentCategory,
+  roundMoney,
+} from "@/lib/reconcile";
+
+// Query keys are not scoped by server or user: AppProvider clears the whole
+// cache whenever either changes.
+export const queryKeys = {
+  wallets: ["wallets"] as const,
+  walletMembers: (walletId: number) => ["wallets", walletId, "members"] as const,
+  users: ["users"] as const,
+  userWallets: (userId: number) => ["users", userId, "wallets"] as const,
+  categories: ["categories"] as const,
+  categoryTree: (walletId: number) => ["categories", walletId, "tree"] as const,
+  transactions: ["transactions"] as const,
+  transactionList: (filters: TransactionFilters) => ["transactions", filters] as const,
+  // Kept apart from the lists, which the optimistic updates below rewrite.
+  transactionDetails: ["transaction"] as const,
+  transaction: (transactionId: number) => ["transaction", transactionId] as const,
+  transfers: ["transfers"] as const,
+  transfer: (transferId: number) => ["transfers", transferId] as const,
+  budgets: ["budgets"] as const,
+  walletBudgets: (walletId: number) => ["budgets", walletId] as const,
+  recurring: ["recurring"] as const,
+  persons: ["persons"] as const,
+  savedViews: ["savedViews"] as const,
+  preferences: ["preferences"] as const,
+  reconciliations: ["reconciliations"] as const,
+  walletReconciliations: (walletId: number) => ["reconciliations", walletId] as const,
+};
+
+const CATEGORY_STALE_TIME = 5 * 60 * 1000;
+// Also how often the recurring scheduler looks for occurrences that fell due.
+const RECURRING_REFETCH_INTERVAL = 15 * 60 * 1000;
+
+// Queries
+
+export function useWallets(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.wallets,
+    queryFn: async () => (await getWallets()).data || [],
+    enabled,
+  });
+}
+
+export function useWalletMembers(walletId: number | undefined) {
+  return useQuery({
+    queryKey: queryKeys.walletMembers(walletId ?? 0),
+    queryFn: async () => (await getWalletMembers(walletId!)).data || [],
+    enabled: !!walletId,
+  });
+}
+
+export function useUsers(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.users,
+    queryFn: async () => (await getUsers()).data || [],
+    enabled,
+  });
+}
+
+export function usePersons(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.persons,
+    queryFn: async () => (await getPersons()).data || [],
+    enabled,
+  });
+}
+
+export function useUserWallets(userId: number | undefined) {
+  return useQuery({
+    queryKey: queryKeys.userWallets(userId ?? 0),
+    queryFn: async () => (await getUserWallets(userId!)).data || [],
+    enabled: !!userId,
+  });
+}
+
+// Not every server stores views, so a failure just means local views only.
+export function useSavedViews(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.savedViews,
+    queryFn: async () => (await getSavedViews()).data || [],
+    enabled,
+    retry: false,
+  });
+}
+
+// Servers without preferences leave them on this device only.
+export function usePreferences(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.preferences,
+    queryFn: async () => (await getPreferences()).data || null,
+    enabled,
+    retry: false,
+    staleTime: Infinity,
+  });
+}
+
+export function useCategoryTree(walletId: number | undefined) {
+  return useQuery({
+    queryKey: queryKeys.categoryTree(walletId ?? 0),
+    queryFn: async () => (await getCategoryTree(walletId!)).data?.roots || [],
+    enabled: !!walletId,
+    staleTime: CATEGORY_STALE_TIME,
+  });
+}
+
+// Without a wallet this uses the cross-wallet endpoint.
+async function fetchTransactions(filters: TransactionFilters): Promise<Transaction[]> {
+  const { wallet_id, ...rest } = filters;
+  const response = wallet_id
+    ? await getWalletTransactions(wallet_id, rest)
+    : await getTransactions(rest);
+  return response.data || [];
+}
+
+export function useTransactions(filters: TransactionFilters, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.transactionList(filters),
+    queryFn: () => fetchTransactions(filters),
+    enabled,
+  });
+}
+
+// Several transaction lists at once, e.g. one per way a search term can match.
+export function useTransactionLists(filterSets: TransactionFilters[], enabled = true) {
+  return useQueries({
+    queries: filterSets.map((filters) => ({
+      queryKey: queryKeys.transactionList(filters),
+      queryFn: () => fetchTransactions(filters),
+      enabled,
+    })),
+  });
+}
+
+export function useCategoryTrees(walletIds: number[], enabled = true) {
+  return useQueries({
+    queries: walletIds.map((walletId) => ({
+      queryKey: queryKeys.categoryTree(walletId),
+      queryFn: async () => (await getCategoryTree(walletId)).data?.roots || [],
+      enabled,
+      staleTime: CATEGORY_STALE_TIME,
+    })),
+  });
+}
+
+export function useTransaction(transactionId: number | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.transaction(transactionId ?? 0),
+    queryFn: async () => (await getTransaction(transactionId!)).data || null,
+    enabled: !!transactionId,
+    retry: false,
+  });
+}
+
+export function useTransfer(transferId: number | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.transfer(transferId ?? 0),
+    queryFn: async () => (await getTransfer(transferId!)).data,
+    enabled: !!transferId,
+  });
+}
+
+export function useBudgets(walletId: number | undefined) {
+  return useQuery({
+    queryKey: queryKeys.walletBudgets(walletId ?? 0),
+    queryFn: async () => (await getBudgets(walletId!)).data || [],
+    enabled: !!walletId,
+  });
+}
+
+// Not every server keeps reconciliations; without them there is no history.
+export function useReconciliations(walletId: number | undefined) {
+  return useQuery({
+    queryKey: queryKeys.walletReconciliations(walletId ?? 0),
+    queryFn: async () => (await getReconciliations(walletId!)).data || [],
+    enabled: !!walletId,
+    retry: false,
+  });
+}
+
+export function useRecurringTransactions(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.recurring,
+    queryFn: async () => (await getRecurringTransactions()).data || [],
+    enabled,
+    refetchInterval: RECURRING_REFETCH_INTERVAL,
+  });
+}
+
+// Optimistic transaction updates
+
+type TransactionSnapshot = [QueryKey, Transaction[] | undefined][];
+
+async function snapshotTransactions(queryClient: QueryClient): Promise<TransactionSnapshot> {
+  await queryClient.cancelQueries({ queryKey: queryKeys.transactions });
+  return queryClient.getQueriesData<Transaction[]>({ queryKey: queryKeys.transactions });
+}
+
+function restoreTransactions(queryClient: QueryClient, snapshot?: TransactionSnapshot) {
+  snapshot?.forEach(([key, data]) => queryClient.setQueryData(key, data));
+}
+
+function replaceTransaction(
+  queryClient: QueryClient,
+  transactionId: number,
+  next: Transaction | null
+) {
+  queryClient.setQueriesData<Transaction[]>({ queryKey: queryKeys.transactions }, (list) =>
+    Array.isArray(list)
+      ? list
+          .map((t) => (t.transaction_id === transactionId ? next : t))
+          .filter((t): t is Transaction => t !== null)
+      : list
+  );
+}
+
+function invalidateTransactions(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+  queryClient.invalidateQueries({ queryKey: queryKeys.transactionDetails });
+  // Balances are computed server-side from transactions.
+  queryClient.invalidateQueries({ queryKey: queryKeys.wallets });
+}
+
+// Transaction mutations go through the offline outbox, so they resolve with
+// `queued: true` instead of failing when the network is unavailable.
+
+export function useCreateTransaction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ params, preview }: { params: CreateTransactionParams; preview?: Partial<Transaction> }) =>
+      submitCreateTransaction(params, preview),
+    onMutate: async ({ params, preview }) => {
+      const snapshot = await snapshotTransactions(queryClient);
+      const optimistic = previewTransaction(params, -Date.now(), preview);
+      snapshot.forEach(([key, list]) => {
+        const filters = key[1] as TransactionFilters | undefined;
+        if (Array.isArray(list) && filters && matchesFilters(optimistic, filters)) {
+          queryClient.setQueryData<Transaction[]>(key, [optimistic, ...list]);
+        }
+      });
+      return { snapshot, optimisticId: optimistic.transaction_id };
+    },
+    onSuccess: (result, _vars, context) => {
+      replaceTransaction(queryClient, context.optimisticId, result.transaction);
+    },
+    onError: (_error, _vars, context) => restoreTransactions(queryClient, context?.snapshot),
+    onSettled: () => invalidateTransactions(queryClient),
+  });
+}
+
+export function useUpdateTransaction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      transaction,
+      params,
+      preview,
+    }: {
+      transaction: Transaction;
+      params: UpdateTransactionParams;
+      preview?: Partial<Transaction>;
+    }) => submitUpdateTransaction(transaction, params, preview),
+    onMutate: async ({ transaction, params, preview }) => {
+      const snapshot = await snapshotTransactions(queryClient);
+      replaceTransaction(queryClient, transaction.transaction_id, {
+        ...applyTransactionParams(transaction, params),
+        ...preview,
+      });
+      return { snapshot };
+    },
+    onError: (_error, _vars, context) => restoreTransactions(queryClient, context?.snapshot),
+    onSettled: () => invalidateTransactions(queryClient),
+  });
+}
+
+export function useDeleteTransaction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (transaction: Transaction) => submitDeleteTransaction(transaction),
+    onMutate: async (transaction) => {
+      const snapshot = await snapshotTransactions(queryClient);
+      replaceTransaction(queryClient, transaction.transaction_id, null);
+      return { snapshot };
+    },
+    onSuccess: (result, _transaction, context) => {
+      // Keep a queued deletion visible so the list can mark it as pending.
+      if (result.queued) restoreTransactions(queryClient, context.snapshot);
+    },
+    onError: (_error, _transaction, context) => restoreTransactions(queryClient, context?.snapshot),
+    onSettled: () => invalidateTransactions(queryClient),
+  });
+}
+
+// Imports bypass the outbox and create transactions directly, one by one.
+export function useImportTransactions() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ rows, toParams, onProgress }: {
+      rows: ImportRow[];
+      toParams: (row: ImportRow) => CreateTransactionParams;
+      onProgress?: (done: number) => void;
+    }) => importRows(rows, toParams, onProgress),
+    onSettled: () => invalidateTransactions(queryClient),
+  });
+}
+
+// Names are resolved from the cached lists, fetching any that aren't loaded
+// yet. Without `transactions` the whole wallet is exported.
+export function useExportTransactions() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ walletId, transactions, format, fileName }: {
+      walletId: number;
+      transactions?: Transaction[];
+      format: ExportFormat;
+      fileName: string;
+    }) => {
+      const [roots, persons, users, wallets, list] = await Promise.all([
+        queryClient.fetchQuery({
+          queryKey: queryKeys.categoryTree(walletId),
+          queryFn: async () => (await getCategoryTree(walletId)).data?.roots || [],
+          staleTime: CATEGORY_STALE_TIME,
+        }),
+        queryClient.fetchQuery({
+          queryKey: queryKeys.persons,
+          queryFn: async () => (await getPersons()).data || [],
+        }),
+        // Servers may restrict the user list; transactions also carry their user.
+        queryClient
+          .fetchQuery({ queryKey: queryKeys.users, queryFn: async () => (await getUsers()).data || [] })
+          .catch(() => []),
+        queryClient.fetchQuery({
+          queryKey: queryKeys.wallets,
+          queryFn: async () => (await getWallets()).data || [],
+        }),
+        transactions || fetchTransactions({ wallet_id: walletId }),
+      ]);
+      const records = exportRecords(list, { roots, persons, users, wallets });
+      await downloadExport(records, format, fileName);
+      return records.length;
+    },
+  });
+}
+
+// A restore touches every list, so the whole cache is refetched afterwards.
+export function useRestoreBackup() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ archive, options, onProgress }: {
+      archive: BackupArchive;
+      options: RestoreOptions;
+      onProgress?: (done: number) => void;
+    }) => restoreBackup(archive, options, onProgress),
+    onSettled: () => queryClient.invalidateQueries(),
+  });
+}
+
+// Transfer mutations. Transfers touch two wallets at once and are not
+// queued offline; the lists are simply refetched once the server answers.
+
+function invalidateTransfers(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.transfers });
+  invalidateTransactions(queryClient);
+}
+
+export function useCreateTransfer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (params: CreateTransferParams) => (await createTransfer(params)).data,
+    onSettled: () => invalidateTransfers(queryClient),
+  });
+}
+
+export function useUpdateTransfer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ transferId, params }: { transferId: number; params: UpdateTransferParams }) =>
+      (await updateTransfer(transferId, params)).data,
+    onSettled: () => invalidateTransfers(queryClient),
+  });
+}
+
+export function useDeleteTransfer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (transferId: number) => deleteTransfer(transferId),
+    onSettled: () => invalidateTransfers(queryClient),
+  });
+}
+
+// Wallet mutations
+
+export function useCreateWallet() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (params: Parameters<typeof createWallet>[0]) => (await createWallet(params)).data,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.wallets }),
+  });
+}
+
+export function useUpdateWallet() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ walletId, params }: { walletId: number; params: Parameters<typeof updateWallet>[1] }) =>
+      (await updateWallet(walletId, params)).data,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.wallets }),
+  });
+}
+
+export function useDeleteWallet() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (walletId: number) => deleteWallet(walletId),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.wallets }),
+  });
+}
+
+// Wallet member mutations. Wallets carry the member count and the caller's
+// role, so they are refetched too; members are keyed under wallets.
+
+export function useAddWalletMember() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ walletId, params }: { walletId: number; params: Parameters<typeof addWalletMember>[1] }) =>
+      (await addWalletMember(walletId, params)).data,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.wallets }),
+  });
+}
+
+export function useUpdateWalletMember() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      walletId,
+      userId,
+      params,
+    }: {
+      walletId: number;
+      userId: number;
+      params: Parameters<typeof updateWalletMember>[2];
+    }) => (await updateWalletMember(walletId, userId, params)).data,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.wallets }),
+  });
+}
+
+export function useRemoveWalletMember() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ walletId, userId }: { walletId: number; userId: number }) =>
+      removeWalletMember(walletId, userId),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.wallets }),
+  });
+}
+
+// Reconciling needs the server: the reconciliation points at the adjustment,
+// so the adjustment skips the offline outbox. The balance is recomputed from
+// fresh data rather than trusting what the dialog showed.
+
+export function useReconcileWallet() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ walletId, userId, statementBalance, reconciledAt, note }: {
+      walletId: number;
+      userId: number;
+      statementBalance: number;
+      reconciledAt: Date;
+      note: string;
+    }) => {
+      // Servers without reconciliation history still get the adjustment; the
+      // check comes first so nothing is written before a request that fails.
+      const [wallet, later, keepsHistory] = await Promise.all([
+        getWallet(walletId),
+        fetchTransactions({ wallet_id: walletId, start_transaction_time: reconciledAt.toISOString() }),
+        queryClient
+          .fetchQuery({
+            queryKey: queryKeys.walletReconciliations(walletId),
+            queryFn: async () => (await getReconciliations(walletId)).data || [],
+            retry: false,
+          })
+          .then(() => true, () => false),
+      ]);
+      if (!wallet.data) throw new Error(wallet.message || "Wallet not found");
+      const computed = balanceAt(wallet.data.balance, later, reconciledAt);
+      const difference = roundMoney(statementBalance - computed);
+
+      let transactionId: number | null = null;
+      if (difference !== 0) {
+        const roots = await queryClient.fetchQuery({
+          queryKey: queryKeys.categoryTree(walletId),
+          queryFn: async () => (await getCategoryTree(walletId)).data?.roots || [],
+          staleTime: CATEGORY_STALE_TIME,
+        });
+        let category = findAdjustmentCategory(roots);
+        if (!category) {
+          const created = await createCategory(walletId, {
+            ...ADJUSTMENT_CATEGORY,
+            parent_id: null,
+            is_global: false,
+            kind: "adjustment",
+          });
+          if (!created.data) throw new Error(created.message || "Could not create the adjustment category");
+          category = created.data;
+        }
+        const adjustment = await createTransaction({
+          wallet_id: walletId,
+          category_id: category.category_id,
+          amount: difference,
+          kind: "adjustment",
+          note,
+          user_id: userId,
+          transaction_time: reconciledAt.toISOString(),
+        });
+        transactionId = adjustment.data?.transaction_id ?? null;
+      }
+
+      if (!keepsHistory) return { reconciliation: null, difference };
+      const reconciliation = await createReconciliation(walletId, {
+        statement_balance: statementBalance,
+        computed_balance: computed,
+        transaction_id: transactionId,
+        reconciled_at: reconciledAt.toISOString(),
+      });
+      return { reconciliation: reconciliation.data, difference };
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.reconciliations });
+      queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+      queryClient.invalidateQueries({ queryKey: queryKeys.wallets });
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories });
+    },
+  });
+}
+
+// Category mutations. Global categories are mirrored into every wallet and
+// transactions embed their category, so all of those are refetched.
+
+function invalidateCategories(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.categories });
+  queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+  queryClient.invalidateQueries({ queryKey: queryKeys.transactionDetails });
+}
+
+export function useCreateCategory(walletId: number | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (params: Parameters<typeof createCategory>[1]) =>
+      (await createCategory(walletId!, params)).data,
+    onSettled: () => invalidateCategories(queryClient),
+  });
+}
+
+export function useUpdateCategory(walletId: number | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      categoryId,
+      params,
+    }: {
+      categoryId: number;
+      params: Parameters<typeof updateCategory>[2];
+    }) => (await updateCategory(walletId!, categoryId, params)).data,
+    onSettled: () => invalidateCategories(queryClient),
+  });
+}
+
+export function useDeleteCategory(walletId: number | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (categoryId: number) => deleteCategory(walletId!, categoryId),
+    onSettled: () => invalidateCategories(queryClient),
+  });
+}
+
+// Budget mutations
+
+export function useCreateBudget(walletId: number | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (params: BudgetParams) => (await createBudget(walletId!, params)).data,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.budgets }),
+  });
+}
+
+export function useUpdateBudget(walletId: number | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ budgetId, params }: { budgetId: number; params: Partial<BudgetParams> }) =>
+      (await updateBudget(walletId!, budgetId, params)).data,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.budgets }),
+  });
+}
+
+export function useDeleteBudget(walletId: number | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (budgetId: number) => deleteBudget(walletId!, budgetId),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.budgets }),
+  });
+}
+
+// Recurring transaction mutations
+
+export function useCreateRecurringTransaction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (params: RecurringParams) => (await createRecurringTransaction(params)).data,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.recurring }),
+  });
+}
+
+export function useUpdateRecurringTransaction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      recurringId,
+      params,
+    }: {
+      recurringId: number;
+      params: Partial<RecurringParams>;
+    }) => (await updateRecurringTransaction(recurringId, params)).data,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.recurring }),
+  });
+}
+
+export function useDeleteRecurringTransaction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (recurringId: number) => deleteRecurringTransaction(recurringId),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.recurring }),
+  });
+}
+
+// User mutations. A new user comes with a wallet, so wallets are refetched too.
+
+export function useCreateUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (params: Parameters<typeof createUser>[0]) => (await createUser(params)).data,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.users });
+      queryClient.invalidateQueries({ queryKey: queryKeys.wallets });
+    },
+  });
+}
+
+export function useUpdateUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ userId, params }: { userId: number; params: Parameters<typeof updateUser>[1] }) =>
+      (await updateUser(userId, params)).data,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.users }),
+  });
+}
+
+// Person mutations. Transactions embed their person, so they are refetched too.
+
+function invalidatePersons(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.persons });
+  queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+  queryClient.invalidateQueries({ queryKey: queryKeys.transactionDetails });
+}
+
+export function useCreatePerson() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (params: Parameters<typeof createPerson>[0]) => (await createPerson(params)).data,
+    onSettled: () => invalidatePersons(queryClient),
+  });
+}
+
+export function useUpdatePerson() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ personId, params }: { personId: number; params: Parameters<typeof updatePerson>[1] }) =>
+      (await updatePerson(personId, params)).data,
+    onSettled: () => invalidatePersons(queryClient),
+  });
+}
+
+export function useDeletePerson() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (personId: number) => deletePerson(personId),
+    onSettled: () => invalidatePersons(queryClient),
+  });
+}
+
+export function useMergePersons() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ keepId, duplicateIds }: { keepId: number; duplicateIds: number[] }) =>
+      mergePersons(keepId, duplicateIds),
+    onSettled: () => invalidatePersons(queryClient),
+  });
+}
+
+// Saved view mutations
+
+function invalidateSavedViews(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.savedViews });
+}
+
+export function useCreateSavedView() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (params: Parameters<typeof createSavedView>[0]) =>
+      (await createSavedView(params)).data,
+    onSettled: () => invalidateSavedViews(queryClient),
+  });
+}
+
+export function useUpdateSavedView() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ viewId, params }: { viewId: number; params: Parameters<typeof updateSavedView>[1] }) =>
+      (await updateSavedView(viewId, params)).data,
+    onSettled: () => invalidateSavedViews(queryClient),
+  });
+}
+
+export function useDeleteSavedView() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (viewId: number) => deleteSavedView(viewId),
+    onSettled: () => invalidateSavedViews(queryClient),
+  });
+}
+
+// Preference mutations. The server's copy is what the next device starts from,
+// so it replaces the cached one instead of being refetched.
+
+export function useUpdatePreferences() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (params: Parameters<typeof updatePreferences>[0]) =>
+      (await updatePreferences(params)).data,
+    onSuccess: (preferences) => {
+      if (preferences) queryClient.setQueryData(queryKeys.preferences, preferences);
+    },
+  });
+}
@@ -1,36 +1,139 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import {
   checkInitStatus,
-  getWallets,
-  getUsers,
+  getCurrentUser,
+  updateCurrentUser,
+  login as apiLogin,
+  logout as apiLogout,
   Wallet,
   User,
   InitStatus,
+  UserPreferences,
 } from "@/lib/api";
+import { ServerProfile, getActiveServer, setActiveServer } from "@/lib/servers";
+import { getSession, setSession, clearSession, subscribeSession } from "@/lib/session";
+import { flushOutbox, subscribeOutbox, getOutboxSnapshot, isNetworkError } from "@/lib/outbox";
+import { clearApiCache } from "@/lib/serviceWorker";
+import { toast } from "@/hooks/use-toast";
+import {
+  DEFAULT_PREFERENCES,
+  newerPreferences,
+  readPreferences,
+  startupWallet,
+  writePreferences,
+} from "@/lib/preferences";
+import {
+  queryKeys,
+  useWallets,
+  useUsers,
+  usePreferences,
+  useUpdatePreferences,
+} from "@/hooks/queries";
 
 interface AppContextType {
+  activeServer: ServerProfile;
   initStatus: InitStatus | null;
   isLoading: boolean;
   wallets: Wallet[];
   users: User[];
+  currentUser: User | null;
   selectedWallet: Wallet | null;
-  selectedUser: User | null;
   setSelectedWallet: (wallet: Wallet | null) => void;
-  setSelectedUser: (user: User | null) => void;
+  setDefaultWallet: (walletId: number | null) => Promise<void>;
+  preferences: UserPreferences;
+  updatePreferences: (changes: Partial<Omit<UserPreferences, "updated_at">>) => void;
   refreshWallets: () => Promise<void>;
   refreshUsers: () => Promise<void>;
   refreshInitStatus: () => Promise<void>;
+  switchServer: (serverId: string) => void;
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 export function AppProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+  const [activeServer, setActiveServerState] = useState<ServerProfile>(getActiveServer);
   const [initStatus, setInitStatus] = useState<InitStatus | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [wallets, setWallets] = useState<Wallet[]>([]);
-  const [users, setUsers] = useState<User[]>([]);
-  const [selectedWallet, setSelectedWallet] = useState<Wallet | null>(null);
-  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [currentUser, setCurrentUser] = useState<User | null>(() => getSession()?.user ?? null);
+  const [selectedWalletId, setSelectedWalletId] = useState<number | null>(null);
+  const currentUserId = currentUser?.user_id;
+  const [preferences, setPreferences] = useState<UserPreferences>(() =>
+    currentUserId ? readPreferences(activeServer.id, currentUserId) : DEFAULT_PREFERENCES
+  );
+
+  const isReady = !!initStatus?.init_done && !!currentUser;
+  const walletsQuery = useWallets(isReady);
+  const usersQuery = useUsers(isReady);
+  const preferencesQuery = usePreferences(isReady);
+  const { mutate: pushPreferences } = useUpdatePreferences();
+  const wallets = useMemo(() => walletsQuery.data || [], [walletsQuery.data]);
+  const users = useMemo(() => usersQuery.data || [], [usersQuery.data]);
+
+  // Derived from the query so balance changes show up without re-selecting.
+  const selectedWallet = useMemo(
+    () => wallets.find((w) => w.wallet_id === selectedWalletId) || null,
+    [wallets, selectedWalletId]
+  );
+
+  const defaultWalletId = currentUser?.default_wallet_id;
+  useEffect(() => {
+    if (!selectedWallet && wallets.length > 0) {
+      // A wallet picked in the same render, such as the one in the URL, wins.
+      setSelectedWalletId((current) =>
+        wallets.some((w) => w.wallet_id === current)
+          ? current
+          : startupWallet(wallets, defaultWalletId, preferences)?.wallet_id ?? null
+      );
+    }
+  }, [selectedWallet, wallets, defaultWalletId, preferences]);
+
+  useEffect(() => {
+    setPreferences(
+      currentUserId ? readPreferences(activeServer.id, currentUserId) : DEFAULT_PREFERENCES
+    );
+  }, [activeServer.id, currentUserId]);
+
+  // Whichever copy changed last wins; a newer one on this device is sent back
+  // so other devices pick it up.
+  const serverPreferences = preferencesQuery.data;
+  useEffect(() => {
+    if (!serverPreferences || !currentUserId) return;
+    const local = readPreferences(activeServer.id, currentUserId);
+    const merged = newerPreferences(local, serverPreferences);
+    writePreferences(activeServer.id, currentUserId, merged);
+    setPreferences(merged);
+    if (merged === local && local.updated_at !== serverPreferences.updated_at) {
+      pushPreferences(local);
+    }
+  }, [serverPreferences, currentUserId, activeServer.id, pushPreferences]);
+
+  const updatePreferences = (changes: Partial<Omit<UserPreferences, "updated_at">>) => {
+    if (!currentUserId) return;
+    const next = { ...preferences, ...changes, updated_at: new Date().toISOString() };
+    setPreferences(next);
+    writePreferences(activeServer.id, currentUserId, next);
+    if (preferencesQuery.isSuccess) pushPreferences(next);
+  };
+
+  const setSelectedWallet = (wallet: Wallet | null) => {
+    setSelectedWalletId(wallet?.wallet_id ?? null);
+    if (wallet) updatePreferences({ selected_wallet_id: wallet.wallet_id });
+  };
+
+  const setDefaultWallet = async (walletId: number | null) => {
+    const response = await updateCurrentUser({ default_wallet_id: walletId });
+    const session = getSession();
+    if (session) {
+      setSession({
+        ...session,
+        user: response.data || { ...session.user, default_wallet_id: walletId },
+      });
+    }
+  };
 
   const refreshInitStatus = async (): Promise<void> => {
     try {
@@ -43,65 +146,140 @@ export function AppProvider({ children }: { children: ReactNode }) {
   };
 
   const refreshWallets = async () => {
-    try {
-      const response = await getWallets();
-      if (response.success) {
-        setWallets(response.data || []);
-        if (!selectedWallet && response.data?.length > 0) {
-          setSelectedWallet(response.data[0]);
-        }
-      }
-    } catch (error) {
-      console.error("Failed to fetch wallets:", error);
-    }
+    await queryClient.invalidateQueries({ queryKey: queryKeys.wallets });
   };
 
   const refreshUsers = async () => {
+    await queryClient.invalidateQueries({ queryKey: queryKeys.users });
+  };
+
+  const login = async (username: string, password: string) => {
+    const response = await apiLogin({ username, password });
+    if (!response.success || !response.data?.token) {
+      throw new Error(response.message || "Invalid username or password");
+    }
+    setSession(response.data);
+  };
+
+  const logout = async () => {
     try {
-      const response = await getUsers();
-      if (response.success) {
-        setUsers(response.data || []);
-        if (!selectedUser && response.data?.length > 0) {
-          setSelectedUser(response.data[0]);
-        }
-      }
+      await apiLogout();
     } catch (error) {
-      console.error("Failed to fetch users:", error);
+      console.error("Failed to end session on server:", error);
+    } finally {
+      clearSession();
     }
   };
 
+  // Everything loaded so far belongs to the previous backend, so drop it and
+  // let the bootstrap effect below reload against the newly active profile.
+  const switchServer = (serverId: string) => {
+    const server = setActiveServer(serverId);
+    queryClient.clear();
+    setInitStatus(null);
+    setSelectedWalletId(null);
+    setCurrentUser(getSession()?.user ?? null);
+    setActiveServerState(server);
+  };
+
+  // Logging out, or any request answered with 401, ends the session; nothing
+  // fetched with the old credentials should stay on screen.
+  useEffect(() => {
+    return subscribeSession((session) => {
+      setCurrentUser(session?.user ?? null);
+      if (!session) {
+        clearApiCache();
+        queryClient.clear();
+        setSelectedWalletId(null);
+      }
+    });
+  }, [queryClient]);
+
+  // Once queued offline changes reach the server, refetch what they touched.
+  useEffect(() => {
+    let syncVersion = getOutboxSnapshot().syncVersion;
+    return subscribeOutbox(() => {
+      const next = getOutboxSnapshot().syncVersion;
+      if (next !== syncVersion) {
+        syncVersion = next;
+        queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+        queryClient.invalidateQueries({ queryKey: queryKeys.transactionDetails });
+        queryClient.invalidateQueries({ queryKey: queryKeys.wallets });
+      }
+    });
+  }, [queryClient]);
+
+  // Replay changes queued while offline once signed in and whenever the
+  // browser regains connectivity.
+  useEffect(() => {
+    if (!currentUserId) return;
+    const sync = () => {
+      flushOutbox();
+    };
+    sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [currentUserId, activeServer]);
+
   useEffect(() => {
     const init = async () => {
       setIsLoading(true);
       try {
         const status = await checkInitStatus();
         setInitStatus(status);
-        if (status.init_done) {
-          await Promise.all([refreshWallets(), refreshUsers()]);
+        const session = getSession();
+        if (status.init_done && session) {
+          // Re-validate the stored token and pick up profile changes made
+          // since the last visit before loading any data.
+          const me = await getCurrentUser();
+          if (me.success && me.data) {
+            setSession({ ...session, user: me.data });
+          } else {
+            clearSession();
+          }
         }
       } catch (error) {
         console.error("Initialization error:", error);
+        // Offline with a stored session: keep the user in the app so changes
+        // can be queued and synced once the server is reachable again.
+        if (getSession() && isNetworkError(error)) {
+          setInitStatus((prev) =>
+            prev || { success: true, message: "offline", init_done: true, is_new_db: false }
+          );
+        } else {
+          toast({
+            title: `Could not connect to ${activeServer.name}`,
+            description: (error as Error).message,
+            variant: "destructive",
+          });
+        }
       } finally {
         setIsLoading(false);
       }
     };
     init();
-  }, []);
+  }, [activeServer]);
 
   return (
     <AppContext.Provider
       value={{
+        activeServer,
         initStatus,
         isLoading,
         wallets,
         users,
+        currentUser,
         selectedWallet,
-        selectedUser,
         setSelectedWallet,
-        setSelectedUser,
+        setDefaultWallet,
+        preferences,
+        updatePreferences,
         refreshWallets,
         refreshUsers,
         refreshInitStatus,
+        switchServer,
+        login,
+        logout,
       }}
     >
       {children}
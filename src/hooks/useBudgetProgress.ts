@@ -0,0 +1,30 @@
+import { useMemo } from "react";
+import { Transaction } from "@/lib/api";
+import { budgetProgress, coveringPeriod } from "@/lib/budgets";
+import { useBudgets, useCategoryTree, useTransactions } from "@/hooks/queries";
+
+const NO_TRANSACTIONS: Transaction[] = [];
+
+// Progress of every budget in a wallet for the windows containing `date`,
+// plus the data it was computed from so callers can project changes.
+export function useBudgetProgress(walletId: number | undefined, date: Date) {
+  const { data: budgets = [], isLoading } = useBudgets(walletId);
+  const { data: roots = [] } = useCategoryTree(walletId);
+  const range = useMemo(() => coveringPeriod(budgets, date), [budgets, date]);
+
+  const { data: transactions = NO_TRANSACTIONS } = useTransactions(
+    {
+      wallet_id: walletId,
+      start_transaction_time: range?.start.toISOString(),
+      end_transaction_time: range?.end.toISOString(),
+    },
+    !!walletId && !!range
+  );
+
+  const progress = useMemo(
+    () => budgets.map((budget) => budgetProgress(budget, transactions, roots, date)),
+    [budgets, transactions, roots, date]
+  );
+
+  return { budgets, roots, transactions, progress, isLoading };
+}
@@ -0,0 +1,23 @@
+import { useState, useEffect } from "react";
+import { RateTable, convert, readRates, subscribeRates, walletCurrency, writeRates } from "@/lib/currency";
+import { useApp } from "@/hooks/useApp";
+
+// The rate table for the active server. Until one is saved, its base is the
+// currency of the first wallet.
+export function useExchangeRates() {
+  const { activeServer, wallets } = useApp();
+  const fallbackBase = walletCurrency(wallets[0]);
+  const [table, setTable] = useState<RateTable>(() => readRates(activeServer.id, fallbackBase));
+
+  useEffect(() => {
+    const load = () => setTable(readRates(activeServer.id, fallbackBase));
+    load();
+    return subscribeRates(load);
+  }, [activeServer.id, fallbackBase]);
+
+  return {
+    table,
+    save: (next: RateTable) => writeRates(activeServer.id, next),
+    convert: (amount: number, from: string, to: string) => convert(amount, from, to, table),
+  };
+}
@@ -0,0 +1,21 @@
+import { useMemo, useSyncExternalStore } from "react";
+import { subscribeOutbox, getOutboxSnapshot, isOwnEntry } from "@/lib/outbox";
+import { useApp } from "@/hooks/useApp";
+
+export function useOutbox() {
+  const { activeServer, currentUser } = useApp();
+  const userId = currentUser?.user_id;
+  const snapshot = useSyncExternalStore(subscribeOutbox, getOutboxSnapshot);
+
+  const entries = useMemo(
+    () => snapshot.entries.filter((e) => isOwnEntry(e, activeServer.id, userId)),
+    [snapshot.entries, activeServer.id, userId]
+  );
+
+  return {
+    entries,
+    pendingCount: entries.filter((e) => e.status === "pending").length,
+    failedCount: entries.filter((e) => e.status === "failed").length,
+    syncVersion: snapshot.syncVersion,
+  };
+}
@@ -0,0 +1,74 @@
+import { useState, useMemo, useEffect, useRef } from "react";
+import { DateRange } from "react-day-picker";
+import { PeriodType, computePeriod, shiftPeriod } from "@/lib/period";
+
+export type PeriodState = ReturnType<typeof usePeriod>;
+
+// Period selection shared by the transaction list and reports, so switching
+// tabs keeps the same range in view. `onTypeChange` hears about the period
+// types picked by hand, never about custom ranges. Until a period is picked
+// or restored, the type follows `initialType`, which may only arrive after
+// the first render.
+export function usePeriod(
+  initialType: PeriodType = "monthly",
+  onTypeChange?: (type: Exclude<PeriodType, "custom">) => void
+) {
+  const [periodType, setPeriodType] = useState<PeriodType>(initialType);
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const [customDateRange, setCustomDateRange] = useState<DateRange | undefined>(undefined);
+  const chosen = useRef(false);
+
+  useEffect(() => {
+    if (!chosen.current) setPeriodType(initialType);
+  }, [initialType]);
+
+  const period = useMemo(
+    () => computePeriod(periodType, currentDate, customDateRange),
+    [periodType, currentDate, customDateRange]
+  );
+
+  const navigate = (direction: "prev" | "next") => {
+    if (periodType === "custom") return;
+    setCurrentDate(shiftPeriod(periodType, currentDate, direction));
+  };
+
+  const changePeriodType = (type: PeriodType) => {
+    chosen.current = true;
+    setPeriodType(type);
+    if (type !== "custom") {
+      setCustomDateRange(undefined);
+      onTypeChange?.(type);
+    }
+  };
+
+  const changeDateRange = (range: DateRange | undefined) => {
+    chosen.current = true;
+    setCustomDateRange(range);
+    if (range?.from) {
+      setPeriodType("custom");
+    } else {
+      setPeriodType("monthly");
+    }
+  };
+
+  // Shows a period read back from elsewhere, such as the URL, without
+  // counting it as a choice.
+  const restore = (type: PeriodType, date: Date, range?: DateRange) => {
+    chosen.current = true;
+    setPeriodType(type);
+    setCurrentDate(date);
+    setCustomDateRange(type === "custom" ? range : undefined);
+  };
+
+  return {
+    periodType,
+    currentDate,
+    customDateRange,
+    period,
+    navigate,
+    changePeriodType,
+    changeDateRange,
+    setCurrentDate,
+    restore,
+  };
+}
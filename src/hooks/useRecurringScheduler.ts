@@ -0,0 +1,64 @@
+import { useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { materializeRule, pendingOccurrences } from "@/lib/recurring";
+import { canEdit } from "@/lib/members";
+import { useApp } from "@/hooks/useApp";
+import { queryKeys, useRecurringTransactions } from "@/hooks/queries";
+import { useToast } from "@/hooks/use-toast";
+
+// Turns due recurring occurrences into transactions whenever the rules are
+// (re)fetched. Only runs online: occurrences are claimed on the server before
+// they are created, so two clients never create the same one.
+// Rules on wallets the user can only view are left to the wallet's editors.
+export function useRecurringScheduler() {
+  const queryClient = useQueryClient();
+  const { wallets } = useApp();
+  const { toast } = useToast();
+  const { data: rules } = useRecurringTransactions();
+  const running = useRef(false);
+  // Rules that failed are left alone until the next page load instead of
+  // being retried on every refetch.
+  const failed = useRef(new Set<number>());
+
+  useEffect(() => {
+    if (!rules || running.current || !navigator.onLine) return;
+    const now = new Date();
+    const editable = new Set(wallets.filter(canEdit).map((w) => w.wallet_id));
+    const due = rules.filter(
+      (rule) =>
+        editable.has(rule.wallet_id) &&
+        !failed.current.has(rule.recurring_id) &&
+        pendingOccurrences(rule, now).length > 0
+    );
+    if (due.length === 0) return;
+
+    running.current = true;
+    const run = async () => {
+      for (const rule of due) {
+        try {
+          const { failed: skipped } = await materializeRule(rule, now);
+          if (skipped.length > 0) {
+            toast({
+              title: "Some recurring transactions were skipped",
+              description:
+                `${rule.category?.name || rule.note || "A recurring transaction"} on ` +
+                `${skipped.map(({ date }) => format(date, "MMM d, yyyy")).join(", ")}: ` +
+                skipped[0].error,
+              variant: "destructive",
+            });
+          }
+        } catch (error) {
+          failed.current.add(rule.recurring_id);
+          console.error(`Failed to create recurring transaction ${rule.recurring_id}:`, error);
+        }
+      }
+    };
+    run().finally(() => {
+      running.current = false;
+      queryClient.invalidateQueries({ queryKey: queryKeys.recurring });
+      queryClient.invalidateQueries({ queryKey: queryKeys.transactions });
+      queryClient.invalidateQueries({ queryKey: queryKeys.wallets });
+    });
+  }, [rules, wallets, queryClient, toast]);
+}
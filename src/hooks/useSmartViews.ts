@@ -0,0 +1,81 @@
+import { useState, useEffect, useMemo } from "react";
+import { SavedViewDefinition } from "@/lib/api";
+import { ViewEntry, localViewsKey } from "@/lib/views";
+import { readJSON, writeJSON } from "@/lib/storage";
+import { useApp } from "@/hooks/useApp";
+import {
+  useSavedViews,
+  useCreateSavedView,
+  useUpdateSavedView,
+  useDeleteSavedView,
+} from "@/hooks/queries";
+
+// Saved views from the server, when it supports them, followed by the ones
+// kept on this device.
+export function useSmartViews() {
+  const { activeServer, currentUser } = useApp();
+  const storageKey = currentUser ? localViewsKey(activeServer.id, currentUser.user_id) : null;
+  const [localViews, setLocalViews] = useState<ViewEntry[]>([]);
+  const serverViewsQuery = useSavedViews(!!currentUser);
+  const createMutation = useCreateSavedView();
+  const updateMutation = useUpdateSavedView();
+  const deleteMutation = useDeleteSavedView();
+
+  useEffect(() => {
+    setLocalViews(storageKey ? readJSON<ViewEntry[]>(storageKey, []) : []);
+  }, [storageKey]);
+
+  const saveLocal = (next: ViewEntry[]) => {
+    setLocalViews(next);
+    if (storageKey) writeJSON(storageKey, next);
+  };
+
+  const views = useMemo<ViewEntry[]>(
+    () => [
+      ...(serverViewsQuery.data || []).map((view) => ({
+        id: `server:${view.view_id}`,
+        name: view.name,
+        definition: view.definition,
+        viewId: view.view_id,
+      })),
+      ...localViews,
+    ],
+    [serverViewsQuery.data, localViews]
+  );
+
+  const create = async (name: string, definition: SavedViewDefinition, onServer: boolean) => {
+    if (onServer) {
+      await createMutation.mutateAsync({ name, definition });
+      return;
+    }
+    saveLocal([...localViews, { id: `local:${Date.now()}`, name, definition }]);
+  };
+
+  const update = async (
+    view: ViewEntry,
+    changes: Partial<{ name: string; definition: SavedViewDefinition }>
+  ) => {
+    if (view.viewId) {
+      await updateMutation.mutateAsync({ viewId: view.viewId, params: changes });
+      return;
+    }
+    saveLocal(localViews.map((v) => (v.id === view.id ? { ...v, ...changes } : v)));
+  };
+
+  const remove = async (view: ViewEntry) => {
+    if (view.viewId) {
+      await deleteMutation.mutateAsync(view.viewId);
+      return;
+    }
+    saveLocal(localViews.filter((v) => v.id !== view.id));
+  };
+
+  return {
+    views,
+    // False when the server has no saved views endpoint.
+    serverAvailable: !serverViewsQuery.isError,
+    create,
+    update,
+    remove,
+  };
+}
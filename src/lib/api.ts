@@ -1,4 +1,10 @@
-const API_BASE = "https://ml.xlr.ovh/api";
+import { getActiveServer } from "./servers";
+import { getSession, clearSession } from "./session";
+import type { PeriodType } from "./period";
+
+function getApiBase(): string {
+  return getActiveServer().baseUrl;
+}
 
 // Types
 export interface User {
@@ -9,7 +15,10 @@ export interface User {
   user_type: string;
   created_at: string;
   updated_at: string;
-  default_wallet_id?: number;
+  // The wallet the app opens on; null when none was chosen.
+  default_wallet_id?: number | null;
+  // Deactivated users can no longer sign in; their data is kept.
+  is_active?: boolean;
 }
 
 export interface Wallet {
@@ -18,9 +27,30 @@ export interface Wallet {
   icon: string;
   is_enabled: boolean;
   balance: number;
+  // ISO 4217 code, e.g. "EUR".
+  currency?: string;
+  // The signed-in user's role; servers without sharing leave it out.
+  role?: WalletRole;
+  // How many users the wallet is shared with, the owner included.
+  member_count?: number;
   last_modified_time: string;
 }
 
+export type WalletRole = "owner" | "editor" | "viewer";
+
+export interface WalletMember {
+  wallet_id: number;
+  user_id: number;
+  role: WalletRole;
+  user?: User;
+  created_at: string;
+}
+
+// What a transaction means for the wallet's cash flow. Categories carry a
+// kind that their transactions inherit unless they set their own.
+// Adjustments make up the difference found when reconciling a wallet.
+export type TransactionKind = "income" | "expense" | "transfer" | "debt" | "loan" | "adjustment";
+
 export interface Category {
   category_id: number;
   name: string;
@@ -29,6 +59,7 @@ export interface Category {
   root_id: number;
   wallet_id: number;
   is_global: boolean;
+  kind?: TransactionKind;
   wallet?: Wallet;
 }
 
@@ -58,12 +89,37 @@ export interface Transaction {
   entry_time: string;
   last_modified_time: string;
   user_id: number;
+  kind?: TransactionKind;
+  // Set on both legs of a wallet-to-wallet transfer and on its fee.
+  transfer_id?: number | null;
+  // A debt or loan repayment points at the transaction it pays back.
+  repayment_of?: number | null;
+  // The bank's id for an imported statement line (OFX FITID).
+  external_id?: string | null;
+  // What was actually paid when it wasn't in the wallet's currency; `amount`
+  // holds the converted value.
+  original_currency?: string | null;
+  original_amount?: number | null;
   category?: Category;
   person?: Person;
   wallet?: Wallet;
   user?: User;
 }
 
+export interface Reconciliation {
+  reconciliation_id: number;
+  wallet_id: number;
+  // The balance the bank reported as of `reconciled_at`.
+  statement_balance: number;
+  // What the wallet's transactions added up to at that time.
+  computed_balance: number;
+  // The adjustment that made up the difference, if there was one.
+  transaction_id: number | null;
+  reconciled_at: string;
+  user_id: number;
+  created_at: string;
+}
+
 export interface InitStatus {
   success: boolean;
   message: string;
@@ -71,6 +127,11 @@ export interface InitStatus {
   is_new_db: boolean;
 }
 
+export interface LoginResult {
+  token: string;
+  user: User;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   message: string;
@@ -83,13 +144,21 @@ async function apiRequest<T>(
   endpoint: string,
   options?: RequestInit
 ): Promise<ApiResponse<T>> {
-  const response = await fetch(`${API_BASE}${endpoint}`, {
+  const session = getSession();
+  const response = await fetch(`${getApiBase()}${endpoint}`, {
     ...options,
     headers: {
       "Content-Type": "application/json",
+      ...(session ? { Authorization: `Bearer ${session.token}` } : {}),
       ...options?.headers,
     },
   });
+  // A 401 on an authenticated request means the token is no longer valid;
+  // dropping the session sends the app back to the login screen.
+  if (response.status === 401 && session) {
+    clearSession();
+    throw new Error("Your session has expired. Please sign in again.");
+  }
   const data = await response.json();
   if (data.error) {
     throw new Error(data.error);
@@ -98,8 +167,9 @@ async function apiRequest<T>(
 }
 
 // Init
-export async function checkInitStatus(): Promise<InitStatus> {
-  const response = await fetch(`${API_BASE}/initdone`);
+// `baseUrl` lets the Servers screen probe a profile before switching to it.
+export async function checkInitStatus(baseUrl: string = getApiBase()): Promise<InitStatus> {
+  const response = await fetch(`${baseUrl}/initdone`);
   return response.json();
 }
 
@@ -117,6 +187,47 @@ export async function initDatabase(params: {
   });
 }
 
+// Auth
+export async function login(params: {
+  username: string;
+  password: string;
+}): Promise<ApiResponse<LoginResult>> {
+  return apiRequest("/auth/login", {
+    method: "POST",
+    body: JSON.stringify(params),
+  });
+}
+
+export async function logout(): Promise<ApiResponse<void>> {
+  return apiRequest("/auth/logout", { method: "POST" });
+}
+
+export async function getCurrentUser(): Promise<ApiResponse<User>> {
+  return apiRequest("/auth/me");
+}
+
+export async function updateCurrentUser(
+  params: Partial<{ name: string; email: string; default_wallet_id: number | null }>
+): Promise<ApiResponse<User>> {
+  return apiRequest("/auth/me", {
+    method: "PUT",
+    body: JSON.stringify(params),
+  });
+}
+
+export async function getPreferences(): Promise<ApiResponse<UserPreferences>> {
+  return apiRequest("/auth/me/preferences");
+}
+
+export async function updatePreferences(
+  params: UserPreferences
+): Promise<ApiResponse<UserPreferences>> {
+  return apiRequest("/auth/me/preferences", {
+    method: "PUT",
+    body: JSON.stringify(params),
+  });
+}
+
 // Users
 export async function getUsers(): Promise<ApiResponse<User[]>> {
   return apiRequest("/users");
@@ -138,6 +249,23 @@ export async function createUser(params: {
   });
 }
 
+export async function updateUser(
+  userId: number,
+  params: Partial<{
+    username: string;
+    name: string;
+    email: string;
+    user_type: string;
+    is_active: boolean;
+    password: string;
+  }>
+): Promise<ApiResponse<User>> {
+  return apiRequest(`/users/${userId}`, {
+    method: "PUT",
+    body: JSON.stringify(params),
+  });
+}
+
 export async function getUserWallets(userId: number): Promise<ApiResponse<Wallet[]>> {
   return apiRequest(`/users/${userId}/wallets`);
 }
@@ -156,6 +284,7 @@ export async function createWallet(params: {
   icon: string;
   is_enabled: boolean;
   balance: number;
+  currency?: string;
 }): Promise<ApiResponse<Wallet>> {
   return apiRequest("/wallets", {
     method: "POST",
@@ -170,6 +299,7 @@ export async function updateWallet(
     icon: string;
     is_enabled: boolean;
     balance: number;
+    currency: string;
   }>
 ): Promise<ApiResponse<Wallet>> {
   return apiRequest(`/wallets/${walletId}`, {
@@ -182,6 +312,60 @@ export async function deleteWallet(walletId: number): Promise<ApiResponse<void>>
   return apiRequest(`/wallets/${walletId}`, { method: "DELETE" });
 }
 
+// Wallet members
+export async function getWalletMembers(walletId: number): Promise<ApiResponse<WalletMember[]>> {
+  return apiRequest(`/wallets/${walletId}/members`);
+}
+
+// Invites an existing user by username or email.
+export async function addWalletMember(
+  walletId: number,
+  params: { identifier: string; role: WalletRole }
+): Promise<ApiResponse<WalletMember>> {
+  return apiRequest(`/wallets/${walletId}/members`, {
+    method: "POST",
+    body: JSON.stringify(params),
+  });
+}
+
+export async function updateWalletMember(
+  walletId: number,
+  userId: number,
+  params: { role: WalletRole }
+): Promise<ApiResponse<WalletMember>> {
+  return apiRequest(`/wallets/${walletId}/members/${userId}`, {
+    method: "PUT",
+    body: JSON.stringify(params),
+  });
+}
+
+export async function removeWalletMember(
+  walletId: number,
+  userId: number
+): Promise<ApiResponse<void>> {
+  return apiRequest(`/wallets/${walletId}/members/${userId}`, { method: "DELETE" });
+}
+
+// Reconciliations
+export async function getReconciliations(walletId: number): Promise<ApiResponse<Reconciliation[]>> {
+  return apiRequest(`/wallets/${walletId}/reconciliations`);
+}
+
+export async function createReconciliation(
+  walletId: number,
+  params: {
+    statement_balance: number;
+    computed_balance: number;
+    transaction_id: number | null;
+    reconciled_at: string;
+  }
+): Promise<ApiResponse<Reconciliation>> {
+  return apiRequest(`/wallets/${walletId}/reconciliations`, {
+    method: "POST",
+    body: JSON.stringify(params),
+  });
+}
+
 // Categories
 export async function getCategories(walletId: number): Promise<ApiResponse<Category[]>> {
   return apiRequest(`/wallets/${walletId}/categories`);
@@ -198,6 +382,7 @@ export async function createCategory(
     icon: string;
     parent_id: number | null;
     is_global: boolean;
+    kind?: TransactionKind;
   }
 ): Promise<ApiResponse<Category>> {
   return apiRequest(`/wallets/${walletId}/categories`, {
@@ -214,6 +399,7 @@ export async function updateCategory(
     icon: string;
     is_global: boolean;
     parent_id: number | null;
+    kind: TransactionKind;
   }>
 ): Promise<ApiResponse<Category>> {
   return apiRequest(`/wallets/${walletId}/categories/${categoryId}`, {
@@ -243,11 +429,45 @@ export interface TransactionFilters {
   end_entry_time?: string;
   start_last_modified_time?: string;
   end_last_modified_time?: string;
+  kinds?: TransactionKind[];
   amount_op?: "eq" | "gt" | "lt" | "ge" | "le";
   amount_value?: number;
   fuzzy_note?: string;
 }
 
+export type TransactionSortField = "transaction_time" | "entry_time" | "last_modified_time";
+
+// Relative periods are counted from today, so "last week" stays last week.
+export type SavedViewPeriod =
+  | { type: Exclude<PeriodType, "custom">; offset: number }
+  | { type: "custom"; start: string; end: string };
+
+export interface SavedViewDefinition {
+  wallet_id: number;
+  filters: Omit<
+    TransactionFilters,
+    "wallet_id" | "start_transaction_time" | "end_transaction_time" | "kinds"
+  >;
+  sort: TransactionSortField;
+  period: SavedViewPeriod;
+}
+
+// Choices the app remembers between visits. Custom ranges only make sense for
+// the visit they were picked in, so they are never stored.
+export interface UserPreferences {
+  selected_wallet_id: number | null;
+  period_type: Exclude<PeriodType, "custom">;
+  transaction_sort: TransactionSortField;
+  updated_at: string | null;
+}
+
+export interface SavedView {
+  view_id: number;
+  user_id: number;
+  name: string;
+  definition: SavedViewDefinition;
+}
+
 function buildQueryString(filters: TransactionFilters): string {
   const params = new URLSearchParams();
   if (filters.wallet_id) params.append("wallet_id", filters.wallet_id.toString());
@@ -267,6 +487,7 @@ function buildQueryString(filters: TransactionFilters): string {
     params.append("start_last_modified_time", filters.start_last_modified_time);
   if (filters.end_last_modified_time)
     params.append("end_last_modified_time", filters.end_last_modified_time);
+  if (filters.kinds?.length) params.append("kinds", filters.kinds.join(","));
   if (filters.amount_op) params.append("amount_op", filters.amount_op);
   if (filters.amount_value !== undefined)
     params.append("amount_value", filters.amount_value.toString());
@@ -281,6 +502,10 @@ export async function getTransactions(
   return apiRequest(`/transactions${query}`);
 }
 
+export async function getTransaction(transactionId: number): Promise<ApiResponse<Transaction>> {
+  return apiRequest(`/transactions/${transactionId}`);
+}
+
 export async function getWalletTransactions(
   walletId: number,
   filters?: Omit<TransactionFilters, "wallet_id">
@@ -289,15 +514,38 @@ export async function getWalletTransactions(
   return apiRequest(`/wallets/${walletId}/transactions${query}`);
 }
 
-export async function createTransaction(params: {
+export interface CreateTransactionParams {
   wallet_id: number;
   category_id: number;
   amount: number;
+  // An existing person; otherwise `person_name` creates or reuses one by name.
+  person_id?: number | null;
   person_name?: string;
   note?: string;
   user_id: number;
   transaction_time?: string;
-}): Promise<ApiResponse<Transaction>> {
+  kind?: TransactionKind;
+  repayment_of?: number | null;
+  external_id?: string;
+  original_currency?: string | null;
+  original_amount?: number | null;
+}
+
+export type UpdateTransactionParams = Partial<{
+  category_id: number;
+  amount: number;
+  kind: TransactionKind;
+  note: string;
+  person_id: number | null;
+  person_name: string;
+  transaction_time: string;
+  original_currency: string | null;
+  original_amount: number | null;
+}>;
+
+export async function createTransaction(
+  params: CreateTransactionParams
+): Promise<ApiResponse<Transaction>> {
   return apiRequest("/transactions", {
     method: "POST",
     body: JSON.stringify(params),
@@ -306,13 +554,7 @@ export async function createTransaction(params: {
 
 export async function updateTransaction(
   transactionId: number,
-  params: Partial<{
-    category_id: number;
-    amount: number;
-    note: string;
-    person_name: string;
-    transaction_time: string;
-  }>
+  params: UpdateTransactionParams
 ): Promise<ApiResponse<Transaction>> {
   return apiRequest(`/transactions/${transactionId}`, {
     method: "PUT",
@@ -326,6 +568,195 @@ export async function deleteTransaction(
   return apiRequest(`/transactions/${transactionId}`, { method: "DELETE" });
 }
 
+// Transfers. The server writes all legs of a transfer in one database
+// transaction, so edits and deletes never leave half a transfer behind.
+export interface Transfer {
+  transfer_id: number;
+  // Negative amount in the source wallet.
+  from_transaction: Transaction;
+  // Positive amount in the destination wallet.
+  to_transaction: Transaction;
+  // Expense in the source wallet, when the transfer had a fee.
+  fee_transaction: Transaction | null;
+}
+
+export interface CreateTransferParams {
+  from_wallet_id: number;
+  to_wallet_id: number;
+  amount: number;
+  fee?: number;
+  note?: string;
+  user_id: number;
+  transaction_time?: string;
+  // Between wallets in different currencies: what the destination receives,
+  // in its own currency. Its leg records the amount sent as the original.
+  to_amount?: number | null;
+  original_currency?: string | null;
+  original_amount?: number | null;
+}
+
+export type UpdateTransferParams = Partial<Omit<CreateTransferParams, "user_id">>;
+
+export async function getTransfer(transferId: number): Promise<ApiResponse<Transfer>> {
+  return apiRequest(`/transfers/${transferId}`);
+}
+
+export async function createTransfer(
+  params: CreateTransferParams
+): Promise<ApiResponse<Transfer>> {
+  return apiRequest("/transfers", {
+    method: "POST",
+    body: JSON.stringify(params),
+  });
+}
+
+export async function updateTransfer(
+  transferId: number,
+  params: UpdateTransferParams
+): Promise<ApiResponse<Transfer>> {
+  return apiRequest(`/transfers/${transferId}`, {
+    method: "PUT",
+    body: JSON.stringify(params),
+  });
+}
+
+export async function deleteTransfer(transferId: number): Promise<ApiResponse<void>> {
+  return apiRequest(`/transfers/${transferId}`, { method: "DELETE" });
+}
+
+// Budgets
+export type BudgetPeriodType = "monthly" | "weekly" | "custom";
+
+export interface Budget {
+  budget_id: number;
+  wallet_id: number;
+  category_id: number;
+  amount: number;
+  // Also count spending in the category's subcategories.
+  include_subcategories: boolean;
+  period_type: BudgetPeriodType;
+  // Only used by custom budgets.
+  start_date: string | null;
+  end_date: string | null;
+}
+
+export type BudgetParams = Omit<Budget, "budget_id" | "wallet_id">;
+
+export async function getBudgets(walletId: number): Promise<ApiResponse<Budget[]>> {
+  return apiRequest(`/wallets/${walletId}/budgets`);
+}
+
+export async function createBudget(
+  walletId: number,
+  params: BudgetParams
+): Promise<ApiResponse<Budget>> {
+  return apiRequest(`/wallets/${walletId}/budgets`, {
+    method: "POST",
+    body: JSON.stringify(params),
+  });
+}
+
+export async function updateBudget(
+  walletId: number,
+  budgetId: number,
+  params: Partial<BudgetParams>
+): Promise<ApiResponse<Budget>> {
+  return apiRequest(`/wallets/${walletId}/budgets/${budgetId}`, {
+    method: "PUT",
+    body: JSON.stringify(params),
+  });
+}
+
+export async function deleteBudget(
+  walletId: number,
+  budgetId: number
+): Promise<ApiResponse<void>> {
+  return apiRequest(`/wallets/${walletId}/budgets/${budgetId}`, { method: "DELETE" });
+}
+
+// Recurring transactions. The server only stores the rules; the client
+// creates the transactions as occurrences fall due (see lib/recurring.ts).
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+export interface RecurringException {
+  // Local date of the occurrence, yyyy-MM-dd.
+  date: string;
+  skip: boolean;
+  amount?: number;
+  note?: string;
+  category_id?: number;
+}
+
+export interface RecurringTransaction {
+  recurring_id: number;
+  wallet_id: number;
+  category_id: number;
+  amount: number;
+  kind?: TransactionKind;
+  note: string | null;
+  person_name: string | null;
+  user_id: number;
+  frequency: RecurrenceFrequency;
+  // Repeat every `interval` days/weeks/months/years.
+  interval: number;
+  // Weekly rules only: days of the week (0 = Sunday) to repeat on.
+  weekdays: number[] | null;
+  // First occurrence; later ones keep its time of day.
+  start_time: string;
+  end_date: string | null;
+  occurrence_limit: number | null;
+  // Time of the last occurrence already turned into a transaction or skipped.
+  last_materialized: string | null;
+  exceptions: RecurringException[];
+  category?: Category;
+}
+
+export type RecurringParams = Omit<RecurringTransaction, "recurring_id" | "category">;
+
+export async function getRecurringTransactions(): Promise<ApiResponse<RecurringTransaction[]>> {
+  return apiRequest("/recurring");
+}
+
+export async function createRecurringTransaction(
+  params: RecurringParams
+): Promise<ApiResponse<RecurringTransaction>> {
+  return apiRequest("/recurring", {
+    method: "POST",
+    body: JSON.stringify(params),
+  });
+}
+
+export async function updateRecurringTransaction(
+  recurringId: number,
+  params: Partial<RecurringParams>
+): Promise<ApiResponse<RecurringTransaction>> {
+  return apiRequest(`/recurring/${recurringId}`, {
+    method: "PUT",
+    body: JSON.stringify(params),
+  });
+}
+
+// Moves the rule's cursor only if it is still at `expected_last_materialized`,
+// so whichever client claims the due occurrences first is the one that
+// creates them. Fails if another client got there first.
+export async function claimRecurringOccurrences(
+  recurringId: number,
+  params: Pick<RecurringParams, "last_materialized" | "exceptions"> & {
+    expected_last_materialized: string | null;
+  }
+): Promise<ApiResponse<RecurringTransaction>> {
+  return apiRequest(`/recurring/${recurringId}/claim`, {
+    method: "POST",
+    body: JSON.stringify(params),
+  });
+}
+
+export async function deleteRecurringTransaction(
+  recurringId: number
+): Promise<ApiResponse<void>> {
+  return apiRequest(`/recurring/${recurringId}`, { method: "DELETE" });
+}
+
 // Persons
 export async function getPersons(): Promise<ApiResponse<Person[]>> {
   return apiRequest("/persons");
@@ -354,3 +785,32 @@ export async function updatePerson(
 export async function deletePerson(personId: number): Promise<ApiResponse<void>> {
   return apiRequest(`/persons/${personId}`, { method: "DELETE" });
 }
+
+// Saved views
+export async function getSavedViews(): Promise<ApiResponse<SavedView[]>> {
+  return apiRequest("/views");
+}
+
+export async function createSavedView(params: {
+  name: string;
+  definition: SavedViewDefinition;
+}): Promise<ApiResponse<SavedView>> {
+  return apiRequest("/views", {
+    method: "POST",
+    body: JSON.stringify(params),
+  });
+}
+
+export async function updateSavedView(
+  viewId: number,
+  params: Partial<{ name: string; definition: SavedViewDefinition }>
+): Promise<ApiResponse<SavedView>> {
+  return apiRequest(`/views/${viewId}`, {
+    method: "PUT",
+    body: JSON.stringify(params),
+  });
+}
+
+export async function deleteSavedView(viewId: number): Promise<ApiResponse<void>> {
+  return apiRequest(`/views/${viewId}`, { method: "DELETE" });
+}
@@ -0,0 +1,562 @@
+import {
+  Budget,
+  Category,
+  Person,
+  Reconciliation,
+  RecurringTransaction,
+  SavedView,
+  Transaction,
+  User,
+  Wallet,
+  WalletMember,
+  getUsers,
+  getUserWallets,
+  createUser,
+  getWallets,
+  createWallet,
+  updateWallet,
+  getWalletMembers,
+  addWalletMember,
+  getCategories,
+  getCategoryTree,
+  createCategory,
+  getWalletTransactions,
+  createTransaction,
+  createTransfer,
+  getBudgets,
+  createBudget,
+  getReconciliations,
+  createReconciliation,
+  getRecurringTransactions,
+  createRecurringTransaction,
+  getPersons,
+  createPerson,
+  getSavedViews,
+  createSavedView,
+} from "./api";
+import { getTransactionKind } from "./classification";
+import { flattenCategories } from "./search";
+
+export const BACKUP_FORMAT = "moneylover-backup";
+export const BACKUP_VERSION = 1;
+
+export type BackupSection =
+  | "users"
+  | "persons"
+  | "wallets"
+  | "categories"
+  | "transactions"
+  | "budgets"
+  | "reconciliations"
+  | "recurring"
+  | "views";
+
+export const BACKUP_SECTIONS: { section: BackupSection; label: string }[] = [
+  { section: "users", label: "Users" },
+  { section: "persons", label: "People" },
+  { section: "wallets", label: "Wallets" },
+  { section: "categories", label: "Categories" },
+  { section: "transactions", label: "Transactions" },
+  { section: "budgets", label: "Budgets" },
+  { section: "reconciliations", label: "Reconciliations" },
+  { section: "recurring", label: "Recurring" },
+  { section: "views", label: "Saved views" },
+];
+
+// Transactions are stored without the objects the server embeds in them.
+export type BackupTransaction = Omit<Transaction, "category" | "person" | "wallet" | "user">;
+
+export interface WalletBackup {
+  wallet: Wallet;
+  // Parents come before their children.
+  categories: Category[];
+  budgets: Budget[];
+  transactions: BackupTransaction[];
+  // Missing from backups made before wallets could be shared.
+  members?: WalletMember[];
+  // Missing from backups made before reconciliations were backed up.
+  reconciliations?: Reconciliation[];
+}
+
+// Everything one user can read from a server. IDs are the source server's;
+// a restore maps them to the IDs the target server hands out.
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  created_at: string;
+  source: { server: string; username: string };
+  counts: Record<BackupSection, number>;
+  users: User[];
+  // Wallet IDs each user owns, where the server allowed listing them.
+  user_wallets: Record<number, number[]>;
+  persons: Person[];
+  wallets: WalletBackup[];
+  recurring: RecurringTransaction[];
+  views: SavedView[];
+}
+
+export interface RestoreOptions {
+  // The signed-in user on the target server; records by users that can't be
+  // restored are attributed to them.
+  currentUser: User;
+  // Password given to recreated users, who have to change it afterwards.
+  password: string;
+}
+
+export interface RestoreReport {
+  restored: Record<BackupSection, number>;
+  failed: Record<BackupSection, number>;
+  errors: { section: BackupSection; message: string }[];
+}
+
+// Some lists are admin-only or missing on older servers; a backup leaves them
+// empty rather than failing.
+async function optional<T>(request: Promise<{ data: T }>, fallback: T): Promise<T> {
+  try {
+    return (await request).data || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function stripTransaction(transaction: Transaction): BackupTransaction {
+  const { category, person, wallet, user, ...rest } = transaction;
+  return rest;
+}
+
+function emptyCounts(): Record<BackupSection, number> {
+  return {
+    users: 0,
+    persons: 0,
+    wallets: 0,
+    categories: 0,
+    transactions: 0,
+    budgets: 0,
+    reconciliations: 0,
+    recurring: 0,
+    views: 0,
+  };
+}
+
+export async function createBackup(
+  source: BackupArchive["source"],
+  onProgress?: (done: number, total: number) => void
+): Promise<BackupArchive> {
+  const [users, persons, wallets, recurring, views] = await Promise.all([
+    optional(getUsers(), [] as User[]),
+    optional(getPersons(), [] as Person[]),
+    getWallets().then((response) => response.data || []),
+    optional(getRecurringTransactions(), [] as RecurringTransaction[]),
+    optional(getSavedViews(), [] as SavedView[]),
+  ]);
+
+  const userWallets: Record<number, number[]> = {};
+  for (const user of users) {
+    const owned = await optional(getUserWallets(user.user_id), [] as Wallet[]);
+    if (owned.length > 0) userWallets[user.user_id] = owned.map((w) => w.wallet_id);
+  }
+
+  const walletBackups: WalletBackup[] = [];
+  for (const [i, wallet] of wallets.entries()) {
+    onProgress?.(i, wallets.length);
+    const [tree, budgets, transactions, members, reconciliations] = await Promise.all([
+      getCategoryTree(wallet.wallet_id),
+      optional(getBudgets(wallet.wallet_id), [] as Budget[]),
+      getWalletTransactions(wallet.wallet_id),
+      optional(getWalletMembers(wallet.wallet_id), [] as WalletMember[]),
+      optional(getReconciliations(wallet.wallet_id), [] as Reconciliation[]),
+    ]);
+    walletBackups.push({
+      wallet,
+      categories: flattenCategories(tree.data?.roots || []),
+      budgets,
+      transactions: (transactions.data || []).map(stripTransaction),
+      members: members.map(({ user, ...member }) => member),
+      reconciliations,
+    });
+  }
+  onProgress?.(wallets.length, wallets.length);
+
+  const counts = emptyCounts();
+  counts.users = users.length;
+  counts.persons = persons.length;
+  counts.wallets = walletBackups.length;
+  // Global categories appear in every wallet's tree.
+  counts.categories = new Set(
+    walletBackups.flatMap((backup) => backup.categories.map((c) => c.category_id))
+  ).size;
+  walletBackups.forEach((backup) => {
+    counts.transactions += backup.transactions.length;
+    counts.budgets += backup.budgets.length;
+    counts.reconciliations += backup.reconciliations?.length || 0;
+  });
+  counts.recurring = recurring.length;
+  counts.views = views.length;
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    created_at: new Date().toISOString(),
+    source,
+    counts,
+    users,
+    user_wallets: userWallets,
+    persons,
+    wallets: walletBackups,
+    recurring,
+    views,
+  };
+}
+
+export function parseBackup(text: string): BackupArchive {
+  let archive: Partial<BackupArchive>;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (archive?.format !== BACKUP_FORMAT) {
+    throw new Error("The file is not a MoneyLover backup");
+  }
+  if (typeof archive.version !== "number" || archive.version > BACKUP_VERSION) {
+    throw new Error("The backup was made by a newer version of the app");
+  }
+  if (!Array.isArray(archive.wallets) || !Array.isArray(archive.users) || !archive.counts) {
+    throw new Error("The backup is incomplete");
+  }
+  // Older backups have no count for sections added since.
+  archive.counts = { ...emptyCounts(), ...archive.counts };
+  return archive as BackupArchive;
+}
+
+export function restoreTotal(archive: BackupArchive): number {
+  return Object.values(archive.counts).reduce((sum, count) => sum + count, 0);
+}
+
+// Replays a backup through the regular API, parents before children, and maps
+// each old ID to the new one as records are created. Records that exist under
+// the same name on the target (the admin, default categories) are reused.
+export async function restoreBackup(
+  archive: BackupArchive,
+  options: RestoreOptions,
+  onProgress?: (done: number) => void
+): Promise<RestoreReport> {
+  const report: RestoreReport = { restored: emptyCounts(), failed: emptyCounts(), errors: [] };
+  const ids = {
+    users: new Map<number, number>(),
+    wallets: new Map<number, number>(),
+    categories: new Map<number, number>(),
+    persons: new Map<number, number>(),
+    transactions: new Map<number, number>(),
+  };
+  let done = 0;
+
+  const attempt = async (section: BackupSection, run: () => Promise<void>) => {
+    try {
+      await run();
+      report.restored[section]++;
+    } catch (error) {
+      report.failed[section]++;
+      report.errors.push({ section, message: (error as Error).message });
+    }
+    onProgress?.(++done);
+  };
+  const same = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+  const userId = (id: number) => ids.users.get(id) ?? options.currentUser.user_id;
+
+  // Users. createUser also makes the user's first wallet, which stands in for
+  // the first wallet they owned in the backup.
+  const existingUsers = await optional(getUsers(), [options.currentUser]);
+  // Who is already a member of each restored wallet, by new IDs.
+  const memberIds = new Map<number, Set<number>>();
+  const walletsById = new Map(archive.wallets.map((backup) => [backup.wallet.wallet_id, backup.wallet]));
+  for (const user of archive.users) {
+    await attempt("users", async () => {
+      const existing = existingUsers.find((u) => same(u.username, user.username));
+      if (existing) {
+        ids.users.set(user.user_id, existing.user_id);
+        return;
+      }
+      const [firstWalletId] = archive.user_wallets[user.user_id] || [];
+      const firstWallet = walletsById.get(firstWalletId);
+      const created = (
+        await createUser({
+          username: user.username,
+          name: user.name,
+          email: user.email,
+          password: options.password,
+          user_type: user.user_type,
+          wallet_name: firstWallet?.name || user.name,
+          wallet_group_name: user.name,
+          create_categories: false,
+        })
+      ).data;
+      ids.users.set(user.user_id, created.user.user_id);
+      if (firstWallet && !ids.wallets.has(firstWallet.wallet_id)) {
+        ids.wallets.set(firstWallet.wallet_id, created.wallet.wallet_id);
+        memberIds.set(created.wallet.wallet_id, new Set([created.user.user_id]));
+      }
+    });
+  }
+
+  const existingPersons = await optional(getPersons(), [] as Person[]);
+  for (const person of archive.persons) {
+    await attempt("persons", async () => {
+      const existing = existingPersons.find((p) => same(p.person_name, person.person_name));
+      const id =
+        existing?.person_id ??
+        (await createPerson({ person_name: person.person_name, alias: person.alias || undefined }))
+          .data.person_id;
+      ids.persons.set(person.person_id, id);
+    });
+  }
+
+  // Wallets created here belong to whoever runs the restore, so the users
+  // who owned them in the backup are added back as owners.
+  const owners = (walletId: number) =>
+    archive.users.filter(
+      (user) =>
+        archive.user_wallets[user.user_id]?.includes(walletId) &&
+        userId(user.user_id) !== options.currentUser.user_id
+    );
+
+  // Balances are set once the transactions are in, so the server can't count
+  // them twice.
+  for (const { wallet } of archive.wallets) {
+    await attempt("wallets", async () => {
+      const params = { icon: wallet.icon, is_enabled: wallet.is_enabled, currency: wallet.currency };
+      const existingId = ids.wallets.get(wallet.wallet_id);
+      if (existingId) {
+        await updateWallet(existingId, params);
+        return;
+      }
+      const created = (await createWallet({ ...params, name: wallet.name, balance: 0 })).data;
+      ids.wallets.set(wallet.wallet_id, created.wallet_id);
+      const members = new Set([options.currentUser.user_id]);
+      memberIds.set(created.wallet_id, members);
+      for (const owner of owners(wallet.wallet_id)) {
+        try {
+          await addWalletMember(created.wallet_id, { identifier: owner.username, role: "owner" });
+          members.add(userId(owner.user_id));
+        } catch (error) {
+          throw new Error(
+            `"${wallet.name}" was restored, but ${owner.username} could not be made its owner: ` +
+              (error as Error).message
+          );
+        }
+      }
+    });
+  }
+
+  // Everyone else the wallets were shared with, in the role they had.
+  const usernames = new Map(archive.users.map((user) => [user.user_id, user.username]));
+  for (const backup of archive.wallets) {
+    const walletId = ids.wallets.get(backup.wallet.wallet_id);
+    const members = walletId ? memberIds.get(walletId) : undefined;
+    if (!walletId || !members) continue;
+    for (const member of backup.members || []) {
+      const newId = ids.users.get(member.user_id);
+      const username = usernames.get(member.user_id);
+      if (newId === undefined || !username || members.has(newId)) continue;
+      try {
+        await addWalletMember(walletId, { identifier: username, role: member.role });
+        members.add(newId);
+      } catch (error) {
+        report.errors.push({
+          section: "wallets",
+          message: `${username} in "${backup.wallet.name}": ${(error as Error).message}`,
+        });
+      }
+    }
+  }
+
+  // Global categories show up in every wallet's tree but are created once.
+  // root_id is derived by the server from the remapped parent_id.
+  for (const backup of archive.wallets) {
+    const walletId = ids.wallets.get(backup.wallet.wallet_id);
+    const existing = walletId ? await optional(getCategories(walletId), [] as Category[]) : [];
+    for (const category of backup.categories) {
+      if (ids.categories.has(category.category_id)) continue;
+      await attempt("categories", async () => {
+        if (!walletId) throw new Error(`Wallet "${backup.wallet.name}" was not restored`);
+        const parentId = category.parent_id === null ? null : ids.categories.get(category.parent_id);
+        if (parentId === undefined) throw new Error(`The parent of "${category.name}" was not restored`);
+        const match = existing.find((c) => same(c.name, category.name) && c.parent_id === parentId);
+        const id =
+          match?.category_id ??
+          (
+            await createCategory(walletId, {
+              name: category.name,
+              icon: category.icon,
+              parent_id: parentId,
+              is_global: category.is_global,
+              kind: category.kind,
+            })
+          ).data.category_id;
+        ids.categories.set(category.category_id, id);
+      });
+    }
+  }
+
+  // Oldest first, so a repayment comes after the debt it pays back. The legs
+  // of a transfer are recreated together as one transfer.
+  const transactions = [
+    ...new Map(
+      archive.wallets.flatMap((backup) => backup.transactions).map((t) => [t.transaction_id, t])
+    ).values(),
+  ].sort(
+    (a, b) =>
+      new Date(a.transaction_time).getTime() - new Date(b.transaction_time).getTime() ||
+      a.transaction_id - b.transaction_id
+  );
+  const transfers = new Map<number, BackupTransaction[]>();
+  transactions.forEach((t) => {
+    if (t.transfer_id) transfers.set(t.transfer_id, [...(transfers.get(t.transfer_id) || []), t]);
+  });
+
+  const mapped = (map: Map<number, number>, id: number | null | undefined, what: string) => {
+    if (id === null || id === undefined) return null;
+    const newId = map.get(id);
+    if (newId === undefined) throw new Error(`${what} ${id} was not restored`);
+    return newId;
+  };
+
+  for (const transaction of transactions) {
+    if (ids.transactions.has(transaction.transaction_id)) continue;
+    const legs = transaction.transfer_id ? transfers.get(transaction.transfer_id) || [] : [];
+    const isLeg = (t: BackupTransaction) => getTransactionKind(t) === "transfer";
+    const from = legs.find((t) => isLeg(t) && t.amount < 0);
+    const to = legs.find((t) => isLeg(t) && t.amount > 0);
+
+    if (from && to) {
+      const fee = legs.find((t) => !isLeg(t));
+      const failedBefore = report.failed.transactions;
+      await attempt("transactions", async () => {
+        const transfer = (
+          await createTransfer({
+            from_wallet_id: mapped(ids.wallets, from.wallet_id, "Wallet")!,
+            to_wallet_id: mapped(ids.wallets, to.wallet_id, "Wallet")!,
+            amount: Math.abs(from.amount),
+            to_amount: to.original_currency ? Math.abs(to.amount) : null,
+            original_currency: to.original_currency,
+            original_amount: to.original_amount,
+            fee: fee ? Math.abs(fee.amount) : undefined,
+            note: from.note || undefined,
+            user_id: userId(from.user_id),
+            transaction_time: from.transaction_time,
+          })
+        ).data;
+        ids.transactions.set(from.transaction_id, transfer.from_transaction.transaction_id);
+        ids.transactions.set(to.transaction_id, transfer.to_transaction.transaction_id);
+        if (fee && transfer.fee_transaction) {
+          ids.transactions.set(fee.transaction_id, transfer.fee_transaction.transaction_id);
+        }
+      });
+      // The other legs succeed or fail together with this one.
+      const outcome = report.failed.transactions > failedBefore ? report.failed : report.restored;
+      outcome.transactions += legs.length - 1;
+      done += legs.length - 1;
+      continue;
+    }
+
+    await attempt("transactions", async () => {
+      const created = (
+        await createTransaction({
+          wallet_id: mapped(ids.wallets, transaction.wallet_id, "Wallet")!,
+          category_id: mapped(ids.categories, transaction.category_id, "Category")!,
+          amount: transaction.amount,
+          kind: transaction.kind,
+          note: transaction.note || undefined,
+          person_id: mapped(ids.persons, transaction.person_id, "Person"),
+          user_id: userId(transaction.user_id),
+          transaction_time: transaction.transaction_time,
+          repayment_of: mapped(ids.transactions, transaction.repayment_of, "Transaction"),
+          external_id: transaction.external_id || undefined,
+          original_currency: transaction.original_currency,
+          original_amount: transaction.original_amount,
+        })
+      ).data;
+      ids.transactions.set(transaction.transaction_id, created.transaction_id);
+    });
+  }
+
+  for (const backup of archive.wallets) {
+    for (const budget of backup.budgets) {
+      await attempt("budgets", async () => {
+        const { budget_id, wallet_id, ...params } = budget;
+        await createBudget(mapped(ids.wallets, wallet_id, "Wallet")!, {
+          ...params,
+          category_id: mapped(ids.categories, budget.category_id, "Category")!,
+        });
+      });
+    }
+  }
+
+  // Oldest first, each pointing at the restored adjustment it made.
+  for (const backup of archive.wallets) {
+    const reconciliations = [...(backup.reconciliations || [])].sort(
+      (a, b) => new Date(a.reconciled_at).getTime() - new Date(b.reconciled_at).getTime()
+    );
+    for (const reconciliation of reconciliations) {
+      await attempt("reconciliations", async () => {
+        await createReconciliation(mapped(ids.wallets, reconciliation.wallet_id, "Wallet")!, {
+          statement_balance: reconciliation.statement_balance,
+          computed_balance: reconciliation.computed_balance,
+          transaction_id: mapped(ids.transactions, reconciliation.transaction_id, "Transaction"),
+          reconciled_at: reconciliation.reconciled_at,
+        });
+      });
+    }
+  }
+
+  for (const rule of archive.recurring) {
+    await attempt("recurring", async () => {
+      const { recurring_id, category, ...params } = rule;
+      await createRecurringTransaction({
+        ...params,
+        wallet_id: mapped(ids.wallets, rule.wallet_id, "Wallet")!,
+        category_id: mapped(ids.categories, rule.category_id, "Category")!,
+        user_id: userId(rule.user_id),
+        exceptions: rule.exceptions.map((exception) => ({
+          ...exception,
+          category_id: mapped(ids.categories, exception.category_id, "Category") ?? undefined,
+        })),
+      });
+    });
+  }
+
+  for (const view of archive.views) {
+    await attempt("views", async () => {
+      const { definition } = view;
+      const { filters } = definition;
+      await createSavedView({
+        name: view.name,
+        definition: {
+          ...definition,
+          wallet_id: mapped(ids.wallets, definition.wallet_id, "Wallet")!,
+          filters: {
+            ...filters,
+            category_ids: filters.category_ids?.map((id) => mapped(ids.categories, id, "Category")!),
+            person_id: mapped(ids.persons, filters.person_id, "Person") ?? undefined,
+            user_id: filters.user_id ? userId(filters.user_id) : undefined,
+          },
+        },
+      });
+    });
+  }
+
+  for (const { wallet } of archive.wallets) {
+    const walletId = ids.wallets.get(wallet.wallet_id);
+    if (!walletId) continue;
+    try {
+      await updateWallet(walletId, { balance: wallet.balance });
+    } catch (error) {
+      report.errors.push({
+        section: "wallets",
+        message: `Balance of "${wallet.name}": ${(error as Error).message}`,
+      });
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,115 @@
+import { startOfDay, endOfDay, format, parseISO } from "date-fns";
+import { Budget, CategoryTreeNode, Transaction } from "./api";
+import { Period, computePeriod } from "./period";
+import { getTransactionKind } from "./classification";
+
+export interface BudgetProgress {
+  budget: Budget;
+  period: Period;
+  spent: number;
+  remaining: number;
+  // Share of the limit used so far; above 1 once the budget is exceeded.
+  ratio: number;
+  // False for a custom budget whose window doesn't contain the date; its
+  // spending isn't counted.
+  active: boolean;
+}
+
+// The window a budget is measured over around `date`. Custom budgets have a
+// fixed window and ignore the date.
+export function budgetPeriod(budget: Budget, date: Date = new Date()): Period {
+  if (budget.period_type === "custom" && budget.start_date) {
+    const start = startOfDay(parseISO(budget.start_date));
+    const end = endOfDay(parseISO(budget.end_date || budget.start_date));
+    return { start, end, label: `${format(start, "MMM d")} - ${format(end, "MMM d, yyyy")}` };
+  }
+  return computePeriod(budget.period_type === "weekly" ? "weekly" : "monthly", date);
+}
+
+function inPeriod(period: Period, date: Date): boolean {
+  return period.start <= date && date <= period.end;
+}
+
+export function findCategoryNode(roots: CategoryTreeNode[], categoryId: number): CategoryTreeNode | null {
+  for (const node of roots) {
+    if (node.category.category_id === categoryId) return node;
+    const found = findCategoryNode(node.children || [], categoryId);
+    if (found) return found;
+  }
+  return null;
+}
+
+export function collectIds(node: CategoryTreeNode, ids: Set<number>) {
+  ids.add(node.category.category_id);
+  node.children?.forEach((child) => collectIds(child, ids));
+}
+
+export function budgetCategoryIds(budget: Budget, roots: CategoryTreeNode[]): Set<number> {
+  const ids = new Set([budget.category_id]);
+  const node = budget.include_subcategories ? findCategoryNode(roots, budget.category_id) : null;
+  if (node) collectIds(node, ids);
+  return ids;
+}
+
+// Only expenses count against a budget.
+export function budgetProgress(
+  budget: Budget,
+  transactions: Transaction[],
+  roots: CategoryTreeNode[],
+  date: Date = new Date()
+): BudgetProgress {
+  const period = budgetPeriod(budget, date);
+  const active = inPeriod(period, date);
+  const categoryIds = budgetCategoryIds(budget, roots);
+  const spent = transactions
+    .filter((t) => {
+      const time = new Date(t.transaction_time);
+      return (
+        active &&
+        t.wallet_id === budget.wallet_id &&
+        categoryIds.has(t.category_id) &&
+        getTransactionKind(t) === "expense" &&
+        time >= period.start &&
+        time <= period.end
+      );
+    })
+    .reduce((sum, t) => sum + Math.abs(t.amount), 0);
+
+  return {
+    budget,
+    period,
+    spent,
+    remaining: budget.amount - spent,
+    ratio: budget.amount > 0 ? spent / budget.amount : spent > 0 ? Infinity : 0,
+    active,
+  };
+}
+
+// The smallest range covering the window of every budget active on `date`,
+// so one request can fetch the transactions needed for all of them.
+export function coveringPeriod(budgets: Budget[], date: Date = new Date()): Period | null {
+  const periods = budgets.map((b) => budgetPeriod(b, date)).filter((p) => inPeriod(p, date));
+  if (periods.length === 0) return null;
+  const start = new Date(Math.min(...periods.map((p) => p.start.getTime())));
+  const end = new Date(Math.max(...periods.map((p) => p.end.getTime())));
+  return { start, end, label: "" };
+}
+
+// Budgets that a draft expense would push over their limit; ones already over
+// without it are left out. The draft replaces any saved copy of the same
+// transaction in `transactions`.
+export function budgetsExceededBy(
+  draft: Transaction,
+  budgets: Budget[],
+  transactions: Transaction[],
+  roots: CategoryTreeNode[]
+): BudgetProgress[] {
+  if (getTransactionKind(draft) !== "expense") return [];
+  const date = new Date(draft.transaction_time);
+  const others = transactions.filter((t) => t.transaction_id !== draft.transaction_id);
+  return budgets
+    .filter((b) => budgetCategoryIds(b, roots).has(draft.category_id))
+    .filter((b) => budgetProgress(b, others, roots, date).remaining >= 0)
+    .map((b) => budgetProgress(b, [...others, draft], roots, date))
+    .filter((p) => p.active && p.remaining < 0);
+}
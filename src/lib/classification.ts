@@ -0,0 +1,85 @@
+import { Category, Transaction, TransactionKind } from "./api";
+
+export type CashFlow = "in" | "out" | "neutral";
+
+export const TRANSACTION_KINDS: { kind: TransactionKind; label: string; flow: CashFlow }[] = [
+  { kind: "expense", label: "Expense", flow: "out" },
+  { kind: "income", label: "Income", flow: "in" },
+  { kind: "transfer", label: "Transfer", flow: "neutral" },
+  // Borrowing brings money in; lending sends it out.
+  { kind: "debt", label: "Debt", flow: "in" },
+  { kind: "loan", label: "Loan", flow: "out" },
+  { kind: "adjustment", label: "Adjustment", flow: "neutral" },
+];
+
+const FLOWS = new Map(TRANSACTION_KINDS.map(({ kind, flow }) => [kind, flow]));
+const LABELS = new Map(TRANSACTION_KINDS.map(({ kind, label }) => [kind, label]));
+
+export function kindLabel(kind: TransactionKind): string {
+  return LABELS.get(kind) || kind;
+}
+
+export function kindFlow(kind: TransactionKind): CashFlow {
+  return FLOWS.get(kind) || "out";
+}
+
+// Categories from servers that predate kinds have none, so they are
+// classified the way they always were: the income root category (or one named
+// like it) is income, anything else an expense.
+export function getCategoryKind(category: Category | null | undefined): TransactionKind {
+  if (category?.kind) return category.kind;
+  return category?.root_id === 1 || !!category?.name?.toLowerCase().includes("income")
+    ? "income"
+    : "expense";
+}
+
+// A transaction's own kind wins, then its category's.
+export function getTransactionKind(transaction: Transaction): TransactionKind {
+  return transaction.kind || getCategoryKind(transaction.category);
+}
+
+// Transfers move money between wallets, so the sign of the stored amount
+// says which side of the transfer this is; adjustments are signed the same
+// way. A repayment keeps the kind of the debt or loan it settles and moves
+// money the other way.
+export function getCashFlow(transaction: Transaction): CashFlow {
+  const kind = getTransactionKind(transaction);
+  if (kind === "transfer" || kind === "adjustment") {
+    return transaction.amount < 0 ? "out" : "in";
+  }
+  const flow = kindFlow(kind);
+  if (transaction.repayment_of) {
+    return flow === "in" ? "out" : "in";
+  }
+  return flow;
+}
+
+export function signedAmount(transaction: Transaction): number {
+  const amount = Math.abs(transaction.amount);
+  return getCashFlow(transaction) === "in" ? amount : -amount;
+}
+
+export interface KindTotals {
+  income: number;
+  expense: number;
+  transfer: number;
+  debt: number;
+  loan: number;
+  adjustment: number;
+  // Change in wallet balance, including transfers, debts and loans.
+  net: number;
+}
+
+// Income and expense only count income and expense transactions; money moved
+// between wallets or borrowed and lent is reported separately, net of
+// repayments.
+export function summarizeTransactions(transactions: Transaction[]): KindTotals {
+  return transactions.reduce<KindTotals>(
+    (totals, t) => {
+      totals[getTransactionKind(t)] += t.repayment_of ? -Math.abs(t.amount) : Math.abs(t.amount);
+      totals.net += signedAmount(t);
+      return totals;
+    },
+    { income: 0, expense: 0, transfer: 0, debt: 0, loan: 0, adjustment: 0, net: 0 }
+  );
+}
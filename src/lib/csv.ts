@@ -0,0 +1,70 @@
+const DELIMITERS = [",", ";", "\t", "|"];
+
+// Bank exports vary: European ones tend to use ";" because "," is the decimal
+// separator. The delimiter that splits the first line into most fields wins.
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  return DELIMITERS.reduce(
+    (best, delimiter) =>
+      firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best,
+    ","
+  );
+}
+
+// RFC 4180: quoted fields may contain delimiters, newlines and "" escapes.
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const source = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+// Spreadsheets run text starting with these as a formula; a leading
+// apostrophe makes them show it as text instead.
+export function escapeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function quoteField(value: string, delimiter: string): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// The byte order mark makes Excel read the file as UTF-8.
+export function toCsv(rows: string[][], delimiter = ","): string {
+  const lines = rows.map((row) => row.map((value) => quoteField(value, delimiter)).join(delimiter));
+  return "\uFEFF" + lines.join("\r\n");
+}
@@ -0,0 +1,188 @@
+import type { Wallet } from "./api";
+import { parseCsv } from "./csv";
+import { readJSON, writeJSON } from "./storage";
+
+// Servers from before currencies store none; their amounts were always shown
+// as dollars.
+export const DEFAULT_CURRENCY = "USD";
+
+export const COMMON_CURRENCIES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "JPY",
+  "CHF",
+  "CAD",
+  "AUD",
+  "NZD",
+  "CNY",
+  "HKD",
+  "SGD",
+  "INR",
+  "KRW",
+  "THB",
+  "VND",
+  "SEK",
+  "NOK",
+  "DKK",
+  "PLN",
+  "CZK",
+  "BRL",
+  "MXN",
+  "ZAR",
+];
+
+export function isCurrencyCode(code: string): boolean {
+  return /^[A-Z]{3}$/.test(code);
+}
+
+export function walletCurrency(wallet: Wallet | null | undefined): string {
+  return wallet?.currency || DEFAULT_CURRENCY;
+}
+
+// For totals across wallets. Wallets in different currencies fall back to
+// the default, since their amounts are added up unconverted.
+export function commonCurrency(wallets: (Wallet | null | undefined)[]): string {
+  const currencies = new Set(wallets.map(walletCurrency));
+  return currencies.size === 1 ? [...currencies][0] : DEFAULT_CURRENCY;
+}
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+export function formatMoney(value: number, currency: string = DEFAULT_CURRENCY): string {
+  let formatter = formatters.get(currency);
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(undefined, { style: "currency", currency });
+    } catch {
+      // Not an ISO code the browser knows; show the code itself.
+      const plain = value.toLocaleString(undefined, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      });
+      return `${plain} ${currency}`;
+    }
+    formatters.set(currency, formatter);
+  }
+  return formatter.format(value);
+}
+
+// Rates are quoted the way rate feeds publish them: one unit of the base
+// currency buys `rates[code]` units of `code`.
+export interface RateTable {
+  base: string;
+  rates: Record<string, number>;
+  updated_at: string | null;
+}
+
+function rateOf(table: RateTable, code: string): number | undefined {
+  return code === table.base ? 1 : table.rates[code];
+}
+
+// Null when the table has no rate for either currency.
+export function convert(amount: number, from: string, to: string, table: RateTable): number | null {
+  if (from === to) return amount;
+  const fromRate = rateOf(table, from);
+  const toRate = rateOf(table, to);
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+}
+
+// Quotes the same rates against another base, which needs a rate itself.
+export function rebase(table: RateTable, base: string): RateTable | null {
+  if (Object.keys(table.rates).length === 0) return { ...table, base };
+  const baseRate = rateOf(table, base);
+  if (!baseRate) return null;
+  const rates: Record<string, number> = {};
+  [table.base, ...Object.keys(table.rates)].forEach((code) => {
+    if (code !== base) rates[code] = rateOf(table, code)! / baseRate;
+  });
+  return { base, rates, updated_at: table.updated_at };
+}
+
+// Reads {"base": "USD", "rates": {"EUR": 0.92}} as served by most rate APIs,
+// or CSV lines of "EUR,0.92" quoted against `base`.
+export function parseRateFile(text: string, base: string): RateTable {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{")) {
+    let data: { base?: unknown; rates?: unknown };
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error("The file is not valid JSON");
+    }
+    if (!data.rates || typeof data.rates !== "object") {
+      throw new Error('The file has no "rates" object');
+    }
+    const fileBase = typeof data.base === "string" ? data.base.toUpperCase() : base;
+    const rates: Record<string, number> = {};
+    Object.entries(data.rates as Record<string, unknown>).forEach(([code, rate]) => {
+      const value = typeof rate === "number" ? rate : parseFloat(String(rate));
+      if (isCurrencyCode(code.toUpperCase()) && value > 0) rates[code.toUpperCase()] = value;
+    });
+    return { base: fileBase, rates, updated_at: new Date().toISOString() };
+  }
+
+  const rates: Record<string, number> = {};
+  parseCsv(trimmed).forEach(([cell = "", rate = ""]) => {
+    const code = cell.trim().toUpperCase();
+    const value = parseFloat(rate.replace(",", "."));
+    // Header lines don't parse and are skipped.
+    if (isCurrencyCode(code) && value > 0) rates[code] = value;
+  });
+  if (Object.keys(rates).length === 0) throw new Error("No rates found in the file");
+  return { base, rates, updated_at: new Date().toISOString() };
+}
+
+// Imported rates replace the ones for the same currencies.
+export function mergeRates(table: RateTable, imported: RateTable): RateTable {
+  const quoted = imported.base === table.base ? imported : rebase(imported, table.base);
+  if (!quoted) {
+    throw new Error(`The file is quoted in ${imported.base} and has no rate for ${table.base}`);
+  }
+  return {
+    base: table.base,
+    rates: { ...table.rates, ...quoted.rates },
+    updated_at: quoted.updated_at,
+  };
+}
+
+// Net worth across wallets in the table's base currency. Wallets whose
+// currency has no rate are left out and reported.
+export function netWorth(wallets: Wallet[], table: RateTable): { total: number; missing: string[] } {
+  let total = 0;
+  const missing = new Set<string>();
+  wallets
+    .filter((wallet) => wallet.is_enabled)
+    .forEach((wallet) => {
+      const value = convert(wallet.balance, walletCurrency(wallet), table.base, table);
+      if (value === null) missing.add(walletCurrency(wallet));
+      else total += value;
+    });
+  return { total, missing: [...missing].sort() };
+}
+
+// Rates are kept on this device, per server profile.
+type RatesListener = () => void;
+
+const listeners = new Set<RatesListener>();
+
+function ratesKey(serverId: string): string {
+  return `exchange-rates:${serverId}`;
+}
+
+export function readRates(serverId: string, fallbackBase: string): RateTable {
+  return readJSON<RateTable>(ratesKey(serverId), { base: fallbackBase, rates: {}, updated_at: null });
+}
+
+export function writeRates(serverId: string, table: RateTable): void {
+  writeJSON(ratesKey(serverId), table);
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeRates(listener: RatesListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,103 @@
+import { Person, Transaction } from "./api";
+import { getTransactionKind } from "./classification";
+
+export type DebtKind = "debt" | "loan";
+
+export const DEBT_KINDS: DebtKind[] = ["debt", "loan"];
+
+// How a debt or loan reads from the user's side.
+export const DEBT_LABELS: Record<DebtKind, { action: string; preposition: string }> = {
+  debt: { action: "Borrowed", preposition: "from" },
+  loan: { action: "Lent", preposition: "to" },
+};
+
+export interface DebtEntry {
+  transaction: Transaction;
+  kind: DebtKind;
+  amount: number;
+  repaid: number;
+  outstanding: number;
+  repayments: Transaction[];
+}
+
+export interface PersonBalance {
+  personId: number | null;
+  person?: Person;
+  // Still owed to the user by this person.
+  receivable: number;
+  // Still owed by the user to this person.
+  payable: number;
+  entries: DebtEntry[];
+}
+
+export interface Ledger {
+  entries: DebtEntry[];
+  balances: PersonBalance[];
+  receivable: number;
+  payable: number;
+}
+
+export function isDebtKind(kind: string): kind is DebtKind {
+  return kind === "debt" || kind === "loan";
+}
+
+// Groups debts and loans with their repayments and works out what is still
+// outstanding, per transaction and per person. Transactions of other kinds
+// are ignored, so any list can be passed in.
+export function buildLedger(transactions: Transaction[]): Ledger {
+  const repayments = new Map<number, Transaction[]>();
+  transactions.forEach((t) => {
+    if (t.repayment_of) {
+      repayments.set(t.repayment_of, [...(repayments.get(t.repayment_of) || []), t]);
+    }
+  });
+
+  const entries: DebtEntry[] = transactions
+    .filter((t) => !t.repayment_of && isDebtKind(getTransactionKind(t)))
+    .map((transaction) => {
+      const linked = repayments.get(transaction.transaction_id) || [];
+      const amount = Math.abs(transaction.amount);
+      const repaid = linked.reduce((sum, r) => sum + Math.abs(r.amount), 0);
+      return {
+        transaction,
+        kind: getTransactionKind(transaction) as DebtKind,
+        amount,
+        repaid,
+        outstanding: Math.max(0, amount - repaid),
+        repayments: linked.sort(
+          (a, b) => new Date(a.transaction_time).getTime() - new Date(b.transaction_time).getTime()
+        ),
+      };
+    })
+    .sort(
+      (a, b) =>
+        new Date(b.transaction.transaction_time).getTime() -
+        new Date(a.transaction.transaction_time).getTime()
+    );
+
+  const byPerson = new Map<number | null, PersonBalance>();
+  entries.forEach((entry) => {
+    const personId = entry.transaction.person_id;
+    const balance = byPerson.get(personId) || {
+      personId,
+      person: entry.transaction.person,
+      receivable: 0,
+      payable: 0,
+      entries: [],
+    };
+    if (entry.kind === "loan") balance.receivable += entry.outstanding;
+    else balance.payable += entry.outstanding;
+    balance.entries.push(entry);
+    byPerson.set(personId, balance);
+  });
+
+  const balances = [...byPerson.values()].sort(
+    (a, b) => b.receivable + b.payable - (a.receivable + a.payable)
+  );
+  return {
+    entries,
+    balances,
+    receivable: balances.reduce((sum, b) => sum + b.receivable, 0),
+    payable: balances.reduce((sum, b) => sum + b.payable, 0),
+  };
+}
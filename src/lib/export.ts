@@ -0,0 +1,158 @@
+import { format } from "date-fns";
+import { CategoryTreeNode, Person, Transaction, User, Wallet } from "./api";
+import { getTransactionKind, kindLabel, signedAmount } from "./classification";
+import { flattenCategories } from "./search";
+import { escapeFormula, toCsv } from "./csv";
+import { walletCurrency } from "./currency";
+
+export type ExportFormat = "csv" | "json" | "xlsx";
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV" },
+  { format: "xlsx", label: "Excel (XLSX)" },
+  { format: "json", label: "JSON" },
+];
+
+// One exported transaction with its ids resolved to names. Amounts are signed:
+// negative amounts are money going out of the wallet.
+export interface ExportRecord {
+  transaction_id: number;
+  date: string;
+  wallet: string;
+  category: string;
+  kind: string;
+  amount: number;
+  currency: string;
+  // Set when the transaction was paid in another currency.
+  original_amount: number | null;
+  original_currency: string;
+  note: string;
+  person: string;
+  user: string;
+  entry_time: string;
+  last_modified_time: string;
+}
+
+const EXPORT_COLUMNS: { key: keyof ExportRecord; label: string }[] = [
+  { key: "date", label: "Date" },
+  { key: "wallet", label: "Wallet" },
+  { key: "category", label: "Category" },
+  { key: "kind", label: "Kind" },
+  { key: "amount", label: "Amount" },
+  { key: "currency", label: "Currency" },
+  { key: "original_amount", label: "Original amount" },
+  { key: "original_currency", label: "Original currency" },
+  { key: "note", label: "Note" },
+  { key: "person", label: "Person" },
+  { key: "user", label: "User" },
+  { key: "entry_time", label: "Entered" },
+  { key: "last_modified_time", label: "Modified" },
+  { key: "transaction_id", label: "ID" },
+];
+
+export interface ExportLookups {
+  roots: CategoryTreeNode[];
+  persons: Person[];
+  users: User[];
+  wallets: Wallet[];
+}
+
+const TIME_FORMAT = "yyyy-MM-dd HH:mm";
+
+// "Food > Groceries" for a subcategory.
+function categoryPaths(roots: CategoryTreeNode[]): Map<number, string> {
+  const paths = new Map<number, string>();
+  const visit = (nodes: CategoryTreeNode[], prefix: string) => {
+    nodes.forEach(({ category, children }) => {
+      const path = prefix ? `${prefix} > ${category.name}` : category.name;
+      paths.set(category.category_id, path);
+      visit(children || [], path);
+    });
+  };
+  visit(roots, "");
+  return paths;
+}
+
+export function exportRecords(transactions: Transaction[], lookups: ExportLookups): ExportRecord[] {
+  const paths = categoryPaths(lookups.roots);
+  const categories = new Map(flattenCategories(lookups.roots).map((c) => [c.category_id, c]));
+  const persons = new Map(lookups.persons.map((p) => [p.person_id, p]));
+  const users = new Map(lookups.users.map((u) => [u.user_id, u]));
+  const wallets = new Map(lookups.wallets.map((w) => [w.wallet_id, w]));
+
+  return [...transactions]
+    .sort((a, b) => new Date(a.transaction_time).getTime() - new Date(b.transaction_time).getTime())
+    .map((t) => {
+      // Prefer the tree's category so the kind fallback sees its current kind.
+      const category = categories.get(t.category_id) || t.category;
+      const person = t.person_id ? persons.get(t.person_id) || t.person : undefined;
+      const wallet = wallets.get(t.wallet_id) || t.wallet;
+      return {
+        transaction_id: t.transaction_id,
+        date: format(new Date(t.transaction_time), TIME_FORMAT),
+        wallet: wallet?.name || "",
+        category: paths.get(t.category_id) || category?.name || "",
+        kind: kindLabel(getTransactionKind({ ...t, category })),
+        amount: signedAmount({ ...t, category }),
+        currency: walletCurrency(wallet),
+        original_amount: t.original_amount ?? null,
+        original_currency: t.original_currency || "",
+        note: t.note || "",
+        person: person?.person_name || "",
+        user: users.get(t.user_id)?.name || t.user?.name || "",
+        entry_time: format(new Date(t.entry_time), TIME_FORMAT),
+        last_modified_time: format(new Date(t.last_modified_time), TIME_FORMAT),
+      };
+    });
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// The spreadsheet library is large, so it is only loaded for XLSX exports.
+export async function downloadExport(records: ExportRecord[], exportFormat: ExportFormat, baseName: string) {
+  const fileName = `${baseName}.${exportFormat}`;
+  if (exportFormat === "json") {
+    downloadBlob(new Blob([JSON.stringify(records, null, 2)], { type: "application/json" }), fileName);
+    return;
+  }
+
+  const rows = records.map((record) => EXPORT_COLUMNS.map(({ key }) => record[key]));
+  const header = EXPORT_COLUMNS.map(({ label }) => label);
+  if (exportFormat === "csv") {
+    // Only text is escaped; amounts stay numbers, negative ones included.
+    // XLSX cells are typed, so text there never runs as a formula.
+    const cells = rows.map((row) =>
+      row.map((value) =>
+        value === null ? "" : typeof value === "string" ? escapeFormula(value) : String(value)
+      )
+    );
+    const csv = toCsv([header, ...cells]);
+    downloadBlob(new Blob([csv], { type: "text/csv;charset=utf-8" }), fileName);
+    return;
+  }
+
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([header, ...rows]), "Transactions");
+  const data = XLSX.write(workbook, { bookType: "xlsx", type: "array" });
+  downloadBlob(
+    new Blob([data], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }),
+    fileName
+  );
+}
+
+// "groceries-2026-10" style names: lowercase words joined by dashes.
+export function exportFileName(...parts: string[]): string {
+  return parts
+    .join(" ")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
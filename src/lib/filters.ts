@@ -0,0 +1,180 @@
+import { format } from "date-fns";
+import { CategoryTreeNode, Person, Transaction, TransactionFilters, User } from "./api";
+import { getTransactionKind } from "./classification";
+import { findCategoryNode } from "./budgets";
+
+export type AmountOperator = NonNullable<TransactionFilters["amount_op"]>;
+
+export const AMOUNT_OPERATORS: { op: AmountOperator; label: string }[] = [
+  { op: "eq", label: "=" },
+  { op: "gt", label: ">" },
+  { op: "ge", label: "≥" },
+  { op: "lt", label: "<" },
+  { op: "le", label: "≤" },
+];
+
+// The filters picked in the filter sheet. Wallet and transaction time come
+// from the selected wallet and period instead.
+export type AdvancedFilters = Omit<
+  TransactionFilters,
+  "wallet_id" | "start_transaction_time" | "end_transaction_time" | "kinds"
+>;
+
+export interface FilterChip {
+  key: string;
+  label: string;
+  remove: (filters: AdvancedFilters) => AdvancedFilters;
+}
+
+export interface FilterLookups {
+  roots: CategoryTreeNode[];
+  persons: Person[];
+  users: User[];
+}
+
+function compareAmount(amount: number, op: AmountOperator, value: number): boolean {
+  switch (op) {
+    case "eq":
+      return Math.abs(amount - value) < 0.005;
+    case "gt":
+      return amount > value;
+    case "ge":
+      return amount >= value;
+    case "lt":
+      return amount < value;
+    case "le":
+      return amount <= value;
+  }
+}
+
+function inRange(value: string, start?: string, end?: string): boolean {
+  const time = new Date(value).getTime();
+  return (
+    (!start || time >= new Date(start).getTime()) && (!end || time <= new Date(end).getTime())
+  );
+}
+
+// Client-side mirror of the server filters. The server's note search is
+// fuzzy; a case-insensitive substring match is close enough for optimistic
+// updates, which are refetched anyway.
+export function matchesFilters(transaction: Transaction, filters: TransactionFilters): boolean {
+  const note = filters.fuzzy_note?.trim().toLowerCase();
+  return (
+    (!filters.wallet_id || transaction.wallet_id === filters.wallet_id) &&
+    (!filters.kinds?.length || filters.kinds.includes(getTransactionKind(transaction))) &&
+    (!filters.user_id || transaction.user_id === filters.user_id) &&
+    (!filters.person_id || transaction.person_id === filters.person_id) &&
+    (!filters.category_ids?.length || filters.category_ids.includes(transaction.category_id)) &&
+    (!filters.amount_op ||
+      filters.amount_value === undefined ||
+      compareAmount(Math.abs(transaction.amount), filters.amount_op, filters.amount_value)) &&
+    (!note || (transaction.note || "").toLowerCase().includes(note)) &&
+    inRange(transaction.transaction_time, filters.start_transaction_time, filters.end_transaction_time) &&
+    inRange(transaction.entry_time, filters.start_entry_time, filters.end_entry_time) &&
+    inRange(
+      transaction.last_modified_time,
+      filters.start_last_modified_time,
+      filters.end_last_modified_time
+    )
+  );
+}
+
+// Drops unset fields so equal filters produce equal query keys.
+export function compactFilters(filters: AdvancedFilters): AdvancedFilters {
+  const compact: AdvancedFilters = {};
+  if (filters.category_ids?.length) compact.category_ids = filters.category_ids;
+  if (filters.person_id) compact.person_id = filters.person_id;
+  if (filters.user_id) compact.user_id = filters.user_id;
+  if (filters.amount_op && filters.amount_value !== undefined) {
+    compact.amount_op = filters.amount_op;
+    compact.amount_value = filters.amount_value;
+  }
+  if (filters.fuzzy_note?.trim()) compact.fuzzy_note = filters.fuzzy_note.trim();
+  if (filters.start_entry_time) compact.start_entry_time = filters.start_entry_time;
+  if (filters.end_entry_time) compact.end_entry_time = filters.end_entry_time;
+  if (filters.start_last_modified_time)
+    compact.start_last_modified_time = filters.start_last_modified_time;
+  if (filters.end_last_modified_time)
+    compact.end_last_modified_time = filters.end_last_modified_time;
+  return compact;
+}
+
+function rangeLabel(start?: string, end?: string): string {
+  const from = start ? format(new Date(start), "MMM d") : "…";
+  const to = end ? format(new Date(end), "MMM d") : "…";
+  return from === to ? from : `${from} - ${to}`;
+}
+
+// One removable chip per active filter, one per category for category lists.
+export function filterChips(filters: AdvancedFilters, lookups: FilterLookups): FilterChip[] {
+  const chips: FilterChip[] = [];
+
+  filters.category_ids?.forEach((categoryId) => {
+    const node = findCategoryNode(lookups.roots, categoryId);
+    chips.push({
+      key: `category-${categoryId}`,
+      label: node ? `${node.category.icon} ${node.category.name}` : `Category #${categoryId}`,
+      remove: (f) => ({
+        ...f,
+        category_ids: f.category_ids?.filter((id) => id !== categoryId),
+      }),
+    });
+  });
+
+  if (filters.person_id) {
+    const person = lookups.persons.find((p) => p.person_id === filters.person_id);
+    chips.push({
+      key: "person",
+      label: `Person: ${person?.person_name || `#${filters.person_id}`}`,
+      remove: (f) => ({ ...f, person_id: undefined }),
+    });
+  }
+
+  if (filters.user_id) {
+    const user = lookups.users.find((u) => u.user_id === filters.user_id);
+    chips.push({
+      key: "user",
+      label: `Added by: ${user?.name || user?.username || `#${filters.user_id}`}`,
+      remove: (f) => ({ ...f, user_id: undefined }),
+    });
+  }
+
+  if (filters.amount_op && filters.amount_value !== undefined) {
+    const op = AMOUNT_OPERATORS.find((o) => o.op === filters.amount_op)?.label;
+    chips.push({
+      key: "amount",
+      label: `Amount ${op} ${filters.amount_value}`,
+      remove: (f) => ({ ...f, amount_op: undefined, amount_value: undefined }),
+    });
+  }
+
+  if (filters.fuzzy_note) {
+    chips.push({
+      key: "note",
+      label: `Note: "${filters.fuzzy_note}"`,
+      remove: (f) => ({ ...f, fuzzy_note: undefined }),
+    });
+  }
+
+  if (filters.start_entry_time || filters.end_entry_time) {
+    chips.push({
+      key: "entry",
+      label: `Entered ${rangeLabel(filters.start_entry_time, filters.end_entry_time)}`,
+      remove: (f) => ({ ...f, start_entry_time: undefined, end_entry_time: undefined }),
+    });
+  }
+
+  if (filters.start_last_modified_time || filters.end_last_modified_time) {
+    chips.push({
+      key: "modified",
+      label: `Modified ${rangeLabel(filters.start_last_modified_time, filters.end_last_modified_time)}`,
+      remove: (f) => ({
+        ...f,
+        start_last_modified_time: undefined,
+        end_last_modified_time: undefined,
+      }),
+    });
+  }
+
+  return chips;
+}
@@ -0,0 +1,52 @@
+// Minimal promise wrappers over IndexedDB for the few object stores the app
+// keeps on-device. Stores are created on first open; bump DB_VERSION and
+// extend `upgrade` when adding one.
+const DB_NAME = "moneylover";
+const DB_VERSION = 1;
+
+export const OUTBOX_STORE = "outbox";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase) {
+  if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+    db.createObjectStore(OUTBOX_STORE, { keyPath: "id", autoIncrement: true });
+  }
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getAll<T>(storeName: string): Promise<T[]> {
+  const db = await openDb();
+  return promisify(db.transaction(storeName).objectStore(storeName).getAll() as IDBRequest<T[]>);
+}
+
+export async function put<T>(storeName: string, value: T): Promise<IDBValidKey> {
+  const db = await openDb();
+  return promisify(db.transaction(storeName, "readwrite").objectStore(storeName).put(value));
+}
+
+export async function remove(storeName: string, key: IDBValidKey): Promise<void> {
+  const db = await openDb();
+  await promisify(db.transaction(storeName, "readwrite").objectStore(storeName).delete(key));
+}
@@ -0,0 +1,229 @@
+import { parse, isValid, isSameDay } from "date-fns";
+import { Category, CreateTransactionParams, Transaction, createTransaction } from "./api";
+import { getCashFlow } from "./classification";
+
+// One transaction read from an import file, before it is matched to the
+// wallet's categories. Negative amounts are money going out.
+export interface ImportRow {
+  line: number;
+  time: Date;
+  amount: number;
+  note: string;
+  person_name: string;
+  category_name: string;
+  // Statement line id from the bank, when the format has one.
+  external_id?: string;
+}
+
+// One uploaded file and what could be read from it.
+export interface ImportSource {
+  name: string;
+  rows: ImportRow[];
+  errors: ImportError[];
+}
+
+export interface ImportError {
+  line: number;
+  message: string;
+}
+
+export interface ImportResult {
+  name: string;
+  imported: number;
+  skipped: number;
+  failed: number;
+  errors: ImportError[];
+}
+
+export const DATE_FORMATS = [
+  "yyyy-MM-dd",
+  "dd/MM/yyyy",
+  "MM/dd/yyyy",
+  "dd.MM.yyyy",
+  "dd-MM-yyyy",
+  "yyyy/MM/dd",
+] as const;
+
+export type DateFormat = (typeof DATE_FORMATS)[number];
+
+export type DecimalSeparator = "." | ",";
+
+export const DECIMAL_SEPARATORS: { decimal: DecimalSeparator; label: string }[] = [
+  { decimal: ".", label: "Point (1,234.56)" },
+  { decimal: ",", label: "Comma (1.234,56)" },
+];
+
+export type ImportField = "transaction_time" | "amount" | "note" | "person_name" | "category";
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: "transaction_time", label: "Date", required: true },
+  { field: "amount", label: "Amount", required: true },
+  { field: "note", label: "Note", required: false },
+  { field: "person_name", label: "Person/Payee", required: false },
+  { field: "category", label: "Category", required: false },
+];
+
+// Column index per field; unmapped fields are left out.
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface CsvOptions {
+  hasHeader: boolean;
+  dateFormat: DateFormat;
+  decimal: DecimalSeparator;
+}
+
+const FIELD_HINTS: Record<ImportField, RegExp> = {
+  transaction_time: /date|time|booked|posted/i,
+  amount: /amount|value|sum|betrag|montant/i,
+  note: /note|memo|description|details|reference/i,
+  person_name: /payee|person|merchant|counterparty|name/i,
+  category: /category|type/i,
+};
+
+// Pre-fills the mapping from header names; the user can correct it.
+export function guessMapping(header: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const index = header.findIndex((name, i) => !used.has(i) && FIELD_HINTS[field].test(name));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+}
+
+// Accepts thousands separators, currency symbols and "(12.50)" for negatives.
+export function parseAmount(value: string, decimal: DecimalSeparator): number | null {
+  let text = value.trim();
+  const negative = /^\(.*\)$/.test(text) || /^-|-$/.test(text.replace(/[^\d()-]/g, ""));
+  text = text.replace(decimal === "," ? /[^\d,]/g : /[^\d.]/g, "");
+  if (decimal === ",") text = text.replace(",", ".");
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+  const amount = parseFloat(text);
+  return negative ? -amount : amount;
+}
+
+export function parseDate(value: string, dateFormat: DateFormat): Date | null {
+  const text = value.trim();
+  // Some exports append a time; only the date part follows the chosen format.
+  const datePart = text.split(/[ T]/)[0];
+  const date = parse(datePart, dateFormat, new Date());
+  if (!isValid(date)) return null;
+  const time = text.slice(datePart.length).match(/(\d{1,2}):(\d{2})/);
+  if (time) date.setHours(parseInt(time[1]), parseInt(time[2]));
+  else date.setHours(12);
+  return date;
+}
+
+export function rowsFromCsv(
+  table: string[][],
+  mapping: ColumnMapping,
+  options: CsvOptions
+): { rows: ImportRow[]; errors: ImportError[] } {
+  const rows: ImportRow[] = [];
+  const errors: ImportError[] = [];
+  const cell = (values: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? "" : (values[index] || "").trim();
+  };
+
+  table.slice(options.hasHeader ? 1 : 0).forEach((values, i) => {
+    const line = i + (options.hasHeader ? 2 : 1);
+    const time = parseDate(cell(values, "transaction_time"), options.dateFormat);
+    const amount = parseAmount(cell(values, "amount"), options.decimal);
+    if (!time) {
+      errors.push({ line, message: `Unreadable date "${cell(values, "transaction_time")}"` });
+    } else if (amount === null || amount === 0) {
+      errors.push({ line, message: `Unreadable amount "${cell(values, "amount")}"` });
+    } else {
+      rows.push({
+        line,
+        time,
+        amount,
+        note: cell(values, "note"),
+        person_name: cell(values, "person_name"),
+        category_name: cell(values, "category"),
+      });
+    }
+  });
+
+  return { rows, errors };
+}
+
+export function findCategoryByName(categories: Category[], name: string): Category | undefined {
+  const needle = name.trim().toLowerCase();
+  return categories.find((c) => c.name.toLowerCase() === needle);
+}
+
+// Category names in the file that the wallet doesn't have yet.
+export function unknownCategoryNames(rows: ImportRow[], categories: Category[]): string[] {
+  const names = new Map<string, string>();
+  rows.forEach((row) => {
+    const name = row.category_name.trim();
+    if (name && !findCategoryByName(categories, name)) names.set(name.toLowerCase(), name);
+  });
+  return [...names.values()].sort((a, b) => a.localeCompare(b));
+}
+
+export type DuplicateStatus = "imported" | "likely";
+
+// A row whose statement line id is already in the wallet was imported before.
+// Otherwise it is a likely duplicate when the wallet has a transaction on the
+// same day, for the same amount, in the same direction.
+export function duplicateStatus(row: ImportRow, existing: Transaction[]): DuplicateStatus | null {
+  if (row.external_id && existing.some((t) => t.external_id === row.external_id)) {
+    return "imported";
+  }
+  const flow = row.amount < 0 ? "out" : "in";
+  const match = existing.some(
+    (t) =>
+      isSameDay(new Date(t.transaction_time), row.time) &&
+      Math.abs(Math.abs(t.amount) - Math.abs(row.amount)) < 0.005 &&
+      getCashFlow(t) === flow
+  );
+  return match ? "likely" : null;
+}
+
+// The row's category decides its kind; the sign of the amount only does for
+// categories that have none.
+export function rowParams(
+  row: ImportRow,
+  walletId: number,
+  category: Pick<Category, "category_id" | "kind">,
+  userId: number
+): CreateTransactionParams {
+  return {
+    wallet_id: walletId,
+    category_id: category.category_id,
+    amount: Math.abs(row.amount),
+    kind: category.kind || (row.amount < 0 ? "expense" : "income"),
+    note: row.note || undefined,
+    person_name: row.person_name || undefined,
+    user_id: userId,
+    transaction_time: row.time.toISOString(),
+    external_id: row.external_id,
+  };
+}
+
+// Creates the rows one by one so a bad row only fails itself. Imports need a
+// connection; they are not queued in the offline outbox.
+export async function importRows(
+  rows: ImportRow[],
+  toParams: (row: ImportRow) => CreateTransactionParams,
+  onProgress?: (done: number) => void
+): Promise<Pick<ImportResult, "imported" | "failed" | "errors">> {
+  const result = { imported: 0, failed: 0, errors: [] as ImportError[] };
+  for (const [i, row] of rows.entries()) {
+    try {
+      await createTransaction(toParams(row));
+      result.imported++;
+    } catch (error) {
+      result.failed++;
+      result.errors.push({ line: row.line, message: (error as Error).message });
+    }
+    onProgress?.(i + 1);
+  }
+  return result;
+}
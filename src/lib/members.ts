@@ -0,0 +1,48 @@
+import type { User, Wallet, WalletMember, WalletRole } from "./api";
+
+export const WALLET_ROLES: { role: WalletRole; label: string; description: string }[] = [
+  { role: "owner", label: "Owner", description: "Can change anything and manage members" },
+  { role: "editor", label: "Editor", description: "Can add and change transactions and categories" },
+  { role: "viewer", label: "Viewer", description: "Can only look" },
+];
+
+// Servers from before sharing only return the user's own wallets.
+export function walletRole(wallet: Wallet | null | undefined): WalletRole {
+  return wallet?.role || "owner";
+}
+
+export function roleLabel(role: WalletRole): string {
+  return WALLET_ROLES.find((r) => r.role === role)?.label || role;
+}
+
+export function canEdit(wallet: Wallet | null | undefined): boolean {
+  return walletRole(wallet) !== "viewer";
+}
+
+export function canManage(wallet: Wallet | null | undefined): boolean {
+  return walletRole(wallet) === "owner";
+}
+
+export function isShared(wallet: Wallet | null | undefined): boolean {
+  return (wallet?.member_count ?? 1) > 1 || walletRole(wallet) !== "owner";
+}
+
+// A wallet always keeps at least one owner.
+export function isLastOwner(member: WalletMember, members: WalletMember[]): boolean {
+  return member.role === "owner" && members.filter((m) => m.role === "owner").length === 1;
+}
+
+export function memberName(member: WalletMember, users: User[]): string {
+  const user = member.user || users.find((u) => u.user_id === member.user_id);
+  return user?.name || `User #${member.user_id}`;
+}
+
+export function initials(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  return (
+    parts
+      .slice(0, 2)
+      .map((part) => part[0].toUpperCase())
+      .join("") || "?"
+  );
+}
@@ -0,0 +1,57 @@
+import { ImportError, ImportRow } from "./importer";
+
+// Reads a tag's value in both OFX 1.x (SGML, closing tags optional) and
+// OFX 2.x (XML) files.
+function tagValue(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? decodeEntities(match[1].trim()) : "";
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// OFX dates look like 20261018, 20261018120000 or 20261018120000.000[-5:EST].
+function parseOfxDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/);
+  if (!match) return null;
+  const [, year, month, day, hours = "12", minutes = "00"] = match;
+  const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day), parseInt(hours), parseInt(minutes));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function parseOfx(text: string): { rows: ImportRow[]; errors: ImportError[] } {
+  const rows: ImportRow[] = [];
+  const errors: ImportError[] = [];
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+
+  blocks.forEach((raw, i) => {
+    const block = raw.split(/<\/STMTTRN>/i)[0];
+    const line = i + 1;
+    const time = parseOfxDate(tagValue(block, "DTPOSTED"));
+    const amount = parseFloat(tagValue(block, "TRNAMT").replace(",", "."));
+    if (!time) {
+      errors.push({ line, message: "Transaction without a valid DTPOSTED" });
+    } else if (isNaN(amount) || amount === 0) {
+      errors.push({ line, message: "Transaction without a valid TRNAMT" });
+    } else {
+      const name = tagValue(block, "NAME") || tagValue(block, "PAYEE");
+      rows.push({
+        line,
+        time,
+        amount,
+        note: tagValue(block, "MEMO"),
+        person_name: name,
+        category_name: "",
+        external_id: tagValue(block, "FITID") || undefined,
+      });
+    }
+  });
+
+  return { rows, errors };
+}
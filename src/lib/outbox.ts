@@ -0,0 +1,421 @@
+import {
+  Transaction,
+  CreateTransactionParams,
+  UpdateTransactionParams,
+  createTransaction,
+  updateTransaction,
+  deleteTransaction,
+} from "./api";
+import { getActiveServer } from "./servers";
+import { getSession } from "./session";
+import { OUTBOX_STORE, getAll, put, remove } from "./idb";
+
+export type OutboxAction = "create" | "update" | "delete";
+export type SyncStatus = "pending" | "failed";
+
+export interface OutboxEntry {
+  id?: number;
+  serverId: string;
+  // Who queued it. Entries wait for that user to sign in again rather than
+  // being replayed with someone else's session.
+  userId: number;
+  action: OutboxAction;
+  // Negative temporary id for creates that have not reached the server yet.
+  transactionId: number;
+  params?: CreateTransactionParams | UpdateTransactionParams;
+  // What the UI shows for this transaction until the server confirms it.
+  preview: Transaction;
+  status: SyncStatus;
+  error?: string;
+  queuedAt: string;
+  // Bumped on every save, so a flush can tell whether edits were merged into
+  // the entry while it was being sent.
+  revision?: number;
+}
+
+export interface SyncState {
+  action: OutboxAction;
+  status: SyncStatus;
+  error?: string;
+}
+
+export interface SubmitResult {
+  transaction: Transaction | null;
+  queued: boolean;
+}
+
+export interface OutboxSnapshot {
+  entries: OutboxEntry[];
+  // Bumped whenever queued changes reach the server, so views can refetch.
+  syncVersion: number;
+}
+
+let snapshot: OutboxSnapshot = { entries: [], syncVersion: 0 };
+let loading: Promise<void> | null = null;
+let flushing: Promise<number> | null = null;
+let lastTempId = 0;
+const resolvedTempIds = new Map<number, number>();
+const listeners = new Set<() => void>();
+
+function setSnapshot(next: Partial<OutboxSnapshot>) {
+  snapshot = { ...snapshot, ...next };
+  listeners.forEach((listener) => listener());
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!loading) {
+    loading = getAll<OutboxEntry>(OUTBOX_STORE)
+      .then((stored) => {
+        // Entries queued before they recorded who queued them go to the
+        // transaction's author.
+        const entries = stored.map((e) => ({ ...e, userId: e.userId ?? e.preview.user_id }));
+        setSnapshot({ entries: entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0)) });
+      })
+      .catch((error) => {
+        console.error("Failed to load offline queue:", error);
+      });
+  }
+  return loading;
+}
+
+async function saveEntry(entry: OutboxEntry): Promise<OutboxEntry> {
+  const revised = { ...entry, revision: (entry.revision ?? 0) + 1 };
+  if (revised.id !== undefined) {
+    // Visible to a flush in progress before the write finishes.
+    setSnapshot({ entries: snapshot.entries.map((e) => (e.id === revised.id ? revised : e)) });
+  }
+  const id = (await put(OUTBOX_STORE, revised)) as number;
+  const saved = { ...revised, id };
+  const exists = snapshot.entries.some((e) => e.id === id);
+  setSnapshot({
+    entries: exists
+      ? snapshot.entries.map((e) => (e.id === id ? saved : e))
+      : [...snapshot.entries, saved],
+  });
+  return saved;
+}
+
+async function removeEntry(entry: OutboxEntry): Promise<void> {
+  if (entry.id !== undefined) {
+    await remove(OUTBOX_STORE, entry.id);
+  }
+  setSnapshot({ entries: snapshot.entries.filter((e) => e.id !== entry.id) });
+}
+
+function entryOwner(): Pick<OutboxEntry, "serverId" | "userId"> {
+  return { serverId: getActiveServer().id, userId: getSession()?.user.user_id ?? 0 };
+}
+
+export function isOwnEntry(entry: OutboxEntry, serverId: string, userId: number | undefined): boolean {
+  return entry.serverId === serverId && entry.userId === userId;
+}
+
+function findEntry(transactionId: number, action: OutboxAction): OutboxEntry | undefined {
+  const { serverId, userId } = entryOwner();
+  return snapshot.entries.find(
+    (e) =>
+      isOwnEntry(e, serverId, userId) && e.transactionId === transactionId && e.action === action
+  );
+}
+
+// The params edited since `sent` went to the server.
+function changedParams(
+  sent: OutboxEntry["params"],
+  current: OutboxEntry["params"]
+): UpdateTransactionParams {
+  const before: Record<string, unknown> = { ...sent };
+  return Object.fromEntries(
+    Object.entries(current || {}).filter(([key, value]) => before[key] !== value)
+  ) as UpdateTransactionParams;
+}
+
+function nextTempId(): number {
+  lastTempId = Math.min(-Date.now(), lastTempId - 1);
+  return lastTempId;
+}
+
+// fetch rejects with a TypeError when the request never reached the server;
+// anything else is a real answer from the backend and must not be retried.
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError || !navigator.onLine;
+}
+
+// Builds the Transaction the UI shows for a create the server has not
+// answered yet.
+export function previewTransaction(
+  params: CreateTransactionParams,
+  transactionId: number,
+  preview: Partial<Transaction> = {}
+): Transaction {
+  const now = new Date().toISOString();
+  return {
+    transaction_id: transactionId,
+    category_id: params.category_id,
+    amount: params.amount,
+    note: params.note ?? null,
+    person_id: params.person_id ?? null,
+    wallet_id: params.wallet_id,
+    transaction_time: params.transaction_time ?? now,
+    entry_time: now,
+    last_modified_time: now,
+    user_id: params.user_id,
+    kind: params.kind,
+    repayment_of: params.repayment_of ?? null,
+    original_currency: params.original_currency ?? null,
+    original_amount: params.original_amount ?? null,
+    ...preview,
+  };
+}
+
+export function applyTransactionParams(
+  transaction: Transaction,
+  params: UpdateTransactionParams
+): Transaction {
+  return {
+    ...transaction,
+    ...(params.category_id !== undefined && { category_id: params.category_id }),
+    ...(params.amount !== undefined && { amount: params.amount }),
+    ...(params.kind !== undefined && { kind: params.kind }),
+    ...(params.note !== undefined && { note: params.note }),
+    ...(params.person_id !== undefined && { person_id: params.person_id }),
+    ...(params.transaction_time !== undefined && { transaction_time: params.transaction_time }),
+    ...(params.original_currency !== undefined && { original_currency: params.original_currency }),
+    ...(params.original_amount !== undefined && { original_amount: params.original_amount }),
+    last_modified_time: new Date().toISOString(),
+  };
+}
+
+export function subscribeOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  ensureLoaded();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getOutboxSnapshot(): OutboxSnapshot {
+  return snapshot;
+}
+
+export async function submitCreateTransaction(
+  params: CreateTransactionParams,
+  preview: Partial<Transaction> = {}
+): Promise<SubmitResult> {
+  if (navigator.onLine) {
+    try {
+      const response = await createTransaction(params);
+      return { transaction: response.data, queued: false };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  await ensureLoaded();
+  const tempId = nextTempId();
+  const entry = await saveEntry({
+    ...entryOwner(),
+    action: "create",
+    transactionId: tempId,
+    params,
+    preview: previewTransaction(params, tempId, preview),
+    status: "pending",
+    queuedAt: new Date().toISOString(),
+  });
+  return { transaction: entry.preview, queued: true };
+}
+
+export async function submitUpdateTransaction(
+  transaction: Transaction,
+  params: UpdateTransactionParams,
+  preview: Partial<Transaction> = {}
+): Promise<SubmitResult> {
+  await ensureLoaded();
+  let transactionId = transaction.transaction_id;
+
+  if (transactionId < 0) {
+    // Still only on this device: fold the edit into the queued create.
+    const pendingCreate = findEntry(transactionId, "create");
+    if (pendingCreate) {
+      const entry = await saveEntry({
+        ...pendingCreate,
+        params: { ...pendingCreate.params, ...params },
+        preview: { ...applyTransactionParams(pendingCreate.preview, params), ...preview },
+        status: "pending",
+        error: undefined,
+      });
+      return { transaction: entry.preview, queued: true };
+    }
+    // The create was synced while the dialog was open.
+    transactionId = resolvedTempIds.get(transactionId) ?? transactionId;
+  }
+
+  if (navigator.onLine) {
+    try {
+      const response = await updateTransaction(transactionId, params);
+      return { transaction: response.data, queued: false };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  const pendingUpdate = findEntry(transactionId, "update");
+  const entry = await saveEntry({
+    ...(pendingUpdate || {
+      ...entryOwner(),
+      action: "update",
+      transactionId,
+      queuedAt: new Date().toISOString(),
+    }),
+    params: { ...pendingUpdate?.params, ...params },
+    preview: { ...applyTransactionParams(pendingUpdate?.preview || transaction, params), ...preview },
+    status: "pending",
+    error: undefined,
+  });
+  return { transaction: entry.preview, queued: true };
+}
+
+export async function submitDeleteTransaction(transaction: Transaction): Promise<SubmitResult> {
+  await ensureLoaded();
+  let transactionId = transaction.transaction_id;
+
+  if (transactionId < 0) {
+    const pendingCreate = findEntry(transactionId, "create");
+    if (pendingCreate) {
+      await removeEntry(pendingCreate);
+      return { transaction: null, queued: false };
+    }
+    transactionId = resolvedTempIds.get(transactionId) ?? transactionId;
+  }
+
+  if (navigator.onLine) {
+    try {
+      await deleteTransaction(transactionId);
+      return { transaction: null, queued: false };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  // Queued edits are moot once the transaction is going away.
+  const pendingUpdate = findEntry(transactionId, "update");
+  if (pendingUpdate) {
+    await removeEntry(pendingUpdate);
+  }
+  await saveEntry({
+    ...entryOwner(),
+    action: "delete",
+    transactionId,
+    preview: pendingUpdate?.preview || transaction,
+    status: "pending",
+    queuedAt: new Date().toISOString(),
+  });
+  return { transaction: null, queued: true };
+}
+
+async function runFlush(): Promise<number> {
+  await ensureLoaded();
+  const { serverId, userId } = entryOwner();
+  const queue = snapshot.entries.filter(
+    (e) => isOwnEntry(e, serverId, userId) && e.status === "pending"
+  );
+  let synced = 0;
+
+  for (const entry of queue) {
+    // Signed out, or in as someone else, part way through.
+    if (getSession()?.user.user_id !== userId) break;
+    let transactionId = resolvedTempIds.get(entry.transactionId) ?? entry.transactionId;
+    try {
+      if (entry.action === "create") {
+        const response = await createTransaction(entry.params as CreateTransactionParams);
+        transactionId = response.data.transaction_id;
+        resolvedTempIds.set(entry.transactionId, transactionId);
+      } else if (entry.action === "update") {
+        await updateTransaction(transactionId, entry.params as UpdateTransactionParams);
+      } else {
+        await deleteTransaction(transactionId);
+      }
+      synced++;
+      const current = snapshot.entries.find((e) => e.id === entry.id);
+      if (!current || current.revision === entry.revision || entry.action === "delete") {
+        await removeEntry(entry);
+        continue;
+      }
+      // Edited while it was on its way: what was sent is done, and the edits
+      // made since go out as an update of the server's copy.
+      const requeued = await saveEntry({
+        ...current,
+        action: "update",
+        transactionId,
+        params: changedParams(entry.params, current.params),
+        preview: { ...current.preview, transaction_id: transactionId },
+      });
+      queue.push(requeued);
+    } catch (error) {
+      // Still offline: keep the rest of the queue in order for the next attempt.
+      if (isNetworkError(error)) break;
+      const current = snapshot.entries.find((e) => e.id === entry.id);
+      if (!current) continue;
+      await saveEntry({
+        ...current,
+        status: "failed",
+        error: (error as Error).message || "Rejected by server",
+      });
+    }
+  }
+
+  if (synced > 0) {
+    setSnapshot({ syncVersion: snapshot.syncVersion + 1 });
+  }
+  return synced;
+}
+
+// Replays the signed-in user's queued mutations for the active server in the
+// order they were made.
+// Concurrent callers share one run. Resolves with the number of entries synced.
+export function flushOutbox(): Promise<number> {
+  if (!flushing) {
+    flushing = runFlush().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+export async function retryOutboxEntry(entry: OutboxEntry): Promise<number> {
+  await saveEntry({ ...entry, status: "pending", error: undefined });
+  return flushOutbox();
+}
+
+export async function discardOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await removeEntry(entry);
+}
+
+// Overlays queued changes on a fetched list: queued edits and deletes replace
+// the server copy, and queued creates accepted by `includeCreate` are added.
+export function applyOutbox(
+  transactions: Transaction[],
+  entries: OutboxEntry[],
+  includeCreate: (transaction: Transaction) => boolean
+): { transactions: Transaction[]; syncStates: Map<number, SyncState> } {
+  const syncStates = new Map<number, SyncState>();
+  const previews = new Map<number, Transaction>();
+
+  entries.forEach((entry) => {
+    syncStates.set(entry.transactionId, {
+      action: entry.action,
+      status: entry.status,
+      error: entry.error,
+    });
+    previews.set(entry.transactionId, entry.preview);
+  });
+
+  const merged = transactions.map((t) => previews.get(t.transaction_id) || t);
+  const present = new Set(merged.map((t) => t.transaction_id));
+  entries
+    .filter(
+      (e) => e.action === "create" && !present.has(e.transactionId) && includeCreate(e.preview)
+    )
+    .forEach((e) => merged.push(e.preview));
+
+  return { transactions: merged, syncStates };
+}
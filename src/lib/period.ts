@@ -0,0 +1,122 @@
+import {
+  format,
+  startOfDay,
+  startOfWeek,
+  startOfMonth,
+  startOfYear,
+  endOfDay,
+  endOfWeek,
+  endOfMonth,
+  endOfYear,
+  addDays,
+  addWeeks,
+  addMonths,
+  addYears,
+  differenceInCalendarDays,
+  differenceInCalendarWeeks,
+  differenceInCalendarMonths,
+  differenceInCalendarYears,
+} from "date-fns";
+import { DateRange } from "react-day-picker";
+
+export type PeriodType = "daily" | "weekly" | "monthly" | "yearly" | "custom";
+
+export interface Period {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+export const PERIOD_TYPES: Exclude<PeriodType, "custom">[] = ["daily", "weekly", "monthly", "yearly"];
+
+const CURRENT_PERIOD_LABELS: Record<PeriodType, string> = {
+  daily: "Today",
+  weekly: "This week",
+  monthly: "This month",
+  yearly: "This year",
+  custom: "Custom range",
+};
+
+// Names the period of this type that contains today.
+export function currentPeriodLabel(periodType: PeriodType): string {
+  return CURRENT_PERIOD_LABELS[periodType];
+}
+
+export function computePeriod(
+  periodType: PeriodType,
+  currentDate: Date,
+  customDateRange?: DateRange
+): Period {
+  // If custom date range is set, use it
+  if (periodType === "custom" && customDateRange?.from) {
+    const start = startOfDay(customDateRange.from);
+    const end = customDateRange.to ? endOfDay(customDateRange.to) : endOfDay(customDateRange.from);
+    const label = customDateRange.to
+      ? `${format(start, "MMM d")} - ${format(end, "MMM d, yyyy")}`
+      : format(start, "MMM d, yyyy");
+    return { start, end, label };
+  }
+
+  switch (periodType) {
+    case "daily":
+      return {
+        start: startOfDay(currentDate),
+        end: endOfDay(currentDate),
+        label: format(currentDate, "EEEE, MMM d, yyyy"),
+      };
+    case "weekly": {
+      const start = startOfWeek(currentDate, { weekStartsOn: 1 });
+      const end = endOfWeek(currentDate, { weekStartsOn: 1 });
+      return { start, end, label: `${format(start, "MMM d")} - ${format(end, "MMM d, yyyy")}` };
+    }
+    case "yearly":
+      return {
+        start: startOfYear(currentDate),
+        end: endOfYear(currentDate),
+        label: format(currentDate, "yyyy"),
+      };
+    case "monthly":
+    default:
+      return {
+        start: startOfMonth(currentDate),
+        end: endOfMonth(currentDate),
+        label: format(currentDate, "MMMM yyyy"),
+      };
+  }
+}
+
+export function shiftPeriodBy(periodType: PeriodType, currentDate: Date, amount: number): Date {
+  switch (periodType) {
+    case "daily":
+      return addDays(currentDate, amount);
+    case "weekly":
+      return addWeeks(currentDate, amount);
+    case "monthly":
+      return addMonths(currentDate, amount);
+    case "yearly":
+      return addYears(currentDate, amount);
+    default:
+      return currentDate;
+  }
+}
+
+export function shiftPeriod(periodType: PeriodType, currentDate: Date, direction: "prev" | "next"): Date {
+  return shiftPeriodBy(periodType, currentDate, direction === "prev" ? -1 : 1);
+}
+
+// How many periods `date` lies from `now`: 0 for the current one, -1 for the
+// previous one.
+export function periodOffset(periodType: PeriodType, date: Date, now: Date = new Date()): number {
+  switch (periodType) {
+    case "daily":
+      return differenceInCalendarDays(date, now);
+    case "weekly":
+      return differenceInCalendarWeeks(date, now, { weekStartsOn: 1 });
+    case "monthly":
+      return differenceInCalendarMonths(date, now);
+    case "yearly":
+      return differenceInCalendarYears(date, now);
+    default:
+      return 0;
+  }
+}
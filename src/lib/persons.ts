@@ -0,0 +1,38 @@
+import { Person, getTransactions, updateTransaction, deletePerson } from "./api";
+
+export function personLabel(person: Person): string {
+  return person.alias ? `${person.person_name} (${person.alias})` : person.person_name;
+}
+
+export function matchesPerson(person: Person, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  return (
+    !needle ||
+    person.person_name.toLowerCase().includes(needle) ||
+    (person.alias || "").toLowerCase().includes(needle)
+  );
+}
+
+export function findPersonByName(persons: Person[], name: string): Person | undefined {
+  const needle = name.trim().toLowerCase();
+  return persons.find(
+    (p) => p.person_name.toLowerCase() === needle || (p.alias || "").toLowerCase() === needle
+  );
+}
+
+// Moves every transaction of the duplicates onto the person being kept, then
+// deletes the duplicates. A duplicate is only deleted once all of its
+// transactions have moved, so a failure part-way loses nothing.
+// Resolves with the number of transactions moved.
+export async function mergePersons(keepId: number, duplicateIds: number[]): Promise<number> {
+  let moved = 0;
+  for (const duplicateId of duplicateIds) {
+    const transactions = (await getTransactions({ person_id: duplicateId })).data || [];
+    for (const transaction of transactions) {
+      await updateTransaction(transaction.transaction_id, { person_id: keepId });
+      moved++;
+    }
+    await deletePerson(duplicateId);
+  }
+  return moved;
+}
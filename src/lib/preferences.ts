@@ -0,0 +1,45 @@
+import type { UserPreferences, Wallet } from "./api";
+import { readJSON, writeJSON } from "./storage";
+import { DEFAULT_SORT } from "./views";
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  selected_wallet_id: null,
+  period_type: "monthly",
+  transaction_sort: DEFAULT_SORT,
+  updated_at: null,
+};
+
+function preferencesKey(serverId: string, userId: number): string {
+  return `preferences:${serverId}:${userId}`;
+}
+
+export function readPreferences(serverId: string, userId: number): UserPreferences {
+  return {
+    ...DEFAULT_PREFERENCES,
+    ...readJSON<Partial<UserPreferences>>(preferencesKey(serverId, userId), {}),
+  };
+}
+
+export function writePreferences(serverId: string, userId: number, preferences: UserPreferences): void {
+  writeJSON(preferencesKey(serverId, userId), preferences);
+}
+
+// The copy changed last wins, whether it was made on this device or another.
+export function newerPreferences(a: UserPreferences, b: UserPreferences): UserPreferences {
+  if (!b.updated_at) return a;
+  if (!a.updated_at) return b;
+  return new Date(b.updated_at) > new Date(a.updated_at) ? b : a;
+}
+
+// The default wallet comes first, then the one last looked at, then the first
+// enabled wallet the server lists.
+export function startupWallet(
+  wallets: Wallet[],
+  defaultWalletId: number | null | undefined,
+  preferences: UserPreferences
+): Wallet | null {
+  const enabled = wallets.filter((w) => w.is_enabled);
+  const find = (walletId: number | null | undefined) =>
+    walletId ? enabled.find((w) => w.wallet_id === walletId) : undefined;
+  return find(defaultWalletId) || find(preferences.selected_wallet_id) || enabled[0] || null;
+}
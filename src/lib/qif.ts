@@ -0,0 +1,70 @@
+import { DecimalSeparator, ImportError, ImportRow, parseAmount } from "./importer";
+
+// QIF dates come as 10/18/2026, 10/18/26, 10/18'26 or 18.10.2026, with the
+// day-month order depending on the bank's locale.
+function parseQifDate(value: string, dayFirst: boolean): Date | null {
+  const parts = value.trim().replace(/'/g, "/").split(/[/.-]/).map((p) => p.trim());
+  if (parts.length !== 3 || parts.some((p) => !/^\d+$/.test(p))) return null;
+  let [first, second, year] = parts.map((p) => parseInt(p));
+  if (parts[0].length === 4) {
+    // ISO order: yyyy-MM-dd.
+    [year, first, second] = [first, second, year];
+    dayFirst = false;
+  }
+  if (year < 100) year += year < 70 ? 2000 : 1900;
+  const [month, day] = dayFirst ? [second, first] : [first, second];
+  const date = new Date(year, month - 1, day, 12);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+export function parseQif(
+  text: string,
+  dayFirst: boolean,
+  decimal: DecimalSeparator = "."
+): { rows: ImportRow[]; errors: ImportError[] } {
+  const rows: ImportRow[] = [];
+  const errors: ImportError[] = [];
+  let fields: Record<string, string> = {};
+  let startLine = 1;
+
+  const flush = (line: number) => {
+    if (Object.keys(fields).length === 0) return;
+    const time = fields.D ? parseQifDate(fields.D, dayFirst) : null;
+    const amount = parseAmount(fields.T || fields.U || "", decimal);
+    if (!time) {
+      errors.push({ line: startLine, message: `Unreadable date "${fields.D || ""}"` });
+    } else if (amount === null || amount === 0) {
+      errors.push({ line: startLine, message: `Unreadable amount "${fields.T || fields.U || ""}"` });
+    } else {
+      rows.push({
+        line: startLine,
+        time,
+        amount,
+        note: fields.M || "",
+        person_name: fields.P || "",
+        // "Groceries:Fruit" is a subcategory; "[Savings]" is a transfer account.
+        category_name: (fields.L || "").startsWith("[") ? "" : (fields.L || "").split(":").pop() || "",
+      });
+    }
+    fields = {};
+    startLine = line + 1;
+  };
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = i + 1;
+    const value = raw.trim();
+    if (!value) return;
+    if (value.startsWith("!")) {
+      // Section headers such as !Type:Bank.
+      startLine = line + 1;
+    } else if (value === "^") {
+      flush(line);
+    } else if (!(value[0] in fields)) {
+      // Split lines (S, E, $) repeat; the first occurrence is kept.
+      fields[value[0]] = value.slice(1).trim();
+    }
+  });
+  flush(0);
+
+  return { rows, errors };
+}
@@ -0,0 +1,31 @@
+import type { Category, CategoryTreeNode, Reconciliation, Transaction } from "./api";
+import { signedAmount } from "./classification";
+
+// Created in a wallet the first time it needs an adjustment.
+export const ADJUSTMENT_CATEGORY = { name: "Balance Adjustment", icon: "⚖️" };
+
+export const ADJUSTMENT_NOTE = "Balance adjustment";
+
+// Compared in cents so float noise doesn't show up as a difference.
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// The balance at `asOf`: today's balance with everything recorded after that
+// time taken back out.
+export function balanceAt(balance: number, transactions: Transaction[], asOf: Date): number {
+  const later = transactions.filter((t) => new Date(t.transaction_time) > asOf);
+  return roundMoney(balance - later.reduce((sum, t) => sum + signedAmount(t), 0));
+}
+
+export function findAdjustmentCategory(roots: CategoryTreeNode[]): Category | undefined {
+  return roots.find((node) => node.category.kind === "adjustment")?.category;
+}
+
+export function latestReconciliation(reconciliations: Reconciliation[]): Reconciliation | null {
+  return reconciliations.reduce<Reconciliation | null>(
+    (latest, r) =>
+      !latest || new Date(r.reconciled_at) > new Date(latest.reconciled_at) ? r : latest,
+    null
+  );
+}
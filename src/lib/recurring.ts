@@ -0,0 +1,220 @@
+import {
+  addDays,
+  addWeeks,
+  addMonths,
+  addYears,
+  startOfWeek,
+  endOfDay,
+  format,
+  parseISO,
+  set,
+} from "date-fns";
+import {
+  CreateTransactionParams,
+  RecurrenceFrequency,
+  RecurringException,
+  RecurringTransaction,
+  claimRecurringOccurrences,
+} from "./api";
+import { submitCreateTransaction } from "./outbox";
+
+export type RecurrenceRule = Pick<
+  RecurringTransaction,
+  "frequency" | "interval" | "weekdays" | "end_date" | "occurrence_limit"
+>;
+
+export const DEFAULT_RULE: RecurrenceRule = {
+  frequency: "monthly",
+  interval: 1,
+  weekdays: null,
+  end_date: null,
+  occurrence_limit: null,
+};
+
+export const FREQUENCIES: { frequency: RecurrenceFrequency; label: string; unit: string }[] = [
+  { frequency: "daily", label: "Daily", unit: "day" },
+  { frequency: "weekly", label: "Weekly", unit: "week" },
+  { frequency: "monthly", label: "Monthly", unit: "month" },
+  { frequency: "yearly", label: "Yearly", unit: "year" },
+];
+
+// Monday first, matching the week used by the period selector.
+export const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0].map((day) => ({
+  day,
+  label: format(addDays(new Date(2024, 0, 7), day), "EEE"),
+}));
+
+// Bounds the walk through a rule's occurrences when nothing else ends it.
+const MAX_STEPS = 5000;
+
+function advance(start: Date, frequency: RecurrenceFrequency, amount: number): Date {
+  switch (frequency) {
+    case "daily":
+      return addDays(start, amount);
+    case "weekly":
+      return addWeeks(start, amount);
+    case "yearly":
+      return addYears(start, amount);
+    case "monthly":
+    default:
+      // Always counted from the start so the 31st does not drift to the 28th.
+      return addMonths(start, amount);
+  }
+}
+
+// Every occurrence of a rule in order, from its first one until its end date
+// or occurrence limit.
+export function* occurrences(
+  rule: RecurrenceRule & Pick<RecurringTransaction, "start_time">
+): Generator<Date> {
+  const start = new Date(rule.start_time);
+  const interval = Math.max(1, rule.interval || 1);
+  const end = rule.end_date ? endOfDay(parseISO(rule.end_date)) : null;
+  const weekdays =
+    rule.frequency === "weekly" && rule.weekdays?.length
+      ? [...rule.weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+      : null;
+  let count = 0;
+
+  for (let step = 0; step < MAX_STEPS; step++) {
+    let candidates: Date[];
+    if (weekdays) {
+      const weekStart = addWeeks(startOfWeek(start, { weekStartsOn: 1 }), step * interval);
+      candidates = weekdays
+        .map((day) =>
+          set(addDays(weekStart, (day + 6) % 7), {
+            hours: start.getHours(),
+            minutes: start.getMinutes(),
+            seconds: 0,
+            milliseconds: 0,
+          })
+        )
+        .filter((date) => date >= start);
+    } else {
+      candidates = [advance(start, rule.frequency, step * interval)];
+    }
+
+    for (const date of candidates) {
+      if (end && date > end) return;
+      if (rule.occurrence_limit && count >= rule.occurrence_limit) return;
+      count++;
+      yield date;
+    }
+  }
+}
+
+export function occurrenceKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+export function findException(
+  rule: RecurringTransaction,
+  date: Date
+): RecurringException | undefined {
+  const key = occurrenceKey(date);
+  return rule.exceptions?.find((e) => e.date === key);
+}
+
+// The rule's exceptions with the one for `date` replaced, or removed when
+// `changes` is null.
+export function updateException(
+  rule: RecurringTransaction,
+  date: Date,
+  changes: Omit<RecurringException, "date"> | null
+): RecurringException[] {
+  const key = occurrenceKey(date);
+  const others = (rule.exceptions || []).filter((e) => e.date !== key);
+  return changes ? [...others, { ...changes, date: key }] : others;
+}
+
+// Occurrences not yet turned into transactions, up to and including `until`.
+export function pendingOccurrences(rule: RecurringTransaction, until: Date): Date[] {
+  const after = rule.last_materialized ? new Date(rule.last_materialized) : null;
+  const result: Date[] = [];
+  for (const date of occurrences(rule)) {
+    if (date > until) break;
+    if (!after || date > after) result.push(date);
+  }
+  return result;
+}
+
+export function occurrenceParams(rule: RecurringTransaction, date: Date): CreateTransactionParams {
+  const exception = findException(rule, date);
+  const note = exception?.note ?? rule.note;
+  return {
+    wallet_id: rule.wallet_id,
+    category_id: exception?.category_id ?? rule.category_id,
+    amount: exception?.amount ?? rule.amount,
+    note: note || undefined,
+    person_name: rule.person_name || undefined,
+    user_id: rule.user_id,
+    transaction_time: date.toISOString(),
+    kind: rule.kind,
+  };
+}
+
+export function describeRule(rule: RecurrenceRule): string {
+  const { label, unit } = FREQUENCIES.find((f) => f.frequency === rule.frequency) || FREQUENCIES[2];
+  const interval = Math.max(1, rule.interval || 1);
+  let text = interval === 1 ? label : `Every ${interval} ${unit}s`;
+  if (rule.frequency === "weekly" && rule.weekdays?.length) {
+    text += ` on ${WEEKDAYS.filter((w) => rule.weekdays!.includes(w.day))
+      .map((w) => w.label)
+      .join(", ")}`;
+  }
+  if (rule.end_date) {
+    text += ` until ${format(parseISO(rule.end_date), "MMM d, yyyy")}`;
+  } else if (rule.occurrence_limit) {
+    text += `, ${rule.occurrence_limit} times`;
+  }
+  return text;
+}
+
+// Each occurrence carries this as its external id, so a server that sees the
+// same occurrence twice can tell.
+export function occurrenceExternalId(rule: RecurringTransaction, date: Date): string {
+  return `recurring:${rule.recurring_id}:${occurrenceKey(date)}`;
+}
+
+export interface MaterializeResult {
+  created: number;
+  // Claimed occurrences the server refused to create. The cursor has moved
+  // past them, so they are not tried again.
+  failed: { date: Date; error: string }[];
+}
+
+// Claims every occurrence of `rule` that is due by moving the rule's cursor
+// past them, then creates a transaction for each one that isn't skipped.
+// Another tab, device or wallet member that already claimed them wins, and
+// nothing is created here. Creates that fail offline are queued in the
+// outbox; one the server rejects doesn't stop the ones after it.
+export async function materializeRule(
+  rule: RecurringTransaction,
+  now: Date = new Date()
+): Promise<MaterializeResult> {
+  const result: MaterializeResult = { created: 0, failed: [] };
+  const due = pendingOccurrences(rule, now);
+  if (due.length === 0) return result;
+
+  const done = occurrenceKey(due[due.length - 1]);
+  const claim = await claimRecurringOccurrences(rule.recurring_id, {
+    expected_last_materialized: rule.last_materialized,
+    last_materialized: due[due.length - 1].toISOString(),
+    exceptions: (rule.exceptions || []).filter((e) => e.date > done),
+  });
+  if (!claim.success) return result;
+
+  for (const date of due) {
+    if (findException(rule, date)?.skip) continue;
+    try {
+      await submitCreateTransaction({
+        ...occurrenceParams(rule, date),
+        external_id: occurrenceExternalId(rule, date),
+      });
+      result.created++;
+    } catch (error) {
+      result.failed.push({ date, error: (error as Error).message || "Rejected by server" });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,121 @@
+import {
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  endOfDay,
+  format,
+  min,
+} from "date-fns";
+import { Transaction, CategoryTreeNode } from "./api";
+import { Period } from "./period";
+import { getTransactionKind, signedAmount } from "./classification";
+
+export type FlowKind = "income" | "expense";
+
+export interface CategorySlice {
+  categoryId: number;
+  name: string;
+  icon: string;
+  amount: number;
+}
+
+export interface FlowBucket {
+  label: string;
+  income: number;
+  expense: number;
+}
+
+export interface BalancePoint {
+  label: string;
+  balance: number;
+}
+
+// Periods longer than this are charted per month instead of per day.
+const MAX_DAILY_BUCKETS = 62;
+
+// Totals per top-level category, largest first. Subcategories roll up into
+// their root so the chart stays readable.
+export function categoryBreakdown(
+  transactions: Transaction[],
+  roots: CategoryTreeNode[],
+  kind: FlowKind
+): CategorySlice[] {
+  const rootsById = new Map(roots.map((node) => [node.category.category_id, node.category]));
+  const slices = new Map<number, CategorySlice>();
+
+  transactions
+    .filter((t) => getTransactionKind(t) === kind)
+    .forEach((t) => {
+      const root = rootsById.get(t.category?.root_id) || rootsById.get(t.category?.parent_id) || t.category;
+      const categoryId = root?.category_id ?? t.category_id;
+      const slice = slices.get(categoryId) || {
+        categoryId,
+        name: root?.name || "Unknown",
+        icon: root?.icon || "💰",
+        amount: 0,
+      };
+      slice.amount += Math.abs(t.amount);
+      slices.set(categoryId, slice);
+    });
+
+  return [...slices.values()].sort((a, b) => b.amount - a.amount);
+}
+
+function bucketFormat(period: Period): { key: string; label: string; daily: boolean } {
+  const daily = differenceInCalendarDays(period.end, period.start) < MAX_DAILY_BUCKETS;
+  return daily
+    ? { key: "yyyy-MM-dd", label: "MMM d", daily }
+    : { key: "yyyy-MM", label: "MMM yy", daily };
+}
+
+function periodBuckets(period: Period, until: Date = period.end): Date[] {
+  const { daily } = bucketFormat(period);
+  const interval = { start: period.start, end: until };
+  return daily ? eachDayOfInterval(interval) : eachMonthOfInterval(interval);
+}
+
+export function incomeExpenseSeries(transactions: Transaction[], period: Period): FlowBucket[] {
+  const { key, label } = bucketFormat(period);
+  const buckets = new Map<string, FlowBucket>(
+    periodBuckets(period).map((date) => [
+      format(date, key),
+      { label: format(date, label), income: 0, expense: 0 },
+    ])
+  );
+
+  transactions.forEach((t) => {
+    const bucket = buckets.get(format(new Date(t.transaction_time), key));
+    const kind = getTransactionKind(t);
+    if (!bucket || (kind !== "income" && kind !== "expense")) return;
+    bucket[kind] += Math.abs(t.amount);
+  });
+
+  return [...buckets.values()];
+}
+
+// Balance at the end of each bucket. The opening balance is worked back from
+// the wallet's current balance using every transaction since the period
+// started, so `sinceStart` must cover period.start up to now.
+export function runningBalance(
+  sinceStart: Transaction[],
+  period: Period,
+  currentBalance: number
+): BalancePoint[] {
+  const { key, label } = bucketFormat(period);
+  const net = sinceStart.reduce((sum, t) => sum + signedAmount(t), 0);
+  let balance = currentBalance - net;
+
+  const changes = new Map<string, number>();
+  sinceStart.forEach((t) => {
+    const bucketKey = format(new Date(t.transaction_time), key);
+    changes.set(bucketKey, (changes.get(bucketKey) || 0) + signedAmount(t));
+  });
+
+  const until = min([period.end, endOfDay(new Date())]);
+  if (until < period.start) return [];
+
+  return periodBuckets(period, until).map((date) => {
+    balance += changes.get(format(date, key)) || 0;
+    return { label: format(date, label), balance };
+  });
+}
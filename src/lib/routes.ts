@@ -0,0 +1,103 @@
+import { format, isValid, parse } from "date-fns";
+import { DateRange } from "react-day-picker";
+import type { PeriodType } from "./period";
+
+// "people" and "users" are opened from Settings and have no button of their own.
+export type Tab =
+  | "transactions"
+  | "reports"
+  | "categories"
+  | "wallets"
+  | "settings"
+  | "people"
+  | "users";
+
+// Tabs that show one wallet and carry its id in the path.
+export const WALLET_TABS: Tab[] = ["transactions", "reports", "categories"];
+
+// Tabs whose URL also records the period in view.
+const PERIOD_TABS: Tab[] = ["transactions", "reports"];
+
+export function tabPath(tab: Tab, walletId?: number | null, periodSearch = ""): string {
+  switch (tab) {
+    case "wallets":
+      return "/wallets";
+    case "settings":
+      return "/settings";
+    case "people":
+      return "/settings/people";
+    case "users":
+      return "/settings/users";
+  }
+  if (!walletId) return "/";
+  const path = `/wallets/${walletId}/${tab}`;
+  return periodSearch && PERIOD_TABS.includes(tab) ? `${path}?${periodSearch}` : path;
+}
+
+export function transactionPath(transactionId: number): string {
+  return `/transactions/${transactionId}`;
+}
+
+// "/" and "/transactions/:id" show the transaction list.
+export function tabFromPath(pathname: string): Tab {
+  const [section, id, tab] = pathname.split("/").filter(Boolean);
+  if (section === "wallets") {
+    return id && WALLET_TABS.includes(tab as Tab) ? (tab as Tab) : "wallets";
+  }
+  if (section === "settings") {
+    return id === "people" || id === "users" ? id : "settings";
+  }
+  return "transactions";
+}
+
+export function hasPeriod(tab: Tab): boolean {
+  return PERIOD_TABS.includes(tab);
+}
+
+export interface PeriodParams {
+  type: PeriodType;
+  date: Date;
+  range?: DateRange;
+}
+
+// How precisely each period's date is written, e.g. "?period=monthly&date=2026-10".
+const DATE_FORMATS: Record<Exclude<PeriodType, "custom">, string> = {
+  daily: "yyyy-MM-dd",
+  weekly: "yyyy-MM-dd",
+  monthly: "yyyy-MM",
+  yearly: "yyyy",
+};
+
+const DAY_FORMAT = "yyyy-MM-dd";
+
+export function periodSearch({ type, date, range }: PeriodParams): string {
+  if (type === "custom") {
+    if (!range?.from) return "";
+    const to = range.to || range.from;
+    return `period=custom&from=${format(range.from, DAY_FORMAT)}&to=${format(to, DAY_FORMAT)}`;
+  }
+  return `period=${type}&date=${format(date, DATE_FORMATS[type])}`;
+}
+
+function parseDate(value: string | null, pattern: string): Date | null {
+  if (!value) return null;
+  const date = parse(value, pattern, new Date());
+  return isValid(date) ? date : null;
+}
+
+// Null when the search has no period or one that can't be read.
+export function parsePeriodSearch(search: string): PeriodParams | null {
+  const params = new URLSearchParams(search);
+  const type = params.get("period");
+  if (type === "custom") {
+    const from = parseDate(params.get("from"), DAY_FORMAT);
+    const to = parseDate(params.get("to"), DAY_FORMAT);
+    return from && to ? { type, date: from, range: { from, to } } : null;
+  }
+  if (type && type in DATE_FORMATS) {
+    const periodType = type as Exclude<PeriodType, "custom">;
+    const date = parseDate(params.get("date"), DATE_FORMATS[periodType]);
+    return date ? { type: periodType, date } : null;
+  }
+  return null;
+}
@@ -0,0 +1,52 @@
+import { Category, CategoryTreeNode, Person, Transaction, TransactionFilters } from "./api";
+import { matchesPerson } from "./persons";
+
+const MAX_PERSON_MATCHES = 5;
+const MAX_RESULTS = 30;
+
+export function flattenCategories(roots: CategoryTreeNode[]): Category[] {
+  return roots.flatMap((node) => [node.category, ...flattenCategories(node.children || [])]);
+}
+
+// "$1,250.50" and "1250.5" both search for the amount 1250.5.
+export function parseAmountQuery(term: string): number | null {
+  const cleaned = term.replace(/[$,\s]/g, "");
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null;
+  return Math.abs(parseFloat(cleaned));
+}
+
+// The server only searches notes fuzzily, so a term is expanded into one
+// cross-wallet query per kind of match: note, amount, category and payee.
+export function searchFilterSets(
+  term: string,
+  categories: Category[],
+  persons: Person[]
+): TransactionFilters[] {
+  const query = term.trim().toLowerCase();
+  if (!query) return [];
+
+  const sets: TransactionFilters[] = [{ fuzzy_note: term.trim() }];
+
+  const amount = parseAmountQuery(query);
+  if (amount !== null) sets.push({ amount_op: "eq", amount_value: amount });
+
+  const categoryIds = categories
+    .filter((category) => category.name.toLowerCase().includes(query))
+    .map((category) => category.category_id);
+  if (categoryIds.length > 0) sets.push({ category_ids: [...new Set(categoryIds)] });
+
+  persons
+    .filter((person) => matchesPerson(person, query))
+    .slice(0, MAX_PERSON_MATCHES)
+    .forEach((person) => sets.push({ person_id: person.person_id }));
+
+  return sets;
+}
+
+export function mergeResults(lists: Transaction[][]): Transaction[] {
+  const byId = new Map<number, Transaction>();
+  lists.flat().forEach((t) => byId.set(t.transaction_id, t));
+  return [...byId.values()]
+    .sort((a, b) => new Date(b.transaction_time).getTime() - new Date(a.transaction_time).getTime())
+    .slice(0, MAX_RESULTS);
+}
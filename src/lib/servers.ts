@@ -0,0 +1,78 @@
+import { readJSON, writeJSON } from "./storage";
+
+export interface ServerProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+}
+
+const SERVERS_KEY = "servers";
+const ACTIVE_SERVER_KEY = "active-server";
+
+export const DEFAULT_SERVER: ServerProfile = {
+  id: "default",
+  name: "Default",
+  baseUrl: normalizeBaseUrl(import.meta.env.VITE_API_BASE_URL || "https://ml.xlr.ovh/api"),
+};
+
+export function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "");
+}
+
+// The env-driven default is always available and cannot be edited or removed;
+// user-added profiles are persisted after it.
+export function getServers(): ServerProfile[] {
+  return [DEFAULT_SERVER, ...readJSON<ServerProfile[]>(SERVERS_KEY, [])];
+}
+
+export function getActiveServer(): ServerProfile {
+  const activeId = readJSON<string>(ACTIVE_SERVER_KEY, DEFAULT_SERVER.id);
+  return getServers().find((s) => s.id === activeId) || DEFAULT_SERVER;
+}
+
+export function setActiveServer(serverId: string): ServerProfile {
+  writeJSON(ACTIVE_SERVER_KEY, serverId);
+  return getActiveServer();
+}
+
+export function addServer(params: { name: string; baseUrl: string }): ServerProfile {
+  const server: ServerProfile = {
+    id: `srv-${Date.now().toString(36)}`,
+    name: params.name.trim(),
+    baseUrl: normalizeBaseUrl(params.baseUrl),
+  };
+  writeJSON(SERVERS_KEY, [...getServers().slice(1), server]);
+  return server;
+}
+
+export function updateServer(
+  serverId: string,
+  params: Partial<{ name: string; baseUrl: string }>
+): void {
+  const servers = getServers()
+    .slice(1)
+    .map((s) =>
+      s.id === serverId
+        ? {
+            ...s,
+            name: params.name?.trim() ?? s.name,
+            baseUrl: params.baseUrl !== undefined ? normalizeBaseUrl(params.baseUrl) : s.baseUrl,
+          }
+        : s
+    );
+  writeJSON(SERVERS_KEY, servers);
+}
+
+export function removeServer(serverId: string): void {
+  if (serverId === DEFAULT_SERVER.id) return;
+  const wasActive = getActiveServer().id === serverId;
+  writeJSON(
+    SERVERS_KEY,
+    getServers()
+      .slice(1)
+      .filter((s) => s.id !== serverId)
+  );
+  if (wasActive) {
+    setActiveServer(DEFAULT_SERVER.id);
+  }
+}
@@ -0,0 +1,41 @@
+// Registers the build's service worker (production only) and reports when a
+// newer build has finished installing and is waiting to take over.
+export function registerServiceWorker(onUpdateReady: (applyUpdate: () => void) => void): void {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  const promptFor = (worker: ServiceWorker) => {
+    onUpdateReady(() => worker.postMessage({ type: "SKIP_WAITING" }));
+  };
+
+  // Once the new worker takes control, reload so the page runs the new build.
+  let reloading = false;
+  navigator.serviceWorker.addEventListener("controllerchange", () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  navigator.serviceWorker
+    .register("/sw.js")
+    .then((registration) => {
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        promptFor(registration.waiting);
+      }
+      registration.addEventListener("updatefound", () => {
+        const installing = registration.installing;
+        installing?.addEventListener("statechange", () => {
+          // Without a controller this is the first install, not an update.
+          if (installing.state === "installed" && navigator.serviceWorker.controller) {
+            promptFor(installing);
+          }
+        });
+      });
+    })
+    .catch((error) => {
+      console.error("Service worker registration failed:", error);
+    });
+}
+
+export function clearApiCache(): void {
+  navigator.serviceWorker?.controller?.postMessage({ type: "CLEAR_API_CACHE" });
+}
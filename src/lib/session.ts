@@ -0,0 +1,39 @@
+import type { User } from "./api";
+import { getActiveServer } from "./servers";
+import { readJSON, writeJSON, removeKey } from "./storage";
+
+export interface Session {
+  token: string;
+  user: User;
+}
+
+type SessionListener = (session: Session | null) => void;
+
+const listeners = new Set<SessionListener>();
+
+// Sessions are scoped to a server profile so switching backends never sends
+// one server's token to another.
+function sessionKey(): string {
+  return `session:${getActiveServer().id}`;
+}
+
+export function getSession(): Session | null {
+  return readJSON<Session | null>(sessionKey(), null);
+}
+
+export function setSession(session: Session): void {
+  writeJSON(sessionKey(), session);
+  listeners.forEach((listener) => listener(session));
+}
+
+export function clearSession(): void {
+  removeKey(sessionKey());
+  listeners.forEach((listener) => listener(null));
+}
+
+export function subscribeSession(listener: SessionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,31 @@
+import { DecimalSeparator, ImportSource } from "./importer";
+import { parseOfx } from "./ofx";
+import { parseQif } from "./qif";
+
+export type StatementFormat = "csv" | "ofx" | "qif";
+
+// An OFX or QIF file as uploaded; it is parsed again when options change.
+export interface StatementFile {
+  name: string;
+  format: Exclude<StatementFormat, "csv">;
+  text: string;
+}
+
+export function statementFormat(fileName: string): StatementFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "csv" || extension === "txt") return "csv";
+  if (extension === "ofx" || extension === "qfx") return "ofx";
+  if (extension === "qif") return "qif";
+  return null;
+}
+
+// OFX amounts always use a point; QIF files are written in the bank's locale.
+export function readStatement(
+  file: StatementFile,
+  qifDayFirst: boolean,
+  qifDecimal: DecimalSeparator = "."
+): ImportSource {
+  const parsed =
+    file.format === "ofx" ? parseOfx(file.text) : parseQif(file.text, qifDayFirst, qifDecimal);
+  return { name: file.name, ...parsed };
+}
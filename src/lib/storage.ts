@@ -0,0 +1,28 @@
+const STORAGE_PREFIX = "moneylover:";
+
+// Thin wrappers around localStorage that namespace keys and never throw, so a
+// full or disabled storage (private mode, quota) only loses persistence.
+export function readJSON<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeJSON<T>(key: string, value: T): void {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to persist ${key}:`, error);
+  }
+}
+
+export function removeKey(key: string): void {
+  try {
+    localStorage.removeItem(STORAGE_PREFIX + key);
+  } catch {
+    // ignore
+  }
+}
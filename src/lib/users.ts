@@ -0,0 +1,19 @@
+import type { User } from "./api";
+
+export const USER_TYPES: { type: string; label: string }[] = [
+  { type: "admin", label: "Administrator" },
+  { type: "user", label: "Member" },
+];
+
+export function isAdmin(user: User | null | undefined): boolean {
+  return user?.user_type === "admin";
+}
+
+// Servers from before deactivation have no flag; everyone there is active.
+export function isActive(user: User): boolean {
+  return user.is_active !== false;
+}
+
+export function userTypeLabel(type: string): string {
+  return USER_TYPES.find((t) => t.type === type)?.label || type;
+}
@@ -0,0 +1,51 @@
+import { SavedViewDefinition, SavedViewPeriod, TransactionSortField, UserPreferences } from "./api";
+import { Period, PeriodType, periodOffset } from "./period";
+import { compactFilters } from "./filters";
+
+export interface ViewEntry {
+  // "server:<view_id>" or "local:<timestamp>", unique across both sources.
+  id: string;
+  name: string;
+  definition: SavedViewDefinition;
+  viewId?: number;
+}
+
+export const DEFAULT_SORT: TransactionSortField = "transaction_time";
+
+// The unfiltered view, in the user's preferred sort and period when known.
+export function defaultDefinition(walletId: number, preferences?: UserPreferences): SavedViewDefinition {
+  return {
+    wallet_id: walletId,
+    filters: {},
+    sort: preferences?.transaction_sort || DEFAULT_SORT,
+    period: { type: preferences?.period_type || "monthly", offset: 0 },
+  };
+}
+
+// Relative periods are stored as an offset from today; custom ranges as-is.
+export function toSavedPeriod(periodType: PeriodType, currentDate: Date, period: Period): SavedViewPeriod {
+  if (periodType === "custom") {
+    return { type: "custom", start: period.start.toISOString(), end: period.end.toISOString() };
+  }
+  return { type: periodType, offset: periodOffset(periodType, currentDate) };
+}
+
+function canonical(definition: SavedViewDefinition): string {
+  const filters = compactFilters(definition.filters);
+  if (filters.category_ids) filters.category_ids = [...filters.category_ids].sort((a, b) => a - b);
+  const { period } = definition;
+  return JSON.stringify([
+    definition.wallet_id,
+    filters,
+    definition.sort,
+    period.type === "custom" ? [period.type, period.start, period.end] : [period.type, period.offset],
+  ]);
+}
+
+export function sameDefinition(a: SavedViewDefinition, b: SavedViewDefinition): boolean {
+  return canonical(a) === canonical(b);
+}
+
+export function localViewsKey(serverId: string, userId: number): string {
+  return `views:${serverId}:${userId}`;
+}
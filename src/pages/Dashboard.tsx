@@ -1,45 +1,190 @@
-import { useState, useCallback } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useLocation, useMatch, useNavigate } from "react-router-dom";
 import { Transaction } from "@/lib/api";
 import WalletSelector from "@/components/WalletSelector";
 import TransactionList from "@/components/TransactionList";
 import TransactionDialog from "@/components/TransactionDialog";
+import TransferDialog from "@/components/TransferDialog";
 import BottomNav from "@/components/BottomNav";
 import WalletManager from "@/components/WalletManager";
+import ReportsView from "@/components/ReportsView";
 import CategoryManager from "@/components/CategoryManager";
 import SettingsPanel from "@/components/SettingsPanel";
+import PeopleManager from "@/components/PeopleManager";
+import UserManager from "@/components/UserManager";
+import CommandPalette from "@/components/CommandPalette";
+import { Button } from "@/components/ui/button";
+import { Search } from "lucide-react";
 import { useApp } from "@/hooks/useApp";
-type Tab = "transactions" | "categories" | "wallets" | "settings";
+import { useToast } from "@/hooks/use-toast";
+import { useTransaction } from "@/hooks/queries";
+import { usePeriod } from "@/hooks/usePeriod";
+import { useRecurringScheduler } from "@/hooks/useRecurringScheduler";
+import { isAdmin } from "@/lib/users";
+import { canEdit } from "@/lib/members";
+import { Tab, hasPeriod, parsePeriodSearch, periodSearch, tabFromPath, tabPath, transactionPath } from "@/lib/routes";
 export default function Dashboard() {
   const {
+    wallets,
     selectedWallet,
-    refreshWallets
+    setSelectedWallet,
+    currentUser,
+    preferences,
+    updatePreferences
   } = useApp();
-  const [activeTab, setActiveTab] = useState<Tab>("transactions");
+  const { toast } = useToast();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const walletMatch = useMatch("/wallets/:walletId/:tab");
+  const transactionMatch = useMatch("/transactions/:transactionId");
+  const activeTab = tabFromPath(location.pathname);
+  const routeWalletId = walletMatch ? Number(walletMatch.params.walletId) : null;
+  const routeWallet = wallets.find(w => w.wallet_id === routeWalletId);
+  const routeTransactionId = transactionMatch ? Number(transactionMatch.params.transactionId) : null;
+  const periodState = usePeriod(preferences.period_type, period_type => updatePreferences({
+    period_type
+  }));
+  const {
+    periodType,
+    currentDate,
+    customDateRange,
+    restore: restorePeriod
+  } = periodState;
+  const currentPeriodSearch = periodSearch({
+    type: periodType,
+    date: currentDate,
+    range: customDateRange
+  });
+  useRecurringScheduler();
   const [showTransactionDialog, setShowTransactionDialog] = useState(false);
-  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
-  const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+
+  // The wallet in the URL is applied once each time it changes; picking
+  // another wallet afterwards moves the URL along instead.
+  const syncedWalletId = useRef<number | null>(null);
+  useEffect(() => {
+    if (!routeWalletId) {
+      syncedWalletId.current = null;
+      return;
+    }
+    if (!routeWallet || routeWallet.wallet_id === syncedWalletId.current) return;
+    syncedWalletId.current = routeWallet.wallet_id;
+    if (selectedWallet?.wallet_id !== routeWallet.wallet_id) setSelectedWallet(routeWallet);
+  }, [routeWalletId, routeWallet, selectedWallet, setSelectedWallet]);
+  useEffect(() => {
+    if (!routeWalletId || !selectedWallet || syncedWalletId.current !== routeWalletId) return;
+    if (selectedWallet.wallet_id !== routeWalletId) {
+      navigate(tabPath(activeTab, selectedWallet.wallet_id, currentPeriodSearch), {
+        replace: true
+      });
+    }
+  }, [routeWalletId, selectedWallet, activeTab, currentPeriodSearch, navigate]);
+  useEffect(() => {
+    if (location.pathname === "/" && selectedWallet) {
+      navigate(tabPath("transactions", selectedWallet.wallet_id, currentPeriodSearch), {
+        replace: true
+      });
+    }
+  }, [location.pathname, selectedWallet, currentPeriodSearch, navigate]);
+
+  // Same for the period: a new one in the URL (a link, back/forward) is shown,
+  // and periods picked on screen are written back without adding history.
+  const urlPeriodSearch = location.search.replace(/^\?/, "");
+  const appliedPeriodSearch = useRef<string | null>(null);
+  useEffect(() => {
+    if (!routeWalletId || !hasPeriod(activeTab)) return;
+    if (urlPeriodSearch !== appliedPeriodSearch.current) {
+      appliedPeriodSearch.current = urlPeriodSearch;
+      const params = parsePeriodSearch(urlPeriodSearch);
+      if (params) {
+        restorePeriod(params.type, params.date, params.range);
+        return;
+      }
+    }
+    if (urlPeriodSearch !== currentPeriodSearch) {
+      appliedPeriodSearch.current = currentPeriodSearch;
+      navigate({
+        search: currentPeriodSearch
+      }, {
+        replace: true
+      });
+    }
+  }, [routeWalletId, activeTab, urlPeriodSearch, currentPeriodSearch, restorePeriod, navigate]);
+
+  // Opened from the list the transaction comes along in the navigation state;
+  // opened from a link it is fetched.
+  const stateTransaction = (location.state as {
+    transaction?: Transaction;
+  } | null)?.transaction;
+  const passedTransaction = stateTransaction?.transaction_id === routeTransactionId ? stateTransaction : undefined;
+  const transactionQuery = useTransaction(passedTransaction ? null : routeTransactionId);
+  const routeTransaction = routeTransactionId ? passedTransaction || transactionQuery.data || null : null;
+  const transactionMissing = transactionQuery.isError || transactionQuery.data === null;
+  useEffect(() => {
+    if (!transactionMissing) return;
+    toast({
+      title: "Transaction not found",
+      description: "It may have been deleted, or it is in a wallet you can't see.",
+      variant: "destructive"
+    });
+    navigate("/", {
+      replace: true
+    });
+  }, [transactionMissing, toast, navigate]);
+  useEffect(() => {
+    if (!routeTransaction) return;
+    const wallet = wallets.find(w => w.wallet_id === routeTransaction.wallet_id);
+    if (wallet && wallet.wallet_id !== selectedWallet?.wallet_id) setSelectedWallet(wallet);
+  }, [routeTransaction, wallets, selectedWallet, setSelectedWallet]);
+  const closeTransaction = () => {
+    // Back to where it was opened from, unless the app was opened on it.
+    if (location.key !== "default") {
+      navigate(-1);
+      return;
+    }
+    navigate(tabPath("transactions", routeTransaction?.wallet_id, currentPeriodSearch), {
+      replace: true
+    });
+  };
   const handleTransactionClick = (transaction: Transaction) => {
-    setEditingTransaction(transaction);
-    setShowTransactionDialog(true);
+    navigate(transactionPath(transaction.transaction_id), {
+      state: {
+        transaction
+      }
+    });
   };
+  const handleNavigate = (tab: Tab) => navigate(tabPath(tab, selectedWallet?.wallet_id, currentPeriodSearch));
   const handleAddClick = () => {
-    setEditingTransaction(null);
+    if (selectedWallet && !canEdit(selectedWallet)) {
+      toast({
+        title: "View only",
+        description: `You can view ${selectedWallet.name} but not add to it.`
+      });
+      return;
+    }
     setShowTransactionDialog(true);
   };
-  const handleTransactionSuccess = useCallback(() => {
-    setRefreshTrigger(prev => prev + 1);
-    refreshWallets();
-  }, [refreshWallets]);
   const renderContent = () => {
+    if (routeWalletId && wallets.length > 0 && !routeWallet) {
+      return <div className="text-center py-8 text-muted-foreground">
+          This wallet doesn't exist or isn't shared with you.
+        </div>;
+    }
     switch (activeTab) {
       case "transactions":
-        return <TransactionList onTransactionClick={handleTransactionClick} refreshTrigger={refreshTrigger} />;
+        return <TransactionList periodState={periodState} onTransactionClick={handleTransactionClick} />;
+      case "reports":
+        return <ReportsView periodState={periodState} />;
       case "categories":
         return <CategoryManager />;
       case "wallets":
         return <WalletManager />;
       case "settings":
-        return <SettingsPanel />;
+        return <SettingsPanel onOpenPeople={() => handleNavigate("people")} onOpenUsers={() => handleNavigate("users")} />;
+      case "people":
+        return <PeopleManager />;
+      case "users":
+        return isAdmin(currentUser) ? <UserManager /> : <SettingsPanel onOpenPeople={() => handleNavigate("people")} />;
     }
   };
   return <div className="min-h-screen bg-background flex flex-col">
@@ -49,7 +194,12 @@ export default function Dashboard() {
           <div>
             <h1 className="text-xl font-bold text-foreground">MoneyLover</h1>
           </div>
-          <WalletSelector />
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => setShowCommandPalette(true)} title="Search (Ctrl+K)">
+              <Search className="h-5 w-5" />
+            </Button>
+            <WalletSelector />
+          </div>
         </div>
 
         {/* Balance Display */}
@@ -64,12 +214,14 @@ export default function Dashboard() {
       </main>
 
       {/* Bottom Navigation */}
-      <BottomNav activeTab={activeTab} onTabChange={setActiveTab} onAddClick={handleAddClick} />
+      <BottomNav walletId={selectedWallet?.wallet_id} periodSearch={currentPeriodSearch} onAddClick={handleAddClick} />
 
       {/* Transaction Dialog */}
-      <TransactionDialog open={showTransactionDialog} onClose={() => {
-      setShowTransactionDialog(false);
-      setEditingTransaction(null);
-    }} transaction={editingTransaction} onSuccess={handleTransactionSuccess} />
+      <TransactionDialog open={showTransactionDialog || !!routeTransaction && !routeTransaction.transfer_id} onClose={() => showTransactionDialog ? setShowTransactionDialog(false) : closeTransaction()} transaction={showTransactionDialog ? null : routeTransaction} />
+
+      {/* Any leg of a transfer, including its fee, edits the whole transfer. */}
+      <TransferDialog open={!!routeTransaction?.transfer_id} onClose={closeTransaction} transferId={routeTransaction?.transfer_id ?? null} readOnly={!!routeTransaction && !canEdit(wallets.find(w => w.wallet_id === routeTransaction.wallet_id))} />
+
+      <CommandPalette open={showCommandPalette} onOpenChange={setShowCommandPalette} onAddTransaction={handleAddClick} onOpenTransaction={handleTransactionClick} onNavigate={handleNavigate} />
     </div>;
 }
\ No newline at end of file
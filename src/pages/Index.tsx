@@ -1,10 +1,11 @@
 import { useApp } from "@/hooks/useApp";
 import InitSetup from "./InitSetup";
 import Dashboard from "./Dashboard";
+import Login from "./Login";
 import { Loader2, Wallet } from "lucide-react";
 
 export default function Index() {
-  const { initStatus, isLoading } = useApp();
+  const { initStatus, isLoading, currentUser } = useApp();
 
   if (isLoading) {
     return (
@@ -24,5 +25,9 @@ export default function Index() {
     return <InitSetup />;
   }
 
+  if (!currentUser) {
+    return <Login />;
+  }
+
   return <Dashboard />;
 }
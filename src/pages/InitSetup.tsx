@@ -9,7 +9,7 @@ import { Loader2, Wallet, Shield, Sparkles } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 export default function InitSetup() {
-  const { refreshInitStatus, refreshWallets, refreshUsers } = useApp();
+  const { refreshInitStatus, login } = useApp();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formData, setFormData] = useState({
@@ -36,7 +36,7 @@ export default function InitSetup() {
           description: "Your finance app is ready to use.",
         });
         await refreshInitStatus();
-        await Promise.all([refreshWallets(), refreshUsers()]);
+        await login(formData.admin_username, formData.admin_password);
       }
     } catch (error: any) {
       toast({
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getServers } from "@/lib/servers";
+import { useApp } from "@/hooks/useApp";
+import { Loader2, Wallet, LogIn, Server } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+export default function Login() {
+  const { login, activeServer, switchServer } = useApp();
+  const servers = getServers();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState({
+    username: "",
+    password: "",
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      await login(formData.username, formData.password);
+    } catch (error) {
+      toast({
+        title: "Sign in failed",
+        description: (error as Error).message || "Invalid username or password",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData((prev) => ({
+      ...prev,
+      [e.target.name]: e.target.value,
+    }));
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center p-4 safe-area-inset-top safe-area-inset-bottom">
+      <div className="w-full max-w-md space-y-6 animate-slide-up">
+        {/* Logo/Branding */}
+        <div className="text-center space-y-2">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl gradient-primary shadow-lg mb-4">
+            <Wallet className="w-8 h-8 text-primary-foreground" />
+          </div>
+          <h1 className="text-3xl font-bold tracking-tight">MoneyLover</h1>
+          <p className="text-muted-foreground">Smart expense tracking made simple</p>
+        </div>
+
+        {/* Login Card */}
+        <Card className="shadow-soft border-0">
+          <CardHeader className="text-center pb-4">
+            <CardTitle className="text-xl">Welcome back</CardTitle>
+            <CardDescription>Sign in to continue</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  name="username"
+                  autoComplete="username"
+                  placeholder="johndoe"
+                  value={formData.username}
+                  onChange={handleChange}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete="current-password"
+                  placeholder="••••••••"
+                  value={formData.password}
+                  onChange={handleChange}
+                  required
+                />
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                size="lg"
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Signing in...
+                  </>
+                ) : (
+                  <>
+                    <LogIn className="w-4 h-4" />
+                    Sign In
+                  </>
+                )}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Server profiles are managed from Settings once signed in */}
+        {servers.length > 1 ? (
+          <Select value={activeServer.id} onValueChange={switchServer}>
+            <SelectTrigger className="w-auto mx-auto h-8 text-xs gap-1 border-0 bg-transparent text-muted-foreground">
+              <Server className="w-3 h-3" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {servers.map((server) => (
+                <SelectItem key={server.id} value={server.id}>
+                  {server.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <p className="text-center text-xs text-muted-foreground flex items-center justify-center gap-1">
+            <Server className="w-3 h-3" />
+            Connected to {activeServer.name}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
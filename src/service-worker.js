@@ -0,0 +1,121 @@
+// Service worker template. At build time the `serviceWorker` plugin in
+// vite.config.ts prepends a definition of __PRECACHE_MANIFEST__ (the emitted
+// files and a build version) and writes the result to dist/sw.js.
+const PRECACHE = self.__PRECACHE_MANIFEST__ || { version: "dev", files: [] };
+
+const SHELL_CACHE = `app-shell-${PRECACHE.version}`;
+const API_CACHE = "api-v1";
+const MAX_TRANSACTION_RESPONSES = 30;
+
+// Read-mostly endpoints worth serving from cache when the network is slow or
+// gone. Matched on the path suffix so any configured API base works.
+const API_ROUTES = [
+  /\/wallets$/,
+  /\/wallets\/\d+\/categories\/tree$/,
+  /\/wallets\/\d+\/transactions$/,
+];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(PRECACHE.files)));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("app-shell-") && key !== SHELL_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page asks the waiting worker to take over once the user accepts the
+// update prompt, and drops cached API data when the session ends.
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") {
+    self.skipWaiting();
+  } else if (event.data?.type === "CLEAR_API_CACHE") {
+    event.waitUntil(caches.delete(API_CACHE));
+  }
+});
+
+async function trimTransactionResponses(cache) {
+  const keys = (await cache.keys()).filter((request) =>
+    /\/wallets\/\d+\/transactions$/.test(new URL(request.url).pathname)
+  );
+  // Cache keys come back in insertion order; drop the oldest first.
+  await Promise.all(
+    keys.slice(0, Math.max(0, keys.length - MAX_TRANSACTION_RESPONSES)).map((k) => cache.delete(k))
+  );
+}
+
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(API_CACHE);
+  const cached = await cache.match(event.request);
+  const network = fetch(event.request)
+    .then(async (response) => {
+      if (response.ok) {
+        await cache.delete(event.request);
+        await cache.put(event.request, response.clone());
+        await trimTransactionResponses(cache);
+      }
+      return response;
+    })
+    .catch((error) => {
+      if (cached) return cached;
+      throw error;
+    });
+
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+}
+
+async function networkFirstNavigation(request) {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const shell = await caches.match("/index.html");
+    if (shell) return shell;
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+
+  // Any write may change what the cached reads return; start over so the
+  // refetch that follows a mutation does not show the old data.
+  if (request.method !== "GET") {
+    event.respondWith(
+      fetch(request).then(async (response) => {
+        if (response.ok) await caches.delete(API_CACHE);
+        return response;
+      })
+    );
+    return;
+  }
+
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstNavigation(request));
+    return;
+  }
+
+  if (API_ROUTES.some((route) => route.test(url.pathname))) {
+    event.respondWith(staleWhileRevalidate(event));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+  }
+});
@@ -1,15 +1,45 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
 import { componentTagger } from "lovable-tagger";
 
+// Emits dist/sw.js from src/service-worker.js with the list of build outputs
+// to precache. The version changes with every build that changes an asset, so
+// browsers pick up the new worker and the app can offer to reload.
+function serviceWorker(): Plugin {
+  return {
+    name: "moneylover-service-worker",
+    apply: "build",
+    generateBundle(_options, bundle) {
+      const files = Array.from(new Set([
+        "/",
+        "/index.html",
+        "/manifest.json",
+        "/favicon.ico",
+        ...Object.keys(bundle)
+          .filter((fileName) => !fileName.endsWith(".map"))
+          .map((fileName) => `/${fileName}`),
+      ]));
+      const version = createHash("sha256").update(files.join("\n")).digest("hex").slice(0, 12);
+      const template = fs.readFileSync(path.resolve(__dirname, "src/service-worker.js"), "utf-8");
+      this.emitFile({
+        type: "asset",
+        fileName: "sw.js",
+        source: `self.__PRECACHE_MANIFEST__ = ${JSON.stringify({ version, files })};\n${template}`,
+      });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), mode === "development" && componentTagger(), serviceWorker()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),